@@ -1,23 +1,223 @@
-import type { CSSProperties } from "react";
-import { useEffect, useRef, useState } from "react";
+import type { CSSProperties, FormEvent, KeyboardEvent } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 
+import { MAX_MESSAGE_LENGTH } from "../utils/chat";
+import type { QuickAction, WidgetSettings } from "../utils/widget-settings";
+import {
+  DEFAULT_WIDGET_SETTINGS,
+  isWidgetVisibleOnPage,
+  QUICK_ACTIONS,
+} from "../utils/widget-settings";
 import styles from "./ChatWidget.module.css";
 
 type ChatWidgetProps = {
-  brandName?: string;
-  brandColor?: string;
-  showOnlineIndicator?: boolean;
+  /** Storefront App Proxy base path (see shopify.app.toml). */
+  apiBaseUrl?: string;
+  /** Rendered until the merchant's settings are fetched from `${apiBaseUrl}/settings`. */
+  initialSettings?: Partial<WidgetSettings>;
+  /** Liquid-style page type, for the merchant's page targeting. */
+  pageType?: string;
 };
 
+type ChatMessage = {
+  id: string;
+  role: "customer" | "bot" | "agent";
+  body: string;
+  createdAt: string;
+  /** Client-only (e.g. tracking link on an order status reply). */
+  link?: { href: string; label: string };
+};
+
+type OrderStatusResponse =
+  | {
+      found: true;
+      order: { name: string; fulfillments: Array<{ trackingUrl: string | null }> };
+      message: ChatMessage | null;
+    }
+  | { found: false; message: ChatMessage | null };
+
+type ShippingInfoResponse = {
+  policies: Array<{ id: string; title: string; body: string }>;
+  faqs: Array<{ id: string; title: string; body: string }>;
+};
+
+type AvailabilityResponse = {
+  availability: { status: "online" | "away"; reason: string };
+};
+
+type SendMessageResponse = {
+  message: ChatMessage;
+  reply: ChatMessage | null;
+  conversation: { id: string; status: "open" | "handoff" | "closed" };
+};
+
+type OfflineMessageResponse = {
+  message: ChatMessage;
+  reply: ChatMessage | null;
+};
+
+type HandoffResponse = {
+  conversation: { id: string; status: "open" | "handoff" | "closed" };
+  message: ChatMessage | null;
+};
+
+const STORAGE_PREFIX = "astra-chat:";
+// New messages are pushed over SSE; polling is the fallback when the
+// stream can't be opened (no EventSource, or a proxy that buffers).
+const POLL_INTERVAL_MS = 5000;
+
+class ChatRequestError extends Error {
+  constructor(readonly status: number) {
+    super(`Request failed (${status})`);
+    this.name = "ChatRequestError";
+  }
+}
+
+function readStorage(key: string): string | null {
+  try {
+    return window.localStorage.getItem(STORAGE_PREFIX + key);
+  } catch {
+    return null;
+  }
+}
+
+function writeStorage(key: string, value: string | null) {
+  try {
+    if (value === null) window.localStorage.removeItem(STORAGE_PREFIX + key);
+    else window.localStorage.setItem(STORAGE_PREFIX + key, value);
+  } catch {
+    // storage can be blocked; chat still works for the current page
+  }
+}
+
+function getVisitorId(): string {
+  let visitorId = readStorage("visitor-id");
+  if (!visitorId) {
+    visitorId = window.crypto.randomUUID();
+    writeStorage("visitor-id", visitorId);
+  }
+  return visitorId;
+}
+
+async function requestJson<T>(
+  url: string,
+  init?: { method?: string; body?: unknown }
+): Promise<T> {
+  const res = await fetch(url, {
+    method: init?.method ?? "GET",
+    headers: init?.body
+      ? { Accept: "application/json", "Content-Type": "application/json" }
+      : { Accept: "application/json" },
+    body: init?.body ? JSON.stringify(init.body) : undefined,
+    credentials: "same-origin",
+  });
+
+  if (!res.ok) throw new ChatRequestError(res.status);
+  return (await res.json()) as T;
+}
+
 export default function ChatWidget({
-  brandName = "Modavinio",
-  brandColor = "#4f46e5",
-  showOnlineIndicator = true,
+  apiBaseUrl = "/apps/astra",
+  initialSettings,
+  pageType = "",
 }: ChatWidgetProps) {
+  const [settings, setSettings] = useState<WidgetSettings>({
+    ...DEFAULT_WIDGET_SETTINGS,
+    ...initialSettings,
+  });
   const [isOpen, setIsOpen] = useState(false);
   const [bottomOffset, setBottomOffset] = useState(24);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const [orderFormOpen, setOrderFormOpen] = useState(false);
+  const [orderNumber, setOrderNumber] = useState("");
+  const [orderVerifier, setOrderVerifier] = useState("");
+  const [orderError, setOrderError] = useState<string | null>(null);
+  const [orderSubmitting, setOrderSubmitting] = useState(false);
+  // null until /availability answers: no status is shown rather than a wrong one.
+  const [away, setAway] = useState<boolean | null>(null);
+  const [offlineFormOpen, setOfflineFormOpen] = useState(false);
+  const [contactName, setContactName] = useState("");
+  const [contactEmail, setContactEmail] = useState("");
+  const [offlineBody, setOfflineBody] = useState("");
+  const [offlineError, setOfflineError] = useState<string | null>(null);
+  const [offlineSubmitting, setOfflineSubmitting] = useState(false);
   const launcherRef = useRef<HTMLButtonElement | null>(null);
   const inputRef = useRef<HTMLInputElement | null>(null);
+  const messageAreaRef = useRef<HTMLDivElement | null>(null);
+  const conversationIdRef = useRef<string | null>(null);
+  // Mirrors conversationIdRef so the live-updates effect re-subscribes.
+  const [liveConversationId, setLiveConversationId] = useState<string | null>(null);
+  const historyLoadedRef = useRef(false);
+  const messagesRef = useRef<ChatMessage[]>([]);
+
+  const appendMessages = useCallback((incoming: ChatMessage[]) => {
+    setMessages((current) => {
+      const known = new Set(current.map((m) => m.id));
+      const next = incoming.filter((m) => !known.has(m.id));
+      return next.length ? [...current, ...next] : current;
+    });
+  }, []);
+
+  const resetConversation = useCallback(() => {
+    conversationIdRef.current = null;
+    setLiveConversationId(null);
+    writeStorage("conversation-id", null);
+  }, []);
+
+  const ensureConversation = useCallback(async () => {
+    if (conversationIdRef.current) return conversationIdRef.current;
+
+    const data = await requestJson<{ conversation: { id: string } }>(
+      `${apiBaseUrl}/conversations`,
+      { method: "POST", body: { visitorId: getVisitorId() } }
+    );
+    conversationIdRef.current = data.conversation.id;
+    setLiveConversationId(data.conversation.id);
+    writeStorage("conversation-id", data.conversation.id);
+    return data.conversation.id;
+  }, [apiBaseUrl]);
+
+  const postMessage = useCallback(
+    async (body: string) => {
+      const conversationId = await ensureConversation();
+      return requestJson<SendMessageResponse>(
+        `${apiBaseUrl}/conversations/${encodeURIComponent(conversationId)}/messages`,
+        { method: "POST", body: { visitorId: getVisitorId(), body } }
+      );
+    },
+    [apiBaseUrl, ensureConversation]
+  );
+
+  useEffect(() => {
+    let cancelled = false;
+    requestJson<{ settings: WidgetSettings }>(`${apiBaseUrl}/settings`)
+      .then((data) => {
+        if (!cancelled) setSettings(data.settings);
+      })
+      .catch(() => {
+        // keep the initial settings
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [apiBaseUrl]);
+
+  // Presence changes while the page is open; refresh it with every open.
+  useEffect(() => {
+    let cancelled = false;
+    requestJson<AvailabilityResponse>(`${apiBaseUrl}/availability`)
+      .then((data) => {
+        if (!cancelled) setAway(data.availability.status !== "online");
+      })
+      .catch(() => {
+        // keep the last known status
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [apiBaseUrl, isOpen]);
 
   useEffect(() => {
     if (isOpen) {
@@ -25,6 +225,85 @@ export default function ChatWidget({
     }
   }, [isOpen]);
 
+  useEffect(() => {
+    if (!isOpen || historyLoadedRef.current) return;
+    historyLoadedRef.current = true;
+
+    const conversationId = readStorage("conversation-id");
+    if (!conversationId) return;
+    conversationIdRef.current = conversationId;
+
+    const params = new URLSearchParams({ visitor_id: getVisitorId() });
+    requestJson<{ messages: ChatMessage[] }>(
+      `${apiBaseUrl}/conversations/${encodeURIComponent(conversationId)}/messages?${params.toString()}`
+    )
+      .then((data) => {
+        appendMessages(data.messages);
+        setLiveConversationId(conversationId);
+      })
+      .catch((err: unknown) => {
+        if (err instanceof ChatRequestError && err.status === 404) resetConversation();
+      });
+  }, [isOpen, apiBaseUrl, appendMessages, resetConversation]);
+
+  useEffect(() => {
+    if (!isOpen || !liveConversationId) return;
+
+    const base = `${apiBaseUrl}/conversations/${encodeURIComponent(liveConversationId)}`;
+    const lastServerMessageId = () =>
+      [...messagesRef.current].reverse().find((m) => !m.id.startsWith("local-"))?.id;
+
+    let timer: number | undefined;
+    const startPolling = () => {
+      timer = window.setInterval(() => {
+        const params = new URLSearchParams({ visitor_id: getVisitorId() });
+        const last = lastServerMessageId();
+        if (last) params.set("after", last);
+
+        requestJson<{ messages: ChatMessage[] }>(`${base}/messages?${params.toString()}`)
+          .then((data) => appendMessages(data.messages))
+          .catch(() => {
+            // next tick retries
+          });
+      }, POLL_INTERVAL_MS);
+    };
+
+    let source: EventSource | undefined;
+    if (typeof window.EventSource === "function") {
+      const params = new URLSearchParams({ visitor_id: getVisitorId() });
+      const last = lastServerMessageId();
+      if (last) params.set("last_event_id", last);
+
+      source = new EventSource(`${base}/stream?${params.toString()}`);
+      source.addEventListener("message", (event) => {
+        try {
+          appendMessages([JSON.parse(event.data) as ChatMessage]);
+        } catch {
+          // ignore malformed events
+        }
+      });
+      source.addEventListener("error", () => {
+        // CONNECTING means the browser is retrying on its own (with Last-Event-ID).
+        if (source?.readyState !== EventSource.CLOSED) return;
+        source = undefined;
+        startPolling();
+      });
+    } else {
+      startPolling();
+    }
+
+    return () => {
+      source?.close();
+      if (timer !== undefined) window.clearInterval(timer);
+    };
+  }, [isOpen, liveConversationId, apiBaseUrl, appendMessages]);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+    const area = messageAreaRef.current;
+    if (area) area.scrollTop = area.scrollHeight;
+  }, [messages]);
+
   useEffect(() => {
     const updateOffset = () => {
       const banner = document.querySelector<HTMLElement>(
@@ -63,24 +342,260 @@ export default function ChatWidget({
     launcherRef.current?.focus();
   };
 
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body || sending) return;
+
+    setSending(true);
+    setDraft("");
+    try {
+      let data: SendMessageResponse;
+      try {
+        data = await postMessage(body);
+      } catch (err: unknown) {
+        // Stored conversation was closed or no longer exists: start a fresh one.
+        if (!(err instanceof ChatRequestError) || ![404, 409].includes(err.status)) {
+          throw err;
+        }
+        resetConversation();
+        data = await postMessage(body);
+      }
+      appendMessages(data.reply ? [data.message, data.reply] : [data.message]);
+      // The bot handed off but nobody is around: offer to follow up by email.
+      if (data.conversation.status === "handoff" && away) {
+        setOfflineError(null);
+        setOfflineFormOpen(true);
+      }
+    } catch {
+      setDraft(body);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleOrderSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (orderSubmitting) return;
+
+    setOrderSubmitting(true);
+    setOrderError(null);
+    try {
+      const conversationId = await ensureConversation();
+      const data = await requestJson<OrderStatusResponse>(`${apiBaseUrl}/order-status`, {
+        method: "POST",
+        body: {
+          visitorId: getVisitorId(),
+          conversationId,
+          orderNumber,
+          verifier: orderVerifier,
+        },
+      });
+
+      const trackingUrl = data.found
+        ? data.order.fulfillments.find((f) => f.trackingUrl)?.trackingUrl
+        : undefined;
+      const link =
+        trackingUrl && /^https?:\/\//i.test(trackingUrl)
+          ? { href: trackingUrl, label: "Track package" }
+          : undefined;
+      const fallbackBody = data.found
+        ? `Order ${data.order.name}`
+        : "We couldn't find an order matching those details.";
+
+      appendMessages([
+        data.message
+          ? { ...data.message, link }
+          : {
+              id: `local-${Date.now()}`,
+              role: "bot",
+              body: fallbackBody,
+              createdAt: new Date().toISOString(),
+              link,
+            },
+      ]);
+      setOrderNumber("");
+      setOrderVerifier("");
+      setOrderFormOpen(false);
+    } catch (err: unknown) {
+      const status = err instanceof ChatRequestError ? err.status : 0;
+      setOrderError(
+        status === 429
+          ? "Too many attempts. Please try again later."
+          : status === 400
+            ? "Enter your order number and the email or postal code used for the order."
+            : "Something went wrong. Please try again."
+      );
+    } finally {
+      setOrderSubmitting(false);
+    }
+  };
+
+  const handleOfflineSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (offlineSubmitting) return;
+
+    const postOfflineMessage = async () => {
+      const conversationId = await ensureConversation();
+      return requestJson<OfflineMessageResponse>(
+        `${apiBaseUrl}/conversations/${encodeURIComponent(conversationId)}/offline-message`,
+        {
+          method: "POST",
+          body: {
+            visitorId: getVisitorId(),
+            name: contactName,
+            email: contactEmail,
+            body: offlineBody,
+          },
+        }
+      );
+    };
+
+    setOfflineSubmitting(true);
+    setOfflineError(null);
+    try {
+      let data: OfflineMessageResponse;
+      try {
+        data = await postOfflineMessage();
+      } catch (err: unknown) {
+        if (!(err instanceof ChatRequestError) || ![404, 409].includes(err.status)) {
+          throw err;
+        }
+        resetConversation();
+        data = await postOfflineMessage();
+      }
+      appendMessages(data.reply ? [data.message, data.reply] : [data.message]);
+      setContactName("");
+      setContactEmail("");
+      setOfflineBody("");
+      setOfflineFormOpen(false);
+    } catch (err: unknown) {
+      setOfflineError(
+        err instanceof ChatRequestError && err.status === 400
+          ? "Enter a valid email address and a message."
+          : "Something went wrong. Please try again."
+      );
+    } finally {
+      setOfflineSubmitting(false);
+    }
+  };
+
+  const handleTalkToSupport = async () => {
+    // Nobody can answer live: collect contact details instead.
+    if (away) {
+      setOfflineError(null);
+      setOfflineFormOpen(true);
+      return;
+    }
+
+    const requestHandoff = async () => {
+      const conversationId = await ensureConversation();
+      return requestJson<HandoffResponse>(
+        `${apiBaseUrl}/conversations/${encodeURIComponent(conversationId)}/handoff`,
+        { method: "POST", body: { visitorId: getVisitorId() } }
+      );
+    };
+
+    try {
+      let data: HandoffResponse;
+      try {
+        data = await requestHandoff();
+      } catch (err: unknown) {
+        if (!(err instanceof ChatRequestError) || err.status !== 404) throw err;
+        resetConversation();
+        data = await requestHandoff();
+      }
+      if (data.conversation.status === "closed") {
+        resetConversation();
+        data = await requestHandoff();
+      }
+      if (data.message) appendMessages([data.message]);
+    } catch {
+      appendMessages([
+        {
+          id: `local-handoff-error-${Date.now()}`,
+          role: "bot",
+          body: "Couldn't reach the team right now. Please try again.",
+          createdAt: new Date().toISOString(),
+        },
+      ]);
+    }
+  };
+
+  const handleShippingInfo = async () => {
+    const localMessage = (id: string, body: string): ChatMessage => ({
+      id: `local-${id}-${Date.now()}`,
+      role: "bot",
+      body,
+      createdAt: new Date().toISOString(),
+    });
+
+    try {
+      const data = await requestJson<ShippingInfoResponse>(`${apiBaseUrl}/shipping-info`);
+      const entries = [
+        ...data.policies.map((p) => localMessage(p.id, p.body)),
+        ...data.faqs.map((f) => localMessage(f.id, `${f.title}\n${f.body}`)),
+      ];
+      appendMessages(
+        entries.length
+          ? entries
+          : [
+              localMessage(
+                "shipping-empty",
+                "Shipping details aren't available here yet. Tap \"Talk to support\" and we'll help."
+              ),
+            ]
+      );
+    } catch {
+      appendMessages([
+        localMessage("shipping-error", "Couldn't load shipping info. Please try again."),
+      ]);
+    }
+  };
+
+  const handleInputKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "Enter") {
+      event.preventDefault();
+      void handleSend();
+    }
+  };
+
+  const quickActionHandlers: Record<QuickAction, () => void> = {
+    order_status: () => {
+      setOrderError(null);
+      setOrderFormOpen(true);
+    },
+    shipping_info: () => void handleShippingInfo(),
+    talk_to_support: () => void handleTalkToSupport(),
+  };
+
+  if (!isWidgetVisibleOnPage(settings, pageType)) return null;
+
   return (
     <div
-      className={styles.widget}
+      className={`${styles.widget} ${
+        settings.position === "bottom-left" ? styles.widgetLeft : ""
+      }`}
       style={
         {
           "--chat-widget-bottom": `${bottomOffset}px`,
-          "--chat-widget-brand": brandColor,
+          "--chat-widget-brand": settings.brandColor,
+          "--chat-widget-brand-text": settings.textColor,
         } as CSSProperties
       }
     >
       <div className={`${styles.panel} ${isOpen ? styles.panelOpen : ""}`}>
         <div className={styles.panelHeader}>
           <div className={styles.headerTitle}>
-            <span className={styles.brandName}>{brandName}</span>
-            <span className={styles.statusRow}>
-              <span className={styles.statusDot} aria-hidden="true" />
-              We are online
-            </span>
+            <span className={styles.brandName}>{settings.brandName}</span>
+            {away !== null && (
+              <span className={styles.statusRow}>
+                <span
+                  className={`${styles.statusDot} ${away ? styles.statusDotAway : ""}`}
+                  aria-hidden="true"
+                />
+                {away ? "We're away" : "We are online"}
+              </span>
+            )}
           </div>
           <button
             type="button"
@@ -98,28 +613,168 @@ export default function ChatWidget({
           </button>
         </div>
         <div className={styles.panelBody}>
-          <div className={styles.messageArea}>
-            Hi there! 👋 How can we help you today?
-          </div>
-          <div className={styles.quickActions}>
-            <button type="button" className={styles.quickAction}>
-              Order status
-            </button>
-            <button type="button" className={styles.quickAction}>
-              Shipping info
-            </button>
-            <button type="button" className={styles.quickAction}>
-              Talk to support
-            </button>
+          <div ref={messageAreaRef} className={styles.messageArea}>
+            <p className={styles.greeting}>{settings.greeting}</p>
+            <div className={styles.messages} aria-live="polite">
+              {messages.map((message) => (
+                <div
+                  key={message.id}
+                  className={`${styles.message} ${
+                    message.role === "customer"
+                      ? styles.messageCustomer
+                      : message.role === "agent"
+                        ? styles.messageAgent
+                        : ""
+                  }`}
+                >
+                  {message.body}
+                  {message.link && (
+                    <>
+                      {" "}
+                      <a href={message.link.href} target="_blank" rel="noopener noreferrer">
+                        {message.link.label}
+                      </a>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
           </div>
+          {settings.quickActions.length > 0 && (
+            <div className={styles.quickActions}>
+              {settings.quickActions.map((action) => (
+                <button
+                  key={action}
+                  type="button"
+                  className={styles.quickAction}
+                  onClick={quickActionHandlers[action]}
+                >
+                  {QUICK_ACTIONS.find((a) => a.value === action)?.label ?? action}
+                </button>
+              ))}
+            </div>
+          )}
+          {orderFormOpen && (
+            <form className={styles.form} onSubmit={handleOrderSubmit}>
+              <input
+                className={styles.formInput}
+                name="orderNumber"
+                placeholder="Order number (e.g. #1001)"
+                aria-label="Order number"
+                autoComplete="off"
+                required
+                value={orderNumber}
+                onChange={(event) => setOrderNumber(event.currentTarget.value)}
+              />
+              <input
+                className={styles.formInput}
+                name="verifier"
+                placeholder="Email or postal code on the order"
+                aria-label="Email or postal code on the order"
+                required
+                value={orderVerifier}
+                onChange={(event) => setOrderVerifier(event.currentTarget.value)}
+              />
+              {orderError && (
+                <p className={styles.formError} role="alert">
+                  {orderError}
+                </p>
+              )}
+              <div className={styles.formActions}>
+                <button
+                  type="button"
+                  className={styles.formCancel}
+                  onClick={() => setOrderFormOpen(false)}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className={styles.formSubmit}
+                  disabled={orderSubmitting}
+                >
+                  Check status
+                </button>
+              </div>
+            </form>
+          )}
+          {offlineFormOpen && (
+            <form className={styles.form} onSubmit={handleOfflineSubmit}>
+              <p className={styles.formNote}>
+                We&apos;re away right now. Leave a message and we&apos;ll get back to you by
+                email.
+              </p>
+              <input
+                className={styles.formInput}
+                name="name"
+                placeholder="Name (optional)"
+                aria-label="Name"
+                autoComplete="name"
+                value={contactName}
+                onChange={(event) => setContactName(event.currentTarget.value)}
+              />
+              <input
+                className={styles.formInput}
+                name="email"
+                type="email"
+                placeholder="Email"
+                aria-label="Email"
+                autoComplete="email"
+                required
+                value={contactEmail}
+                onChange={(event) => setContactEmail(event.currentTarget.value)}
+              />
+              <textarea
+                className={styles.formInput}
+                name="body"
+                rows={3}
+                maxLength={MAX_MESSAGE_LENGTH}
+                placeholder="How can we help?"
+                aria-label="Message"
+                required
+                value={offlineBody}
+                onChange={(event) => setOfflineBody(event.currentTarget.value)}
+              />
+              {offlineError && (
+                <p className={styles.formError} role="alert">
+                  {offlineError}
+                </p>
+              )}
+              <div className={styles.formActions}>
+                <button
+                  type="button"
+                  className={styles.formCancel}
+                  onClick={() => setOfflineFormOpen(false)}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className={styles.formSubmit}
+                  disabled={offlineSubmitting}
+                >
+                  Send
+                </button>
+              </div>
+            </form>
+          )}
           <div className={styles.inputBar}>
             <input
               ref={inputRef}
               className={styles.input}
               placeholder="Type your message..."
               aria-label="Message input"
+              value={draft}
+              onChange={(event) => setDraft(event.currentTarget.value)}
+              onKeyDown={handleInputKeyDown}
             />
-            <button type="button" className={styles.sendButton} aria-label="Send">
+            <button
+              type="button"
+              className={styles.sendButton}
+              aria-label="Send"
+              onClick={() => void handleSend()}
+              disabled={sending}
+            >
               <svg viewBox="0 0 20 20" fill="currentColor" aria-hidden="true">
                 <path d="M2.94 2.94a1.5 1.5 0 012.12 0L17 14.88a1 1 0 01-1.03 1.71l-5.12-1.46-1.46 5.12A1 1 0 018.68 20H8.5a1 1 0 01-.96-1.28l1.76-6.16-6.16 1.76A1 1 0 011.28 12V11.8a1.5 1.5 0 010-2.12L2.94 2.94z" />
               </svg>
@@ -146,8 +801,11 @@ export default function ChatWidget({
         >
           <path d="M21 15a4 4 0 01-4 4H8l-5 3V7a4 4 0 014-4h10a4 4 0 014 4z" />
         </svg>
-        {showOnlineIndicator && (
-          <span className={styles.launcherOnlineDot} aria-hidden="true" />
+        {away !== null && (
+          <span
+            className={`${styles.launcherOnlineDot} ${away ? styles.statusDotAway : ""}`}
+            aria-hidden="true"
+          />
         )}
       </button>
     </div>
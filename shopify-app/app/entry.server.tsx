@@ -6,6 +6,8 @@ import { type EntryContext } from "react-router";
 import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./shopify.server";
 import { validateRequiredConfig } from "./utils/config.server";
+import { jobHandlers } from "./utils/job-handlers.server";
+import { runsJobsInProcess, startJobWorker } from "./utils/jobs.server";
 
 import {
   enableRequestIdRuntimePatches,
@@ -18,6 +20,7 @@ import { buildErrorMetadata, logger } from "./utils/logger.server";
 export const streamTimeout = 5000;
 
 validateRequiredConfig();
+if (runsJobsInProcess()) startJobWorker({ registry: jobHandlers });
 
 let runtimePatched = false;
 function ensureRuntimePatched() {
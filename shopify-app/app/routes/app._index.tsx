@@ -1,3 +1,167 @@
-export default function AppIndex() {
-  return <h1>Hello world</h1>;
+// app/routes/app._index.tsx
+import type { LoaderFunctionArgs } from "react-router";
+import { Form, useLoaderData, useNavigation } from "react-router";
+
+import { requireAdminMerchant } from "../utils/admin.server";
+import {
+  DASHBOARD_PRESETS,
+  formatDuration,
+  formatRate,
+  groupDailyCounts,
+} from "../utils/dashboard";
+import { getDashboardMetrics, resolveMerchantDashboardRange } from "../utils/dashboard.server";
+import { withRequestId } from "../utils/request-id.server";
+import { QUICK_ACTIONS } from "../utils/widget-settings";
+
+// Longer ranges are charted by week.
+const MAX_DAILY_ROWS = 31;
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  return withRequestId(request, async () => {
+    const { merchant } = await requireAdminMerchant(request);
+    const { range, timezone } = await resolveMerchantDashboardRange(
+      merchant.merchantId,
+      new URL(request.url).searchParams
+    );
+
+    return getDashboardMetrics({ merchantId: merchant.merchantId, range, timezone });
+  });
+};
+
+function Stat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <s-box padding="base" border="base" borderRadius="base" inlineSize="180px">
+      <s-stack gap="small-100">
+        <s-text color="subdued">{label}</s-text>
+        <s-text type="strong">{value}</s-text>
+        {detail ? <s-text color="subdued">{detail}</s-text> : null}
+      </s-stack>
+    </s-box>
+  );
+}
+
+export default function Dashboard() {
+  const metrics = useLoaderData<typeof loader>();
+  const navigation = useNavigation();
+  const { range } = metrics;
+
+  const weekly = metrics.conversationsByDay.length > MAX_DAILY_ROWS;
+  const rows = weekly
+    ? groupDailyCounts(metrics.conversationsByDay, 7)
+    : metrics.conversationsByDay;
+  const peak = Math.max(1, ...rows.map((row) => row.count));
+  const quickActionTaps = metrics.topQuickActions.reduce((n, a) => n + a.count, 0);
+
+  return (
+    <s-page heading="Dashboard">
+      <s-section>
+        <s-stack gap="base">
+          <s-stack direction="inline" gap="base">
+            {DASHBOARD_PRESETS.map((p) => (
+              <s-link key={p.value} href={`/app?range=${p.value}`}>
+                {p.value === range.preset ? <strong>{p.label}</strong> : p.label}
+              </s-link>
+            ))}
+          </s-stack>
+          <Form method="get">
+            <s-stack direction="inline" gap="base" alignItems="end">
+              <s-date-field name="from" label="From" defaultValue={range.from}></s-date-field>
+              <s-date-field name="to" label="To" defaultValue={range.to}></s-date-field>
+              <s-button type="submit" disabled={navigation.state !== "idle"}>
+                Apply
+              </s-button>
+            </s-stack>
+          </Form>
+          <s-text color="subdued">
+            {range.from} – {range.to} ({metrics.timezone})
+          </s-text>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Overview">
+        <s-stack direction="inline" gap="base">
+          <Stat label="Conversations" value={String(metrics.conversations)} />
+          <Stat
+            label="Resolved by the bot"
+            value={formatRate(metrics.botResolved, metrics.conversations)}
+            detail={`${metrics.botResolved} conversations`}
+          />
+          <Stat
+            label="Handed off to staff"
+            value={formatRate(metrics.handedOff, metrics.conversations)}
+            detail={`${metrics.handedOff} conversations`}
+          />
+          <Stat
+            label="Median first response"
+            value={
+              metrics.medianFirstResponseMs === null
+                ? "–"
+                : formatDuration(metrics.medianFirstResponseMs)
+            }
+            detail="Handoff to first staff reply"
+          />
+          <Stat label="Widget opens" value={String(metrics.widgetOpens)} />
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Conversations over time">
+        {metrics.conversations === 0 ? (
+          <s-paragraph>
+            No conversations in this period. They appear here once shoppers start chatting.
+          </s-paragraph>
+        ) : (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>{weekly ? "Week of" : "Day"}</s-table-header>
+              <s-table-header>Conversations</s-table-header>
+              <s-table-header></s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {rows.map((row) => (
+                <s-table-row key={row.date}>
+                  <s-table-cell>{row.date}</s-table-cell>
+                  <s-table-cell>{row.count}</s-table-cell>
+                  <s-table-cell>
+                    <s-box inlineSize="240px">
+                      <s-box
+                        inlineSize={`${Math.round((row.count / peak) * 100)}%`}
+                        blockSize="8px"
+                        background="strong"
+                        borderRadius="base"
+                      ></s-box>
+                    </s-box>
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        )}
+      </s-section>
+
+      <s-section slot="aside" heading="Top quick actions">
+        {metrics.topQuickActions.length === 0 ? (
+          <s-paragraph>No quick action taps in this period.</s-paragraph>
+        ) : (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Action</s-table-header>
+              <s-table-header>Taps</s-table-header>
+              <s-table-header>Share</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {metrics.topQuickActions.map((a) => (
+                <s-table-row key={a.action}>
+                  <s-table-cell>
+                    {QUICK_ACTIONS.find((q) => q.value === a.action)?.label ?? a.action}
+                  </s-table-cell>
+                  <s-table-cell>{a.count}</s-table-cell>
+                  <s-table-cell>{formatRate(a.count, quickActionTaps)}</s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        )}
+      </s-section>
+    </s-page>
+  );
 }
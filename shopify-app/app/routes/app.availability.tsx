@@ -0,0 +1,306 @@
+// app/routes/app.availability.tsx
+import { useEffect, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { Form, useActionData, useLoaderData, useNavigation, useSubmit } from "react-router";
+
+import { requireAdminMerchant } from "../utils/admin.server";
+import type { Availability, Weekday, WeeklyHours } from "../utils/availability";
+import {
+  computeAvailability,
+  isValidTimeZone,
+  MAX_HOLIDAY_LABEL_LENGTH,
+  normalizeHolidayInput,
+  parseWeeklyHours,
+  WEEKDAYS,
+} from "../utils/availability";
+import {
+  countOnlineAgents,
+  deleteHoliday,
+  getBusinessHours,
+  listHolidays,
+  saveBusinessHours,
+  saveHoliday,
+} from "../utils/availability.server";
+import { withRequestId } from "../utils/request-id.server";
+
+type ActionResult = { ok: true; notice: string } | { ok: false; error: string };
+
+// Editable form of one day: times are kept while a day is toggled closed.
+type DayDraft = { open: boolean; from: string; to: string };
+
+const STATUS_TEXT: Record<Availability["reason"], string> = {
+  open: "Online: shoppers can chat with your team.",
+  outside_hours: "Away: outside business hours.",
+  holiday: "Away: today is a holiday.",
+  no_agents: "Away: nobody on your team has the app open.",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  return withRequestId(request, async () => {
+    const { merchant } = await requireAdminMerchant(request);
+    const [config, holidays, agentsOnline] = await Promise.all([
+      getBusinessHours(merchant.merchantId),
+      listHolidays(merchant.merchantId),
+      countOnlineAgents(merchant.merchantId),
+    ]);
+
+    return {
+      config,
+      holidays,
+      availability: computeAvailability({ config, holidays, agentsOnline, now: new Date() }),
+      timezones: Intl.supportedValuesOf("timeZone"),
+    };
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return withRequestId(request, async (): Promise<ActionResult> => {
+    const { merchant } = await requireAdminMerchant(request);
+    const form = await request.formData();
+    const intent = form.get("intent");
+
+    if (intent === "hours") {
+      const timezone = form.get("timezone");
+      const weeklyHours = parseWeeklyHours(form.get("weeklyHours"));
+      if (!isValidTimeZone(timezone)) return { ok: false, error: "Choose a timezone." };
+      if (!weeklyHours) {
+        return { ok: false, error: "Enter opening times as HH:MM, with closing after opening." };
+      }
+
+      await saveBusinessHours({
+        merchantId: merchant.merchantId,
+        config: { enabled: form.get("enabled") === "true", timezone, weeklyHours },
+      });
+      return { ok: true, notice: "Business hours saved." };
+    }
+
+    if (intent === "add_holiday") {
+      const holiday = normalizeHolidayInput({
+        date: form.get("date"),
+        label: form.get("label"),
+        open: form.get("open"),
+        close: form.get("close"),
+      });
+      if (!holiday) {
+        return {
+          ok: false,
+          error: "Enter a date and a name. Leave both times empty to close all day.",
+        };
+      }
+
+      try {
+        await saveHoliday({ merchantId: merchant.merchantId, holiday });
+      } catch (err: unknown) {
+        if (err instanceof Response && err.status === 409) {
+          return { ok: false, error: "You've reached the maximum number of holidays." };
+        }
+        throw err;
+      }
+      return { ok: true, notice: "Holiday saved." };
+    }
+
+    if (intent === "delete_holiday") {
+      const id = form.get("id");
+      if (typeof id === "string") {
+        await deleteHoliday({ merchantId: merchant.merchantId, id });
+      }
+      return { ok: true, notice: "Holiday removed." };
+    }
+
+    throw new Response("Unknown intent", { status: 400 });
+  });
+};
+
+function toDrafts(hours: WeeklyHours): Record<Weekday, DayDraft> {
+  const drafts = {} as Record<Weekday, DayDraft>;
+  for (const { value: day } of WEEKDAYS) {
+    const h = hours[day];
+    drafts[day] = { open: Boolean(h), from: h?.open ?? "09:00", to: h?.close ?? "17:00" };
+  }
+  return drafts;
+}
+
+function fromDrafts(drafts: Record<Weekday, DayDraft>) {
+  const hours: Record<string, { open: string; close: string } | null> = {};
+  for (const { value: day } of WEEKDAYS) {
+    const d = drafts[day];
+    hours[day] = d.open ? { open: d.from.trim(), close: d.to.trim() } : null;
+  }
+  return hours;
+}
+
+export default function AvailabilityPage() {
+  const { config, holidays, availability, timezones } = useLoaderData<typeof loader>();
+  const result = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+
+  const [enabled, setEnabled] = useState(config.enabled);
+  const [timezone, setTimezone] = useState(config.timezone);
+  const [days, setDays] = useState(() => toDrafts(config.weeklyHours));
+
+  useEffect(() => {
+    setEnabled(config.enabled);
+    setTimezone(config.timezone);
+    setDays(toDrafts(config.weeklyHours));
+  }, [config]);
+
+  const busy = navigation.state !== "idle";
+  const updateDay = (day: Weekday, patch: Partial<DayDraft>) =>
+    setDays((current) => ({ ...current, [day]: { ...current[day], ...patch } }));
+
+  const handleSave = () => {
+    submit(
+      {
+        intent: "hours",
+        enabled: String(enabled),
+        timezone,
+        weeklyHours: JSON.stringify(fromDrafts(days)),
+      },
+      { method: "post" }
+    );
+  };
+
+  return (
+    <s-page heading="Business hours">
+      <s-button slot="primary-action" variant="primary" disabled={busy} onClick={handleSave}>
+        Save
+      </s-button>
+
+      {result && !result.ok ? <s-banner tone="critical">{result.error}</s-banner> : null}
+      {result?.ok ? <s-banner tone="success">{result.notice}</s-banner> : null}
+
+      <s-section heading="Right now">
+        <s-stack direction="inline" gap="small" alignItems="center">
+          <s-badge tone={availability.status === "online" ? "success" : "neutral"}>
+            {availability.status === "online" ? "Online" : "Away"}
+          </s-badge>
+          <s-text>{STATUS_TEXT[availability.reason]}</s-text>
+        </s-stack>
+        <s-paragraph>
+          Team members count as online while they have this app open in Shopify
+          admin ({availability.agentsOnline} right now).
+        </s-paragraph>
+      </s-section>
+
+      <s-section heading="Weekly hours">
+        <s-stack gap="base">
+          <s-switch
+            label="Only show as online during business hours"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.currentTarget.checked)}
+          ></s-switch>
+          <s-select
+            label="Timezone"
+            value={timezone}
+            disabled={!enabled}
+            onChange={(e) => setTimezone(e.currentTarget.value)}
+          >
+            {timezones.map((tz) => (
+              <s-option key={tz} value={tz}>
+                {tz}
+              </s-option>
+            ))}
+          </s-select>
+          {WEEKDAYS.map(({ value: day, label }) => (
+            <s-stack key={day} direction="inline" gap="base" alignItems="end">
+              <s-box inlineSize="140px">
+                <s-checkbox
+                  label={label}
+                  checked={days[day].open}
+                  disabled={!enabled}
+                  onChange={(e) => updateDay(day, { open: e.currentTarget.checked })}
+                ></s-checkbox>
+              </s-box>
+              <s-text-field
+                label="Opens"
+                labelAccessibilityVisibility="exclusive"
+                placeholder="09:00"
+                value={days[day].from}
+                disabled={!enabled || !days[day].open}
+                onChange={(e) => updateDay(day, { from: e.currentTarget.value })}
+              ></s-text-field>
+              <s-text-field
+                label="Closes"
+                labelAccessibilityVisibility="exclusive"
+                placeholder="17:00"
+                value={days[day].to}
+                disabled={!enabled || !days[day].open}
+                onChange={(e) => updateDay(day, { to: e.currentTarget.value })}
+              ></s-text-field>
+            </s-stack>
+          ))}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Holidays and special hours">
+        {holidays.length === 0 ? (
+          <s-paragraph>No exceptions. Add a date below to close or change hours.</s-paragraph>
+        ) : (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Date</s-table-header>
+              <s-table-header>Name</s-table-header>
+              <s-table-header>Hours</s-table-header>
+              <s-table-header></s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {holidays.map((holiday) => (
+                <s-table-row key={holiday.id}>
+                  <s-table-cell>{holiday.date}</s-table-cell>
+                  <s-table-cell>{holiday.label}</s-table-cell>
+                  <s-table-cell>
+                    {holiday.hours
+                      ? `${holiday.hours.open}–${holiday.hours.close}`
+                      : "Closed"}
+                  </s-table-cell>
+                  <s-table-cell>
+                    <Form method="post">
+                      <input type="hidden" name="intent" value="delete_holiday" />
+                      <input type="hidden" name="id" value={holiday.id} />
+                      <s-button type="submit" variant="tertiary" tone="critical">
+                        Delete
+                      </s-button>
+                    </Form>
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        )}
+
+        <Form method="post">
+          <input type="hidden" name="intent" value="add_holiday" />
+          <s-stack gap="base">
+            <s-date-field name="date" label="Date"></s-date-field>
+            <s-text-field
+              name="label"
+              label="Name"
+              placeholder="Public holiday"
+              maxLength={MAX_HOLIDAY_LABEL_LENGTH}
+            ></s-text-field>
+            <s-stack direction="inline" gap="base">
+              <s-text-field name="open" label="Opens" placeholder="Closed"></s-text-field>
+              <s-text-field name="close" label="Closes" placeholder="Closed"></s-text-field>
+            </s-stack>
+            <s-button type="submit" disabled={busy}>
+              Add exception
+            </s-button>
+          </s-stack>
+        </Form>
+      </s-section>
+
+      <s-section slot="aside" heading="Away state">
+        <s-paragraph>
+          While you&apos;re away the widget says so and offers a form for
+          shoppers to leave their email and a message. Answer them from{" "}
+          <s-link href="/app/follow-ups">Follow-ups</s-link>.
+        </s-paragraph>
+        <s-paragraph>
+          Holidays use the business timezone and replace that day&apos;s
+          weekly hours.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
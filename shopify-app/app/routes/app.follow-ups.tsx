@@ -0,0 +1,192 @@
+// app/routes/app.follow-ups.tsx
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { Form, useActionData, useLoaderData, useNavigation } from "react-router";
+
+import { requireAdminMerchant } from "../utils/admin.server";
+import { MAX_MESSAGE_LENGTH } from "../utils/chat";
+import { normalizeEmail, normalizeMessageBody } from "../utils/chat.server";
+import type { FollowUpStatus, FollowUpView } from "../utils/follow-ups.server";
+import {
+  listFollowUps,
+  normalizeFollowUpStatus,
+  replyToFollowUp,
+  requireMerchantFollowUp,
+  resolveFollowUp,
+  saveNotificationEmail,
+} from "../utils/follow-ups.server";
+import { scheduleNotificationDelivery } from "../utils/notifications.server";
+import { withRequestId } from "../utils/request-id.server";
+import { getWidgetSettings } from "../utils/widget-settings.server";
+
+type ActionResult = { ok: true; notice: string } | { ok: false; error: string };
+
+const FILTERS: Array<{ value: FollowUpStatus; label: string }> = [
+  { value: "pending", label: "Pending" },
+  { value: "resolved", label: "Resolved" },
+];
+
+const REPLY_STATUS_LABELS: Record<NonNullable<FollowUpView["reply"]>["status"], string> = {
+  pending: "Reply queued",
+  sent: "Reply sent",
+  failed: "Reply failed",
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  return withRequestId(request, async () => {
+    const { merchant } = await requireAdminMerchant(request);
+    const status = normalizeFollowUpStatus(new URL(request.url).searchParams.get("status"));
+    const followUps = await listFollowUps({ merchantId: merchant.merchantId, status });
+
+    // Retries are due on a timer; opening this page is a good moment to send them.
+    scheduleNotificationDelivery();
+
+    return {
+      followUps,
+      status,
+      notificationEmail: merchant.notificationEmail ?? "",
+    };
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return withRequestId(request, async (): Promise<ActionResult> => {
+    const { merchant, sessionToken } = await requireAdminMerchant(request);
+    const staffId = sessionToken.sub ?? "";
+    const form = await request.formData();
+    const intent = form.get("intent");
+
+    if (intent === "notification_email") {
+      const raw = form.get("email");
+      const email = typeof raw === "string" && raw.trim() ? normalizeEmail(raw) : null;
+      if (email === undefined) return { ok: false, error: "Enter a valid email address." };
+
+      await saveNotificationEmail({ merchantId: merchant.merchantId, email });
+      return {
+        ok: true,
+        notice: email ? "We'll email you about new follow-ups." : "Follow-up emails turned off.",
+      };
+    }
+
+    const followUp = await requireMerchantFollowUp({
+      merchantId: merchant.merchantId,
+      id: String(form.get("id") ?? ""),
+    });
+
+    if (intent === "reply") {
+      const body = normalizeMessageBody(form.get("body"));
+      if (!body) return { ok: false, error: "Write a reply first." };
+
+      const { brandName } = await getWidgetSettings(merchant);
+      await replyToFollowUp({ followUp, staffId, brandName, body });
+      return { ok: true, notice: `Reply to ${followUp.email} queued.` };
+    }
+
+    if (intent === "resolve") {
+      await resolveFollowUp({ followUp, staffId });
+      return { ok: true, notice: "Marked as resolved." };
+    }
+
+    throw new Response("Unknown intent", { status: 400 });
+  });
+};
+
+export default function FollowUpsPage() {
+  const { followUps, status, notificationEmail } = useLoaderData<typeof loader>();
+  const result = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const busy = navigation.state !== "idle";
+
+  return (
+    <s-page heading="Follow-ups">
+      {result && !result.ok ? <s-banner tone="critical">{result.error}</s-banner> : null}
+      {result?.ok ? <s-banner tone="success">{result.notice}</s-banner> : null}
+
+      <s-section>
+        <s-stack direction="inline" gap="base">
+          {FILTERS.map((f) => (
+            <s-link key={f.value} href={`/app/follow-ups?status=${f.value}`}>
+              {f.value === status ? <strong>{f.label}</strong> : f.label}
+            </s-link>
+          ))}
+        </s-stack>
+      </s-section>
+
+      {followUps.length === 0 ? (
+        <s-section>
+          <s-paragraph>
+            {status === "pending"
+              ? "No questions waiting. Shoppers can leave one when your team is away."
+              : "No resolved follow-ups yet."}
+          </s-paragraph>
+        </s-section>
+      ) : null}
+
+      {followUps.map((followUp) => (
+        <s-section key={followUp.id} heading={followUp.name ?? followUp.email}>
+          <s-stack gap="base">
+            <s-stack direction="inline" gap="small" alignItems="center">
+              <s-text color="subdued">
+                {followUp.email} · {new Date(followUp.createdAt).toLocaleString()}
+              </s-text>
+              {followUp.reply ? (
+                <s-badge tone={followUp.reply.status === "failed" ? "critical" : "neutral"}>
+                  {REPLY_STATUS_LABELS[followUp.reply.status]}
+                </s-badge>
+              ) : null}
+              <s-link href={`/app/inbox/${followUp.conversationId}`}>Conversation</s-link>
+            </s-stack>
+            <s-paragraph>{followUp.question}</s-paragraph>
+
+            {followUp.status === "pending" ? (
+              <>
+                <Form method="post">
+                  <input type="hidden" name="intent" value="reply" />
+                  <input type="hidden" name="id" value={followUp.id} />
+                  <s-stack gap="base">
+                    <s-text-area
+                      name="body"
+                      label={`Email reply to ${followUp.email}`}
+                      rows={3}
+                      maxLength={MAX_MESSAGE_LENGTH}
+                    ></s-text-area>
+                    <s-button type="submit" variant="primary" disabled={busy}>
+                      Send reply
+                    </s-button>
+                  </s-stack>
+                </Form>
+                <Form method="post">
+                  <input type="hidden" name="intent" value="resolve" />
+                  <input type="hidden" name="id" value={followUp.id} />
+                  <s-button type="submit" variant="tertiary" disabled={busy}>
+                    Resolve without replying
+                  </s-button>
+                </Form>
+              </>
+            ) : null}
+          </s-stack>
+        </s-section>
+      ))}
+
+      <s-section slot="aside" heading="Notifications">
+        <Form method="post">
+          <input type="hidden" name="intent" value="notification_email" />
+          <s-stack gap="base">
+            <s-email-field
+              name="email"
+              label="Email me new follow-ups"
+              defaultValue={notificationEmail}
+              placeholder="support@example.com"
+            ></s-email-field>
+            <s-button type="submit" disabled={busy}>
+              Save
+            </s-button>
+          </s-stack>
+        </Form>
+        <s-paragraph>
+          Leave empty to turn alerts off. Replies are emailed to the shopper
+          and added to the conversation.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
@@ -0,0 +1,25 @@
+// app/routes/app.inbox.$conversationId.stream.ts
+import type { LoaderFunctionArgs } from "react-router";
+
+import { requireAdminMerchant } from "../utils/admin.server";
+import { requireMerchantConversation, streamConversation } from "../utils/chat.server";
+import { withRequestId, withRequestIdHeader } from "../utils/request-id.server";
+
+// GET /app/inbox/:conversationId/stream
+// Read with fetch() (not EventSource) so App Bridge adds the session token.
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  return withRequestId(request, async (requestId) => {
+    try {
+      const { merchant } = await requireAdminMerchant(request);
+      const conversation = await requireMerchantConversation({
+        merchantId: merchant.merchantId,
+        conversationId: params.conversationId ?? "",
+      });
+
+      return streamConversation({ request, requestId, conversation, audience: "staff" });
+    } catch (err: unknown) {
+      if (err instanceof Response) throw withRequestIdHeader(err, requestId);
+      throw err;
+    }
+  });
+};
@@ -0,0 +1,247 @@
+// app/routes/app.inbox.$conversationId.tsx
+import { useEffect, useRef, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import {
+  Form,
+  useActionData,
+  useLoaderData,
+  useNavigation,
+  useRevalidator,
+  useSubmit,
+} from "react-router";
+
+import { requireAdminMerchant } from "../utils/admin.server";
+import { MAX_MESSAGE_LENGTH } from "../utils/chat";
+import {
+  appendMessage,
+  assertAgentCanReply,
+  claimConversation,
+  closeConversation,
+  listRecentMessages,
+  normalizeMessageBody,
+  requireMerchantConversation,
+  toInboxConversationView,
+} from "../utils/chat.server";
+import { withRequestId } from "../utils/request-id.server";
+import { readSseStream } from "../utils/sse-client";
+
+// Transcript shown to staff; older messages are rarely needed to answer.
+const TRANSCRIPT_LIMIT = 200;
+
+// Wait before reconnecting a dropped stream.
+const STREAM_RETRY_MS = 3000;
+
+type ActionResult = { ok: true } | { ok: false; error: string };
+
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  return withRequestId(request, async () => {
+    const { merchant, sessionToken } = await requireAdminMerchant(request);
+    const conversation = await requireMerchantConversation({
+      merchantId: merchant.merchantId,
+      conversationId: params.conversationId ?? "",
+    });
+    const messages = await listRecentMessages({
+      conversationId: conversation.id,
+      limit: TRANSCRIPT_LIMIT,
+    });
+
+    return {
+      conversation: toInboxConversationView(conversation),
+      messages,
+      staffId: sessionToken.sub,
+    };
+  });
+};
+
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  return withRequestId(request, async (): Promise<ActionResult> => {
+    const { merchant, sessionToken } = await requireAdminMerchant(request);
+    const staffId = sessionToken.sub;
+    const conversation = await requireMerchantConversation({
+      merchantId: merchant.merchantId,
+      conversationId: params.conversationId ?? "",
+    });
+    const form = await request.formData();
+    const intent = form.get("intent");
+
+    try {
+      if (intent === "claim") {
+        await claimConversation({ conversation, staffId });
+        return { ok: true };
+      }
+
+      if (intent === "close") {
+        await closeConversation({ conversation, closedBy: "agent" });
+        return { ok: true };
+      }
+
+      if (intent === "reply") {
+        const body = normalizeMessageBody(form.get("body"));
+        if (!body) return { ok: false, error: "Write a reply first." };
+
+        assertAgentCanReply(conversation, staffId);
+        const claimed = conversation.assignedTo
+          ? conversation
+          : await claimConversation({ conversation, staffId });
+        await appendMessage({
+          conversation: claimed,
+          role: "agent",
+          externalId: staffId,
+          body,
+        });
+        return { ok: true };
+      }
+    } catch (err: unknown) {
+      if (err instanceof Response && err.status === 409) {
+        return { ok: false, error: await err.text() };
+      }
+      throw err;
+    }
+
+    throw new Response("Unknown intent", { status: 400 });
+  });
+};
+
+const ROLE_LABELS = { customer: "Shopper", bot: "Bot", agent: "Staff" } as const;
+
+export default function InboxConversationPage() {
+  const { conversation, messages, staffId } = useLoaderData<typeof loader>();
+  const result = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const [reply, setReply] = useState("");
+
+  const busy = navigation.state !== "idle";
+  const closed = conversation.status === "closed";
+  const assignedToOther = Boolean(conversation.assignedTo && conversation.assignedTo !== staffId);
+
+  useEffect(() => {
+    if (result?.ok) setReply("");
+  }, [result]);
+
+  // Live updates: any message/status event reloads the transcript.
+  const revalidator = useRevalidator();
+  const revalidateRef = useRef(revalidator.revalidate);
+  revalidateRef.current = revalidator.revalidate;
+  const lastMessageId = messages[messages.length - 1]?.id;
+  const lastEventIdRef = useRef(lastMessageId);
+
+  useEffect(() => {
+    if (closed) return;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+
+    const run = async () => {
+      while (!signal.aborted) {
+        try {
+          const lastEventId = lastEventIdRef.current;
+          const response = await fetch(`/app/inbox/${conversation.id}/stream`, {
+            headers: lastEventId ? { "Last-Event-ID": lastEventId } : {},
+            signal,
+          });
+          if (response.ok) {
+            const seen = await readSseStream(
+              response,
+              () => void revalidateRef.current(),
+              signal
+            );
+            if (seen) lastEventIdRef.current = seen;
+          }
+        } catch {
+          // dropped connection: retry below
+        }
+        if (signal.aborted) return;
+        await new Promise((resolve) => setTimeout(resolve, STREAM_RETRY_MS));
+      }
+    };
+
+    void run();
+    return () => controller.abort();
+  }, [conversation.id, closed]);
+
+  return (
+    <s-page heading="Conversation">
+      <s-link slot="breadcrumb-actions" href="/app/inbox">
+        Inbox
+      </s-link>
+      {!closed && conversation.assignedTo !== staffId ? (
+        <s-button
+          slot="primary-action"
+          variant="primary"
+          disabled={busy}
+          onClick={() => submit({ intent: "claim" }, { method: "post" })}
+        >
+          {assignedToOther ? "Take over" : "Claim"}
+        </s-button>
+      ) : null}
+      {!closed ? (
+        <s-button
+          slot="secondary-actions"
+          disabled={busy}
+          onClick={() => submit({ intent: "close" }, { method: "post" })}
+        >
+          Close conversation
+        </s-button>
+      ) : null}
+
+      {result && !result.ok ? <s-banner tone="critical">{result.error}</s-banner> : null}
+      {assignedToOther && !closed ? (
+        <s-banner tone="info">Another staff member is handling this conversation.</s-banner>
+      ) : null}
+
+      <s-section heading="Messages">
+        <s-stack gap="base">
+          {messages.length === 0 ? <s-paragraph>No messages yet.</s-paragraph> : null}
+          {messages.map((message) => (
+            <s-box
+              key={message.id}
+              padding="base"
+              borderRadius="base"
+              background={message.role === "customer" ? "subdued" : "base"}
+              border="base"
+            >
+              <s-text type="strong">{ROLE_LABELS[message.role]}</s-text>{" "}
+              <s-text color="subdued">{new Date(message.createdAt).toLocaleString()}</s-text>
+              <s-paragraph>{message.body}</s-paragraph>
+            </s-box>
+          ))}
+        </s-stack>
+      </s-section>
+
+      {conversation.contactEmail ? (
+        <s-section slot="aside" heading="Contact">
+          <s-paragraph>
+            Left while you were away. The shopper may have closed the chat, so
+            follow up by email.
+          </s-paragraph>
+          {conversation.contactName ? <s-paragraph>{conversation.contactName}</s-paragraph> : null}
+          <s-link href={`mailto:${conversation.contactEmail}`} target="_blank">
+            {conversation.contactEmail}
+          </s-link>
+        </s-section>
+      ) : null}
+
+      {!closed && !assignedToOther ? (
+        <s-section heading="Reply">
+          <Form method="post">
+            <input type="hidden" name="intent" value="reply" />
+            <s-stack gap="base">
+              <s-text-area
+                name="body"
+                label="Message to shopper"
+                rows={3}
+                value={reply}
+                maxLength={MAX_MESSAGE_LENGTH}
+                onChange={(e) => setReply(e.currentTarget.value)}
+              ></s-text-area>
+              <s-button type="submit" variant="primary" disabled={busy}>
+                Send
+              </s-button>
+            </s-stack>
+          </Form>
+        </s-section>
+      ) : null}
+    </s-page>
+  );
+}
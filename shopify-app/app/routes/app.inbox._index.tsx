@@ -0,0 +1,97 @@
+// app/routes/app.inbox._index.tsx
+import type { LoaderFunctionArgs } from "react-router";
+import { useLoaderData } from "react-router";
+
+import { requireAdminMerchant } from "../utils/admin.server";
+import type { InboxConversationView, InboxFilter } from "../utils/chat.server";
+import { listInboxConversations, normalizeInboxFilter } from "../utils/chat.server";
+import { withRequestId } from "../utils/request-id.server";
+
+const FILTERS: Array<{ value: InboxFilter; label: string }> = [
+  { value: "open", label: "Open" },
+  { value: "handoff", label: "Needs agent" },
+  { value: "closed", label: "Closed" },
+];
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  return withRequestId(request, async () => {
+    const { merchant, sessionToken } = await requireAdminMerchant(request);
+    const filter = normalizeInboxFilter(new URL(request.url).searchParams.get("status"));
+    const conversations = await listInboxConversations({
+      merchantId: merchant.merchantId,
+      filter,
+    });
+
+    return { conversations, filter, staffId: sessionToken.sub };
+  });
+};
+
+function StatusBadge({
+  conversation,
+  staffId,
+}: {
+  conversation: InboxConversationView;
+  staffId: string;
+}) {
+  if (conversation.status === "closed") return <s-badge>Closed</s-badge>;
+  if (conversation.status === "open") return <s-badge tone="info">Bot</s-badge>;
+  if (!conversation.assignedTo) return <s-badge tone="warning">Needs agent</s-badge>;
+  return (
+    <s-badge tone="success">
+      {conversation.assignedTo === staffId ? "Assigned to you" : "Assigned"}
+    </s-badge>
+  );
+}
+
+export default function InboxPage() {
+  const { conversations, filter, staffId } = useLoaderData<typeof loader>();
+
+  return (
+    <s-page heading="Inbox">
+      <s-section>
+        <s-stack direction="inline" gap="base">
+          {FILTERS.map((f) => (
+            <s-link key={f.value} href={`/app/inbox?status=${f.value}`}>
+              {f.value === filter ? <strong>{f.label}</strong> : f.label}
+            </s-link>
+          ))}
+        </s-stack>
+      </s-section>
+
+      <s-section>
+        {conversations.length === 0 ? (
+          <s-paragraph>No conversations here.</s-paragraph>
+        ) : (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Status</s-table-header>
+              <s-table-header>Last message</s-table-header>
+              <s-table-header>Updated</s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {conversations.map((conversation) => (
+                <s-table-row key={conversation.id}>
+                  <s-table-cell>
+                    <StatusBadge conversation={conversation} staffId={staffId} />
+                  </s-table-cell>
+                  <s-table-cell>
+                    <s-link href={`/app/inbox/${conversation.id}`}>
+                      {conversation.preview
+                        ? conversation.preview.slice(0, 80)
+                        : "(no messages)"}
+                    </s-link>
+                  </s-table-cell>
+                  <s-table-cell>
+                    {new Date(
+                      conversation.lastMessageAt ?? conversation.createdAt
+                    ).toLocaleString()}
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        )}
+      </s-section>
+    </s-page>
+  );
+}
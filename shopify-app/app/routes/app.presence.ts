@@ -0,0 +1,18 @@
+// app/routes/app.presence.ts
+import type { ActionFunctionArgs } from "react-router";
+
+import { requireAdminMerchant } from "../utils/admin.server";
+import { touchAgentPresence } from "../utils/availability.server";
+import { withRequestId } from "../utils/request-id.server";
+
+// POST /app/presence - heartbeat from the admin layout while the app is open.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return withRequestId(request, async () => {
+    const { merchant, sessionToken } = await requireAdminMerchant(request);
+    if (sessionToken.sub) {
+      await touchAgentPresence({ merchantId: merchant.merchantId, staffId: sessionToken.sub });
+    }
+
+    return new Response(null, { status: 204 });
+  });
+};
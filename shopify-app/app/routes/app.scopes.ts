@@ -0,0 +1,27 @@
+// app/routes/app.scopes.ts
+import type { ActionFunctionArgs } from "react-router";
+
+import { requireAdminMerchant } from "../utils/admin.server";
+import { syncMerchantScopes } from "../utils/merchant-scopes.server";
+import { withRequestId } from "../utils/request-id.server";
+import { missingScopes } from "../utils/scopes";
+
+// POST /app/scopes - "Grant access" in the missing scopes banner (app.tsx).
+// scopes.request throws the response that sends the merchant to Shopify's
+// grant screen; app/scopes_update follows once they approve. When nothing is
+// missing any more the banner was stale, so the merchant is brought up to date
+// and the layout loader revalidates.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return withRequestId(request, async () => {
+    const { merchant, scopes } = await requireAdminMerchant(request);
+    const { granted } = await scopes.query();
+    const missing = missingScopes(granted);
+
+    if (missing.length > 0) {
+      await scopes.request(missing);
+    }
+
+    const sync = await syncMerchantScopes({ shopDomain: merchant.shopDomain, scopes: granted });
+    return { missingScopes: sync.missingScopes };
+  });
+};
@@ -0,0 +1,279 @@
+// app/routes/app.settings.tsx
+import { useEffect, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { useActionData, useLoaderData, useNavigation, useSubmit } from "react-router";
+import { useAppBridge } from "@shopify/app-bridge-react";
+
+import { requireAdminMerchant } from "../utils/admin.server";
+import { recordScopeRequest } from "../utils/merchant-scopes.server";
+import { withRequestId } from "../utils/request-id.server";
+import type { ScopedFeature } from "../utils/scopes";
+import { parseScopes, scopesToRequest } from "../utils/scopes";
+import type { PageType, QuickAction, WidgetSettings } from "../utils/widget-settings";
+import {
+  MAX_BRAND_NAME_LENGTH,
+  MAX_GREETING_LENGTH,
+  PAGE_TYPES,
+  parseWidgetSettings,
+  QUICK_ACTIONS,
+  quickActionsNeedingScopes,
+} from "../utils/widget-settings";
+import { getWidgetSettings, saveWidgetSettings } from "../utils/widget-settings.server";
+
+type ActionResult =
+  /** turnedOff: quick actions dropped because their scopes were declined. */
+  | { ok: true; settings: WidgetSettings; turnedOff: string[] }
+  | { ok: false; invalid: Array<keyof WidgetSettings> };
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  return withRequestId(request, async () => {
+    const { merchant } = await requireAdminMerchant(request);
+    return {
+      settings: await getWidgetSettings(merchant),
+      grantedScopes: parseScopes(merchant.scopes),
+      declinedScopes: parseScopes(merchant.declinedScopes),
+    };
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return withRequestId(request, async (): Promise<ActionResult> => {
+    const { merchant, scopes } = await requireAdminMerchant(request);
+    const form = Object.fromEntries(await request.formData());
+
+    const current = await getWidgetSettings(merchant);
+    const { settings, invalid } = parseWidgetSettings(form, current);
+    if (invalid.length) return { ok: false, invalid };
+
+    // The page asked for optional scopes before saving; Shopify has the answer.
+    // Only actions turned on in this save are dropped, as in handleSave.
+    let turnedOff: QuickAction[] = [];
+    const requested = parseScopes(
+      typeof form.requestedScopes === "string" ? form.requestedScopes : ""
+    );
+    if (requested.length) {
+      const { granted } = await scopes.query();
+      await recordScopeRequest({ shopDomain: merchant.shopDomain, requested, granted });
+      turnedOff = quickActionsNeedingScopes(current.quickActions, settings.quickActions, granted);
+      settings.quickActions = settings.quickActions.filter((a) => !turnedOff.includes(a));
+    }
+
+    await saveWidgetSettings({ merchantId: merchant.merchantId, settings });
+    return {
+      ok: true,
+      settings,
+      turnedOff: QUICK_ACTIONS.filter((a) => turnedOff.includes(a.value)).map((a) => a.label),
+    };
+  });
+};
+
+const FIELD_LABELS: Record<keyof WidgetSettings, string> = {
+  brandName: "Brand name",
+  greeting: "Greeting",
+  brandColor: "Brand color",
+  textColor: "Text color",
+  position: "Position",
+  quickActions: "Quick actions",
+  pageVisibility: "Pages",
+  pageTypes: "Pages",
+};
+
+function toggle<T>(list: T[], value: T, on: boolean, order: T[]): T[] {
+  const next = on ? [...list, value] : list.filter((v) => v !== value);
+  return order.filter((v) => next.includes(v));
+}
+
+function scopeHint(
+  feature: ScopedFeature | undefined,
+  granted: string[],
+  declined: string[]
+): string | undefined {
+  const missing = feature ? scopesToRequest([feature], granted) : [];
+  if (!missing.length) return undefined;
+  return missing.some((scope) => declined.includes(scope))
+    ? `Access to ${missing.join(", ")} was declined. Turn this on to ask again.`
+    : `Needs access to ${missing.join(", ")}. Shopify asks for it when you turn this on and save.`;
+}
+
+export default function WidgetSettingsPage() {
+  const { settings: saved, grantedScopes, declinedScopes } = useLoaderData<typeof loader>();
+  const result = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const submit = useSubmit();
+  const shopify = useAppBridge();
+  const [settings, setSettings] = useState<WidgetSettings>(saved);
+  const [requesting, setRequesting] = useState(false);
+
+  useEffect(() => setSettings(saved), [saved]);
+
+  const busy = navigation.state !== "idle" || requesting;
+  const update = <K extends keyof WidgetSettings>(key: K, value: WidgetSettings[K]) =>
+    setSettings((current) => ({ ...current, [key]: value }));
+
+  const handleSave = async () => {
+    // Optional scopes are asked for when a feature that needs them is turned on.
+    const features = quickActionsNeedingScopes(
+      saved.quickActions,
+      settings.quickActions,
+      grantedScopes
+    ).flatMap((action) => QUICK_ACTIONS.find((a) => a.value === action)?.feature ?? []);
+    const requestedScopes = scopesToRequest(features, grantedScopes);
+    if (requestedScopes.length) {
+      setRequesting(true);
+      try {
+        await shopify.scopes.request(requestedScopes);
+      } catch {
+        // Closed or failed: the action checks what was granted either way.
+      } finally {
+        setRequesting(false);
+      }
+    }
+
+    submit(
+      {
+        ...settings,
+        quickActions: settings.quickActions.join(","),
+        pageTypes: settings.pageTypes.join(","),
+        requestedScopes: requestedScopes.join(","),
+      },
+      { method: "post" }
+    );
+  };
+
+  return (
+    <s-page heading="Widget settings">
+      <s-button slot="primary-action" variant="primary" disabled={busy} onClick={handleSave}>
+        Save
+      </s-button>
+
+      {result?.ok && result.turnedOff.length === 0 ? (
+        <s-banner tone="success">Settings saved.</s-banner>
+      ) : null}
+      {result?.ok && result.turnedOff.length > 0 ? (
+        <s-banner tone="warning">
+          Settings saved. {result.turnedOff.join(", ")} stayed off because access
+          wasn&apos;t granted.
+        </s-banner>
+      ) : null}
+      {result && !result.ok ? (
+        <s-banner tone="critical">
+          Check these fields:{" "}
+          {Array.from(new Set(result.invalid.map((k) => FIELD_LABELS[k]))).join(", ")}
+        </s-banner>
+      ) : null}
+
+      <s-section heading="Appearance">
+        <s-stack gap="base">
+          <s-text-field
+            label="Brand name"
+            value={settings.brandName}
+            maxLength={MAX_BRAND_NAME_LENGTH}
+            onChange={(e) => update("brandName", e.currentTarget.value)}
+          ></s-text-field>
+          <s-text-area
+            label="Greeting"
+            rows={2}
+            value={settings.greeting}
+            maxLength={MAX_GREETING_LENGTH}
+            onChange={(e) => update("greeting", e.currentTarget.value)}
+          ></s-text-area>
+          <s-color-field
+            label="Brand color"
+            value={settings.brandColor}
+            onChange={(e) => update("brandColor", e.currentTarget.value)}
+          ></s-color-field>
+          <s-color-field
+            label="Text color on brand color"
+            value={settings.textColor}
+            onChange={(e) => update("textColor", e.currentTarget.value)}
+          ></s-color-field>
+          <s-select
+            label="Position"
+            value={settings.position}
+            onChange={(e) =>
+              update("position", e.currentTarget.value as WidgetSettings["position"])
+            }
+          >
+            <s-option value="bottom-right">Bottom right</s-option>
+            <s-option value="bottom-left">Bottom left</s-option>
+          </s-select>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Quick actions">
+        <s-stack gap="small">
+          {QUICK_ACTIONS.map((action) => (
+            <s-checkbox
+              key={action.value}
+              label={action.label}
+              details={scopeHint(action.feature, grantedScopes, declinedScopes)}
+              checked={settings.quickActions.includes(action.value)}
+              onChange={(e) =>
+                update(
+                  "quickActions",
+                  toggle<QuickAction>(
+                    settings.quickActions,
+                    action.value,
+                    e.currentTarget.checked,
+                    QUICK_ACTIONS.map((a) => a.value)
+                  )
+                )
+              }
+            ></s-checkbox>
+          ))}
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Where the widget appears">
+        <s-stack gap="base">
+          <s-select
+            label="Show on"
+            value={settings.pageVisibility}
+            onChange={(e) =>
+              update(
+                "pageVisibility",
+                e.currentTarget.value as WidgetSettings["pageVisibility"]
+              )
+            }
+          >
+            <s-option value="all">All pages</s-option>
+            <s-option value="only">Only the selected pages</s-option>
+            <s-option value="except">All pages except the selected ones</s-option>
+          </s-select>
+          {settings.pageVisibility !== "all"
+            ? PAGE_TYPES.map((page) => (
+                <s-checkbox
+                  key={page.value}
+                  label={page.label}
+                  checked={settings.pageTypes.includes(page.value)}
+                  onChange={(e) =>
+                    update(
+                      "pageTypes",
+                      toggle<PageType>(
+                        settings.pageTypes,
+                        page.value,
+                        e.currentTarget.checked,
+                        PAGE_TYPES.map((p) => p.value)
+                      )
+                    )
+                  }
+                ></s-checkbox>
+              ))
+            : null}
+        </s-stack>
+      </s-section>
+
+      <s-section slot="aside" heading="About">
+        <s-paragraph>
+          The storefront widget loads these settings when the page opens, so
+          changes apply without editing your theme.
+        </s-paragraph>
+        <s-paragraph>
+          The online indicator follows your{" "}
+          <s-link href="/app/availability">business hours</s-link> and whether
+          anyone on your team is signed in.
+        </s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
@@ -0,0 +1,218 @@
+// app/routes/app.shipping.tsx
+import { useEffect, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { Form, useActionData, useLoaderData, useNavigation } from "react-router";
+
+import { requireAdminMerchant } from "../utils/admin.server";
+import { MAX_KNOWLEDGE_BODY_LENGTH, MAX_KNOWLEDGE_TITLE_LENGTH } from "../utils/knowledge";
+import {
+  createKnowledgeEntry,
+  deleteKnowledgeEntry,
+  importShopifyShippingPolicy,
+  listKnowledgeEntries,
+  normalizeKnowledgeInput,
+} from "../utils/knowledge.server";
+import { buildErrorMetadata, logger } from "../utils/logger.server";
+import { withRequestId } from "../utils/request-id.server";
+import { isFeatureAvailable, parseScopes } from "../utils/scopes";
+
+type ActionResult = { ok: true; notice: string } | { ok: false; error: string };
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  return withRequestId(request, async () => {
+    const { merchant } = await requireAdminMerchant(request);
+    const entries = await listKnowledgeEntries({
+      merchantId: merchant.merchantId,
+      topic: "shipping",
+    });
+
+    return {
+      entries,
+      importAvailable: isFeatureAvailable("shipping_policy_import", parseScopes(merchant.scopes)),
+    };
+  });
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return withRequestId(request, async (): Promise<ActionResult> => {
+    const { admin, merchant } = await requireAdminMerchant(request);
+    const form = await request.formData();
+    const intent = form.get("intent");
+
+    if (intent === "create") {
+      const entry = normalizeKnowledgeInput({
+        kind: form.get("kind"),
+        title: form.get("title"),
+        body: form.get("body"),
+      });
+      if (!entry) {
+        return { ok: false, error: "Enter a title and an answer." };
+      }
+
+      try {
+        await createKnowledgeEntry({ merchantId: merchant.merchantId, topic: "shipping", entry });
+      } catch (err: unknown) {
+        if (err instanceof Response && err.status === 409) {
+          return { ok: false, error: "You've reached the maximum number of entries." };
+        }
+        throw err;
+      }
+      return { ok: true, notice: "Entry added." };
+    }
+
+    if (intent === "delete") {
+      const id = form.get("id");
+      if (typeof id === "string") {
+        await deleteKnowledgeEntry({ merchantId: merchant.merchantId, id });
+      }
+      return { ok: true, notice: "Entry removed." };
+    }
+
+    if (intent === "import") {
+      if (!isFeatureAvailable("shipping_policy_import", parseScopes(merchant.scopes))) {
+        return { ok: false, error: "Grant access to your store policies to import them." };
+      }
+      try {
+        const imported = await importShopifyShippingPolicy({
+          admin,
+          merchantId: merchant.merchantId,
+        });
+        return imported
+          ? { ok: true, notice: "Shipping policy imported." }
+          : { ok: false, error: "Your store doesn't have a shipping policy yet." };
+      } catch (err: unknown) {
+        logger.error("knowledge.policy_import.failed", {
+          merchantId: merchant.merchantId,
+          ...buildErrorMetadata(err),
+        });
+        return { ok: false, error: "Couldn't import the shipping policy. Try again later." };
+      }
+    }
+
+    throw new Response("Unknown intent", { status: 400 });
+  });
+};
+
+export default function ShippingInfoPage() {
+  const { entries, importAvailable } = useLoaderData<typeof loader>();
+  const result = useActionData<typeof action>();
+  const navigation = useNavigation();
+  const [kind, setKind] = useState("faq");
+  const [title, setTitle] = useState("");
+  const [body, setBody] = useState("");
+
+  const busy = navigation.state !== "idle";
+
+  useEffect(() => {
+    if (result?.ok) {
+      setTitle("");
+      setBody("");
+    }
+  }, [result]);
+
+  return (
+    <s-page heading="Shipping info">
+      {result && !result.ok ? (
+        <s-banner tone="critical">{result.error}</s-banner>
+      ) : null}
+      {result?.ok ? <s-banner tone="success">{result.notice}</s-banner> : null}
+
+      <s-section heading="Answers shown to shoppers">
+        {entries.length === 0 ? (
+          <s-paragraph>
+            No shipping info yet. Add a policy snippet or FAQ below, or import your
+            store&apos;s shipping policy.
+          </s-paragraph>
+        ) : (
+          <s-table>
+            <s-table-header-row>
+              <s-table-header>Type</s-table-header>
+              <s-table-header>Title</s-table-header>
+              <s-table-header>Answer</s-table-header>
+              <s-table-header></s-table-header>
+            </s-table-header-row>
+            <s-table-body>
+              {entries.map((entry) => (
+                <s-table-row key={entry.id}>
+                  <s-table-cell>
+                    <s-badge>
+                      {entry.kind === "faq" ? "FAQ" : "Policy"}
+                      {entry.source === "shopify_policy" ? " (imported)" : ""}
+                    </s-badge>
+                  </s-table-cell>
+                  <s-table-cell>{entry.title}</s-table-cell>
+                  <s-table-cell>
+                    {entry.body.length > 120 ? `${entry.body.slice(0, 120)}…` : entry.body}
+                  </s-table-cell>
+                  <s-table-cell>
+                    <Form method="post">
+                      <input type="hidden" name="intent" value="delete" />
+                      <input type="hidden" name="id" value={entry.id} />
+                      <s-button type="submit" variant="tertiary" tone="critical">
+                        Delete
+                      </s-button>
+                    </Form>
+                  </s-table-cell>
+                </s-table-row>
+              ))}
+            </s-table-body>
+          </s-table>
+        )}
+      </s-section>
+
+      <s-section heading="Add an entry">
+        <Form method="post">
+          <input type="hidden" name="intent" value="create" />
+          <s-stack gap="base">
+            <s-select
+              name="kind"
+              label="Type"
+              value={kind}
+              onChange={(e) => setKind(e.currentTarget.value)}
+            >
+              <s-option value="faq">FAQ</s-option>
+              <s-option value="policy">Policy snippet</s-option>
+            </s-select>
+            <s-text-field
+              name="title"
+              label={kind === "faq" ? "Question" : "Title"}
+              value={title}
+              maxLength={MAX_KNOWLEDGE_TITLE_LENGTH}
+              onChange={(e) => setTitle(e.currentTarget.value)}
+            ></s-text-field>
+            <s-text-area
+              name="body"
+              label="Answer"
+              rows={4}
+              value={body}
+              maxLength={MAX_KNOWLEDGE_BODY_LENGTH}
+              onChange={(e) => setBody(e.currentTarget.value)}
+            ></s-text-area>
+            <s-button type="submit" variant="primary" disabled={busy}>
+              Add entry
+            </s-button>
+          </s-stack>
+        </Form>
+      </s-section>
+
+      <s-section slot="aside" heading="Store policy">
+        <s-paragraph>
+          Import the shipping policy from Settings &gt; Policies. Importing again
+          replaces the previous copy.
+        </s-paragraph>
+        {importAvailable ? null : (
+          <s-paragraph>
+            Importing needs access to your store policies. Use Grant access in the
+            banner above to turn it back on.
+          </s-paragraph>
+        )}
+        <Form method="post">
+          <input type="hidden" name="intent" value="import" />
+          <s-button type="submit" disabled={busy || !importAvailable}>
+            Import shipping policy
+          </s-button>
+        </Form>
+      </s-section>
+    </s-page>
+  );
+}
@@ -1,5 +1,6 @@
+import { useEffect } from "react";
 import type { HeadersFunction, LoaderFunctionArgs } from "react-router";
-import { Outlet, useLoaderData, useRouteError } from "react-router";
+import { Outlet, useFetcher, useLoaderData, useRouteError } from "react-router";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import { AppProvider } from "@shopify/shopify-app-react-router/react";
 
@@ -7,6 +8,11 @@ import { authenticate } from "../shopify.server";
 import { requireActiveMerchantByShopDomain } from "../utils/merchant.server";
 import { buildErrorMetadata, logger, withEventLogging } from "../utils/logger.server";
 import { withRequestId, withRequestIdHeader } from "../utils/request-id.server";
+import { FEATURE_SCOPES, missingScopes, parseScopes, unavailableFeatures } from "../utils/scopes";
+
+// Presence heartbeat; agents count as online for AGENT_PRESENCE_TTL_MS after
+// the last one (see availability.server.ts).
+const PRESENCE_PING_MS = 60_000;
 
 type AdminAuthResultShape = {
   session?: { shop?: string };
@@ -44,8 +50,16 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
         shopDomain ??
         undefined;
 
+      // Features switched off until the merchant grants their scopes again.
+      let unavailable: string[] = [];
+      let missing: string[] = [];
       if (shop) {
-        await requireActiveMerchantByShopDomain(shop);
+        const merchant = await requireActiveMerchantByShopDomain(shop);
+        const granted = parseScopes(merchant.scopes);
+        missing = missingScopes(granted);
+        unavailable = unavailableFeatures(granted, { required: true }).map(
+          (feature) => FEATURE_SCOPES[feature].label
+        );
       }
 
       logger.info("embedded.auth.ok", {
@@ -55,7 +69,11 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 
       // If the auth layer threw a Response we already handle it in catch.
       // For normal success, return the API key for AppProvider.
-      return { apiKey: process.env.SHOPIFY_API_KEY || "" };
+      return {
+        apiKey: process.env.SHOPIFY_API_KEY || "",
+        missingScopes: missing,
+        unavailableFeatures: unavailable,
+      };
     } catch (err: unknown) {
       // Shopify auth can throw a Response (e.g., redirects / 410 / etc.)
       if (err instanceof Response) {
@@ -85,14 +103,45 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
 };
 
 export default function App() {
-  const { apiKey } = useLoaderData<typeof loader>();
+  const { apiKey, missingScopes, unavailableFeatures } = useLoaderData<typeof loader>();
+  const grant = useFetcher();
+
+  useEffect(() => {
+    // Plain fetch: App Bridge adds the session token, and unlike a fetcher it
+    // doesn't revalidate the page's loaders every minute.
+    const ping = () => {
+      fetch("/app/presence", { method: "POST" }).catch(() => undefined);
+    };
+
+    ping();
+    const timer = setInterval(ping, PRESENCE_PING_MS);
+    return () => clearInterval(timer);
+  }, []);
 
   return (
     <AppProvider embedded apiKey={apiKey}>
       <s-app-nav>
         <s-link href="/app">Home</s-link>
+        <s-link href="/app/inbox">Inbox</s-link>
+        <s-link href="/app/follow-ups">Follow-ups</s-link>
+        <s-link href="/app/shipping">Shipping info</s-link>
+        <s-link href="/app/availability">Business hours</s-link>
+        <s-link href="/app/settings">Widget settings</s-link>
         <s-link href="/app/additional">Additional page</s-link>
       </s-app-nav>
+      {missingScopes.length > 0 ? (
+        <s-banner tone="warning" heading="Some features are turned off">
+          <s-paragraph>
+            The app no longer has the access it needs for: {unavailableFeatures.join(", ")}.
+            Grant access again to turn them back on.
+          </s-paragraph>
+          <grant.Form method="post" action="/app/scopes">
+            <s-button type="submit" disabled={grant.state !== "idle"}>
+              Grant access
+            </s-button>
+          </grant.Form>
+        </s-banner>
+      ) : null}
       <Outlet />
     </AppProvider>
   );
@@ -0,0 +1,18 @@
+// app/routes/apps.astra.$.ts
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+
+import { withAppProxy } from "../utils/app-proxy.server";
+import { jsonResponse } from "../utils/http.server";
+
+// Unknown /apps/astra/* paths are still signature-verified before answering 404.
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  return withAppProxy(request, async ({ requestId }) =>
+    jsonResponse({ error: "Not found" }, requestId, { status: 404 })
+  );
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return withAppProxy(request, async ({ requestId }) =>
+    jsonResponse({ error: "Not found" }, requestId, { status: 404 })
+  );
+};
@@ -0,0 +1,18 @@
+// app/routes/apps.astra.availability.ts
+import type { LoaderFunctionArgs } from "react-router";
+
+import { withAppProxy } from "../utils/app-proxy.server";
+import { getAvailability } from "../utils/availability.server";
+import { jsonResponse } from "../utils/http.server";
+
+// GET /apps/astra/availability
+// Not cached: presence changes minute to minute. The agent count stays private.
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  return withAppProxy(request, async ({ requestId, merchant }) => {
+    const { status, reason } = await getAvailability(merchant.merchantId);
+
+    return jsonResponse({ availability: { status, reason } }, requestId, {
+      headers: { "Cache-Control": "no-store" },
+    });
+  });
+};
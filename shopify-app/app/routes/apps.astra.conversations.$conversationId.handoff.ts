@@ -0,0 +1,48 @@
+// app/routes/apps.astra.conversations.$conversationId.handoff.ts
+import type { ActionFunctionArgs } from "react-router";
+
+import { withAppProxy } from "../utils/app-proxy.server";
+import type { ChatMessageView } from "../utils/chat.server";
+import {
+  appendMessage,
+  normalizeVisitorId,
+  requestHandoff,
+  requireVisitorConversation,
+  toConversationView,
+} from "../utils/chat.server";
+import { jsonResponse, readJsonObject } from "../utils/http.server";
+
+const HANDOFF_MESSAGE =
+  "I've let the team know. Someone will reply here as soon as possible.";
+
+// POST /apps/astra/conversations/:conversationId/handoff
+// { visitorId } - "Talk to support" in the widget.
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  return withAppProxy(request, async ({ requestId, merchant }) => {
+    if (request.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, requestId, { status: 405 });
+    }
+
+    const body = await readJsonObject(request);
+    const visitorId = normalizeVisitorId(body?.visitorId);
+    if (!visitorId) {
+      return jsonResponse({ error: "Invalid visitorId" }, requestId, { status: 400 });
+    }
+
+    const conversation = await requireVisitorConversation({
+      merchantId: merchant.merchantId,
+      conversationId: params.conversationId ?? "",
+      visitorId,
+    });
+
+    // Repeated taps don't repeat the confirmation.
+    let message: ChatMessageView | null = null;
+    if (conversation.status === "open") {
+      message = await appendMessage({ conversation, role: "bot", body: HANDOFF_MESSAGE });
+    }
+
+    const updated = await requestHandoff({ conversation, reason: "shopper" });
+
+    return jsonResponse({ conversation: toConversationView(updated), message }, requestId);
+  });
+};
@@ -0,0 +1,94 @@
+// app/routes/apps.astra.conversations.$conversationId.messages.ts
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+
+import { withAppProxy } from "../utils/app-proxy.server";
+import type { ChatMessageView } from "../utils/chat.server";
+import {
+  appendMessage,
+  listMessages,
+  normalizeMessageBody,
+  normalizePageSize,
+  normalizeVisitorId,
+  requireVisitorConversation,
+  toConversationView,
+} from "../utils/chat.server";
+import { jsonResponse, readJsonObject } from "../utils/http.server";
+import { buildErrorMetadata, logger } from "../utils/logger.server";
+import { replyAsBot } from "../utils/responder.server";
+
+// GET /apps/astra/conversations/:conversationId/messages?visitor_id=...&after=...
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  return withAppProxy(request, async ({ requestId, url, merchant }) => {
+    const visitorId = normalizeVisitorId(url.searchParams.get("visitor_id"));
+    if (!visitorId) {
+      return jsonResponse({ error: "Invalid visitor_id" }, requestId, { status: 400 });
+    }
+
+    const conversation = await requireVisitorConversation({
+      merchantId: merchant.merchantId,
+      conversationId: params.conversationId ?? "",
+      visitorId,
+    });
+
+    const messages = await listMessages({
+      conversationId: conversation.id,
+      after: url.searchParams.get("after") || undefined,
+      limit: normalizePageSize(url.searchParams.get("limit")),
+    });
+
+    return jsonResponse({ messages }, requestId);
+  });
+};
+
+// POST /apps/astra/conversations/:conversationId/messages
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  return withAppProxy(request, async ({ requestId, merchant }) => {
+    if (request.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, requestId, { status: 405 });
+    }
+
+    const body = await readJsonObject(request);
+    const visitorId = normalizeVisitorId(body?.visitorId);
+    const text = normalizeMessageBody(body?.body);
+    if (!visitorId || !text) {
+      return jsonResponse({ error: "Invalid message" }, requestId, { status: 400 });
+    }
+
+    const conversation = await requireVisitorConversation({
+      merchantId: merchant.merchantId,
+      conversationId: params.conversationId ?? "",
+      visitorId,
+    });
+
+    const message = await appendMessage({
+      conversation,
+      role: "customer",
+      externalId: visitorId,
+      body: text,
+    });
+
+    // Handed-off conversations are answered by staff, not the bot.
+    let current = conversation;
+    let reply: ChatMessageView | null = null;
+    if (conversation.status === "open") {
+      // The customer's message is already stored: a responder failure must not fail the request.
+      try {
+        const result = await replyAsBot({ conversation, merchant });
+        reply = result.message;
+        current = result.conversation;
+      } catch (err: unknown) {
+        logger.error("chat.bot_reply_failed", {
+          merchantId: merchant.merchantId,
+          conversationId: conversation.id,
+          ...buildErrorMetadata(err),
+        });
+      }
+    }
+
+    return jsonResponse(
+      { message, reply, conversation: toConversationView(current) },
+      requestId,
+      { status: 201 }
+    );
+  });
+};
@@ -0,0 +1,68 @@
+// app/routes/apps.astra.conversations.$conversationId.offline-message.ts
+import type { ActionFunctionArgs } from "react-router";
+
+import { withAppProxy } from "../utils/app-proxy.server";
+import {
+  appendMessage,
+  normalizeContact,
+  normalizeMessageBody,
+  normalizeVisitorId,
+  requestHandoff,
+  requireVisitorConversation,
+  saveConversationContact,
+  toConversationView,
+} from "../utils/chat.server";
+import { recordFollowUp } from "../utils/follow-ups.server";
+import { jsonResponse, readJsonObject } from "../utils/http.server";
+
+const OFFLINE_CONFIRMATION =
+  "Thanks! We're away right now, but we've got your message and will get back to you by email.";
+
+// POST /apps/astra/conversations/:conversationId/offline-message
+// { visitorId, name?, email, body } - the widget's form while the store is away.
+// Creates a follow-up that staff answer by email (see app.follow-ups.tsx).
+export const action = async ({ request, params }: ActionFunctionArgs) => {
+  return withAppProxy(request, async ({ requestId, merchant }) => {
+    if (request.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, requestId, { status: 405 });
+    }
+
+    const body = await readJsonObject(request);
+    const visitorId = normalizeVisitorId(body?.visitorId);
+    const contact = normalizeContact({ name: body?.name, email: body?.email });
+    const text = normalizeMessageBody(body?.body);
+    if (!visitorId) {
+      return jsonResponse({ error: "Invalid visitorId" }, requestId, { status: 400 });
+    }
+    if (!contact || !text) {
+      return jsonResponse({ error: "Invalid offline message" }, requestId, { status: 400 });
+    }
+
+    let conversation = await requireVisitorConversation({
+      merchantId: merchant.merchantId,
+      conversationId: params.conversationId ?? "",
+      visitorId,
+    });
+
+    conversation = await saveConversationContact({ conversation, contact });
+    const message = await appendMessage({
+      conversation,
+      role: "customer",
+      externalId: visitorId,
+      body: text,
+    });
+    const reply = await appendMessage({
+      conversation,
+      role: "bot",
+      body: OFFLINE_CONFIRMATION,
+    });
+    conversation = await requestHandoff({ conversation, reason: "offline_form" });
+    await recordFollowUp({ merchant, conversation, contact, question: text });
+
+    return jsonResponse(
+      { message, reply, conversation: toConversationView(conversation) },
+      requestId,
+      { status: 201 }
+    );
+  });
+};
@@ -0,0 +1,29 @@
+// app/routes/apps.astra.conversations.$conversationId.stream.ts
+import type { LoaderFunctionArgs } from "react-router";
+
+import { withAppProxy } from "../utils/app-proxy.server";
+import {
+  normalizeVisitorId,
+  requireVisitorConversation,
+  streamConversation,
+} from "../utils/chat.server";
+import { jsonResponse } from "../utils/http.server";
+
+// GET /apps/astra/conversations/:conversationId/stream?visitor_id=...
+// text/event-stream of new messages + status changes for the widget.
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  return withAppProxy(request, async ({ requestId, url, merchant }) => {
+    const visitorId = normalizeVisitorId(url.searchParams.get("visitor_id"));
+    if (!visitorId) {
+      return jsonResponse({ error: "Invalid visitor_id" }, requestId, { status: 400 });
+    }
+
+    const conversation = await requireVisitorConversation({
+      merchantId: merchant.merchantId,
+      conversationId: params.conversationId ?? "",
+      visitorId,
+    });
+
+    return streamConversation({ request, requestId, conversation, audience: "visitor" });
+  });
+};
@@ -0,0 +1,37 @@
+// app/routes/apps.astra.conversations.ts
+import type { ActionFunctionArgs } from "react-router";
+
+import { withAppProxy } from "../utils/app-proxy.server";
+import {
+  createConversation,
+  normalizeVisitorId,
+  toConversationView,
+} from "../utils/chat.server";
+import { jsonResponse, readJsonObject } from "../utils/http.server";
+
+// POST /apps/astra/conversations
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return withAppProxy(request, async ({ requestId, merchant, customerId }) => {
+    if (request.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, requestId, { status: 405 });
+    }
+
+    const body = await readJsonObject(request);
+    const visitorId = normalizeVisitorId(body?.visitorId);
+    if (!visitorId) {
+      return jsonResponse({ error: "Invalid visitorId" }, requestId, { status: 400 });
+    }
+
+    const conversation = await createConversation({
+      merchantId: merchant.merchantId,
+      visitorId,
+      customerId,
+    });
+
+    return jsonResponse(
+      { conversation: toConversationView(conversation) },
+      requestId,
+      { status: 201 }
+    );
+  });
+};
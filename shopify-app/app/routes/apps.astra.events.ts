@@ -0,0 +1,25 @@
+// app/routes/apps.astra.events.ts
+import type { ActionFunctionArgs } from "react-router";
+
+import { withAppProxy } from "../utils/app-proxy.server";
+import { jsonResponse, readJsonObject } from "../utils/http.server";
+import { withRequestIdHeader } from "../utils/request-id.server";
+import { normalizeWidgetEvent, recordWidgetEvent } from "../utils/widget-events.server";
+
+// POST /apps/astra/events
+// { type: "widget_open" } | { type: "quick_action", action } - dashboard usage counts.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return withAppProxy(request, async ({ requestId, merchant }) => {
+    if (request.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, requestId, { status: 405 });
+    }
+
+    const event = normalizeWidgetEvent(await readJsonObject(request));
+    if (!event) {
+      return jsonResponse({ error: "Invalid event" }, requestId, { status: 400 });
+    }
+
+    await recordWidgetEvent(merchant.merchantId, event);
+    return withRequestIdHeader(new Response(null, { status: 204 }), requestId);
+  });
+};
@@ -0,0 +1,112 @@
+// app/routes/apps.astra.order-status.ts
+import type { ActionFunctionArgs } from "react-router";
+
+import { withAppProxy } from "../utils/app-proxy.server";
+import type { ChatMessageView } from "../utils/chat.server";
+import {
+  appendMessage,
+  normalizeVisitorId,
+  requireVisitorConversation,
+} from "../utils/chat.server";
+import { getClientIp, jsonResponse, readJsonObject } from "../utils/http.server";
+import { getOfflineAdmin, OfflineTokenError } from "../utils/offline-tokens.server";
+import {
+  consumeOrderLookupAttempts,
+  formatOrderStatusSummary,
+  lookupOrderStatus,
+  normalizeOrderNumber,
+  orderLookupLimitKeys,
+  parseOrderVerifier,
+} from "../utils/order-lookup.server";
+import { isFeatureAvailable, parseScopes } from "../utils/scopes";
+
+const ORDER_LOOKUP_UNAVAILABLE_MESSAGE =
+  "Order lookup is unavailable right now. Please try again later.";
+
+const ORDER_NOT_FOUND_MESSAGE =
+  "We couldn't find an order matching those details. Please check the order number and the email or postal code.";
+
+// POST /apps/astra/order-status
+// { visitorId, orderNumber, verifier, conversationId? }
+export const action = async ({ request }: ActionFunctionArgs) => {
+  return withAppProxy(request, async ({ requestId, merchant, shopDomain }) => {
+    if (request.method !== "POST") {
+      return jsonResponse({ error: "Method not allowed" }, requestId, { status: 405 });
+    }
+
+    // read_orders is optional: not granted until the merchant turns lookups on.
+    if (!isFeatureAvailable("order_status", parseScopes(merchant.scopes))) {
+      return jsonResponse({ error: ORDER_LOOKUP_UNAVAILABLE_MESSAGE }, requestId, {
+        status: 503,
+      });
+    }
+
+    const body = await readJsonObject(request);
+    const visitorId = normalizeVisitorId(body?.visitorId);
+    const orderNumber = normalizeOrderNumber(body?.orderNumber);
+    const verifier = parseOrderVerifier(body?.verifier);
+
+    if (!visitorId || !orderNumber || !verifier) {
+      return jsonResponse(
+        { error: "Enter your order number and the email or postal code used for the order." },
+        requestId,
+        { status: 400 }
+      );
+    }
+
+    const limitKeys = orderLookupLimitKeys({
+      merchantId: merchant.merchantId,
+      orderNumber,
+      clientIp: getClientIp(request),
+    });
+    if (!consumeOrderLookupAttempts(limitKeys)) {
+      return jsonResponse(
+        { error: "Too many attempts. Please try again later." },
+        requestId,
+        { status: 429 }
+      );
+    }
+
+    // No usable Admin API token (e.g. the merchant needs to re-authenticate).
+    const offline = await getOfflineAdmin(shopDomain).catch((err: unknown) => {
+      if (err instanceof OfflineTokenError) return undefined;
+      throw err;
+    });
+    if (!offline) {
+      return jsonResponse({ error: ORDER_LOOKUP_UNAVAILABLE_MESSAGE }, requestId, {
+        status: 503,
+      });
+    }
+
+    const result = await lookupOrderStatus({
+      admin: offline.admin,
+      merchantId: merchant.merchantId,
+      orderNumber,
+      verifier,
+    });
+
+    // Keep the outcome in the shopper's conversation so agents see it later.
+    let message: ChatMessageView | null = null;
+    const conversationId =
+      typeof body?.conversationId === "string" ? body.conversationId : undefined;
+    if (conversationId) {
+      try {
+        const conversation = await requireVisitorConversation({
+          merchantId: merchant.merchantId,
+          conversationId,
+          visitorId,
+        });
+        message = await appendMessage({
+          conversation,
+          role: "bot",
+          body: result.found ? formatOrderStatusSummary(result.order) : ORDER_NOT_FOUND_MESSAGE,
+        });
+      } catch (err: unknown) {
+        // Unknown/closed conversation: still return the lookup result.
+        if (!(err instanceof Response)) throw err;
+      }
+    }
+
+    return jsonResponse({ ...result, message }, requestId);
+  });
+};
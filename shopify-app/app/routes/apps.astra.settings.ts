@@ -0,0 +1,30 @@
+// app/routes/apps.astra.settings.ts
+import type { LoaderFunctionArgs } from "react-router";
+
+import { withAppProxy } from "../utils/app-proxy.server";
+import { jsonResponse } from "../utils/http.server";
+import { parseScopes } from "../utils/scopes";
+import { unavailableQuickActions } from "../utils/widget-settings";
+import { getWidgetSettings } from "../utils/widget-settings.server";
+
+// Short enough that admin changes show up on the next page view or two.
+const SETTINGS_MAX_AGE_SECONDS = 60;
+
+// GET /apps/astra/settings
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  return withAppProxy(request, async ({ requestId, merchant }) => {
+    const settings = await getWidgetSettings(merchant);
+    // Hide the buttons rather than offer lookups that would fail.
+    const unavailable = unavailableQuickActions(
+      settings.quickActions,
+      parseScopes(merchant.scopes)
+    );
+    settings.quickActions = settings.quickActions.filter(
+      (action) => !unavailable.includes(action)
+    );
+
+    return jsonResponse({ settings }, requestId, {
+      headers: { "Cache-Control": `public, max-age=${SETTINGS_MAX_AGE_SECONDS}` },
+    });
+  });
+};
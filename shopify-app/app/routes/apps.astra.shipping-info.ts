@@ -0,0 +1,26 @@
+// app/routes/apps.astra.shipping-info.ts
+import type { LoaderFunctionArgs } from "react-router";
+
+import { withAppProxy } from "../utils/app-proxy.server";
+import { jsonResponse } from "../utils/http.server";
+import { listKnowledgeEntries } from "../utils/knowledge.server";
+
+// GET /apps/astra/shipping-info
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  return withAppProxy(request, async ({ requestId, merchant }) => {
+    const entries = await listKnowledgeEntries({
+      merchantId: merchant.merchantId,
+      topic: "shipping",
+    });
+
+    const strip = ({ id, title, body }: (typeof entries)[number]) => ({ id, title, body });
+
+    return jsonResponse(
+      {
+        policies: entries.filter((e) => e.kind === "policy").map(strip),
+        faqs: entries.filter((e) => e.kind === "faq").map(strip),
+      },
+      requestId
+    );
+  });
+};
@@ -0,0 +1,11 @@
+// app/routes/webhooks.$.tsx
+//
+// Every webhook subscription in shopify.app.toml points somewhere under
+// /webhooks/; the X-Shopify-Topic header picks the handler, not the path.
+import type { ActionFunctionArgs } from "react-router";
+
+import { webhookHandlers } from "../utils/webhook-handlers.server";
+import { dispatchWebhook } from "../utils/webhook-router.server";
+
+export const action = async ({ request }: ActionFunctionArgs) =>
+  dispatchWebhook(request, webhookHandlers);
@@ -7,11 +7,14 @@ import {
 import { PrismaSessionStorage } from "@shopify/shopify-app-session-storage-prisma";
 
 import prisma from "./db.server";
+import { enqueueJob } from "./utils/jobs.server";
 import {
   resolveMerchantIdentity,
   upsertActiveMerchant,
 } from "./utils/merchant.server";
-import { ensureUninstallWebhookRegistration } from "./utils/shopify-webhook-registration.server";
+import { missingScopes, parseScopes } from "./utils/scopes";
+import { EncryptedSessionStorage, loadSessionKeyring } from "./utils/session-encryption.server";
+import { ensureWebhookRegistrations } from "./utils/shopify-webhook-registration.server";
 
 const shopify = shopifyApp({
   apiKey: process.env.SHOPIFY_API_KEY,
@@ -20,20 +23,31 @@ const shopify = shopifyApp({
   scopes: process.env.SCOPES?.split(","),
   appUrl: process.env.SHOPIFY_APP_URL || "",
   authPathPrefix: "/auth",
-  sessionStorage: new PrismaSessionStorage(prisma),
+  sessionStorage: new EncryptedSessionStorage(
+    new PrismaSessionStorage(prisma),
+    loadSessionKeyring()
+  ),
   distribution: AppDistribution.AppStore,
   hooks: {
     afterAuth: async ({ session, admin }) => {
       const identity = await resolveMerchantIdentity(session, admin);
-      const registration = await ensureUninstallWebhookRegistration({
+      const registration = await ensureWebhookRegistrations({
         admin,
         merchantId: identity.merchantId,
         shopDomain: identity.shopDomain,
       });
+      const scopesMissing = missingScopes(parseScopes(identity.scopes)).length > 0;
       await upsertActiveMerchant(session, admin, {
         identity,
-        status: registration.success ? "active" : "missing_webhooks",
+        status: scopesMissing
+          ? "insufficient_scopes"
+          : registration.success
+            ? "active"
+            : "missing_webhooks",
       });
+      if (!registration.success) {
+        await enqueueJob("webhooks.register", { shopDomain: identity.shopDomain });
+      }
     },
   },
   future: {
@@ -0,0 +1,302 @@
+// app/utils/admin-graphql.server.ts
+//
+// Every Admin GraphQL call goes through adminGraphql, which
+// - retries THROTTLED responses after the time the cost bucket needs to
+//   refill (extensions.cost.throttleStatus), or Retry-After on a 429,
+// - retries 5xx and network errors with exponential backoff,
+// - logs each attempt with its duration and query cost.
+// The library's admin.graphql either throws (HttpThrottlingError,
+// HttpInternalError, GraphqlQueryError) or returns a Response whose body may
+// still carry `errors`; both are handled here.
+import { logger } from "./logger.server";
+
+export type AdminGraphqlClient = {
+  graphql: (
+    query: string,
+    options?: { variables?: Record<string, unknown> }
+  ) => Promise<Response>;
+};
+
+export type AdminGraphqlCost = {
+  requestedQueryCost?: number;
+  actualQueryCost?: number | null;
+  throttleStatus?: {
+    maximumAvailable: number;
+    currentlyAvailable: number;
+    restoreRate: number;
+  };
+};
+
+export type AdminUserError = {
+  field?: string[] | null;
+  message: string;
+  code?: string | null;
+};
+
+export type AdminGraphqlResult<T> = {
+  data: T;
+  cost?: AdminGraphqlCost;
+};
+
+type GraphqlErrorEntry = { message?: string; extensions?: { code?: string } };
+
+type GraphqlBody = {
+  data?: unknown;
+  errors?: GraphqlErrorEntry[];
+  extensions?: { cost?: AdminGraphqlCost };
+};
+
+export const ADMIN_GRAPHQL_MAX_ATTEMPTS = 4;
+const BASE_RETRY_DELAY_MS = 500;
+const MAX_RETRY_DELAY_MS = 30_000;
+const DEFAULT_PAGE_SIZE = 100;
+
+export class AdminGraphqlError extends Error {
+  name = "AdminGraphqlError";
+
+  constructor(
+    message: string,
+    readonly details: {
+      operation: string;
+      status?: number;
+      throttled?: boolean;
+      /** Retrying later may succeed (throttling, 5xx, network). */
+      retriable: boolean;
+      cost?: AdminGraphqlCost;
+    }
+  ) {
+    super(message);
+  }
+}
+
+/** `query Name` / `mutation Name`; "anonymous" for `{ shop { ... } }`. */
+export function graphqlOperationName(query: string): string {
+  return query.match(/\b(?:query|mutation)\s+(\w+)/)?.[1] ?? "anonymous";
+}
+
+function isThrottled(errors: GraphqlErrorEntry[] | undefined): boolean {
+  return Boolean(errors?.some((error) => error.extensions?.code === "THROTTLED"));
+}
+
+function errorMessages(errors: GraphqlErrorEntry[]): string {
+  return errors
+    .map((error) => error.message)
+    .filter(Boolean)
+    .join(", ");
+}
+
+/** How long until the bucket holds the requested cost again. */
+export function throttleDelayMs(cost: AdminGraphqlCost | undefined): number | undefined {
+  const status = cost?.throttleStatus;
+  if (!status || !cost?.requestedQueryCost || status.restoreRate <= 0) return undefined;
+
+  const deficit = cost.requestedQueryCost - status.currentlyAvailable;
+  const delayMs = Math.ceil((deficit / status.restoreRate) * 1000);
+  return Math.min(Math.max(0, delayMs), MAX_RETRY_DELAY_MS);
+}
+
+function backoffDelayMs(attempt: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1), MAX_RETRY_DELAY_MS);
+}
+
+type Attempt<T> =
+  | { result: AdminGraphqlResult<T>; error?: undefined }
+  | { error: AdminGraphqlError; delayMs?: number; result?: undefined };
+
+// HttpResponseError keeps the status in response.code; GraphqlQueryError
+// keeps the parsed body, with the GraphQL errors under errors.graphQLErrors.
+type ThrownShopifyError = Error & {
+  response?: { code?: number; retryAfter?: number };
+  body?: {
+    errors?: { graphQLErrors?: GraphqlErrorEntry[] };
+    extensions?: GraphqlBody["extensions"];
+  };
+};
+
+/** Maps what admin.graphql threw to an AdminGraphqlError; delayMs when a wait is known. */
+function fromThrown(err: unknown, operation: string): Attempt<never> {
+  const thrown = err as ThrownShopifyError;
+  const status = thrown?.response?.code;
+  const graphQLErrors = thrown?.body?.errors?.graphQLErrors;
+  const cost = thrown?.body?.extensions?.cost;
+
+  if (graphQLErrors?.length) {
+    const throttled = isThrottled(graphQLErrors);
+    return {
+      error: new AdminGraphqlError(`${operation} failed: ${errorMessages(graphQLErrors)}`, {
+        operation,
+        throttled,
+        retriable: throttled,
+        cost,
+      }),
+      delayMs: throttled ? throttleDelayMs(cost) : undefined,
+    };
+  }
+
+  // Anything without an HTTP status (fetch failed, timeouts) is worth retrying.
+  const throttled = status === 429;
+  const retriable = throttled || status === undefined || status >= 500;
+  const message = err instanceof Error ? err.message : String(err);
+
+  const retryAfter = thrown?.response?.retryAfter;
+  return {
+    error: new AdminGraphqlError(`${operation} failed: ${message}`, {
+      operation,
+      status,
+      throttled,
+      retriable,
+    }),
+    delayMs: retryAfter ? retryAfter * 1000 : undefined,
+  };
+}
+
+async function fromResponse<T>(response: Response, operation: string): Promise<Attempt<T>> {
+  if (!response.ok) {
+    const throttled = response.status === 429;
+    const retryAfter = Number(response.headers.get("Retry-After"));
+    return {
+      error: new AdminGraphqlError(`${operation} failed (status ${response.status})`, {
+        operation,
+        status: response.status,
+        throttled,
+        retriable: throttled || response.status >= 500,
+      }),
+      delayMs: retryAfter > 0 ? retryAfter * 1000 : undefined,
+    };
+  }
+
+  const body = (await response.json()) as GraphqlBody;
+  const cost = body.extensions?.cost;
+
+  if (body.errors?.length) {
+    const throttled = isThrottled(body.errors);
+    return {
+      error: new AdminGraphqlError(`${operation} failed: ${errorMessages(body.errors)}`, {
+        operation,
+        status: response.status,
+        throttled,
+        retriable: throttled,
+        cost,
+      }),
+      delayMs: throttled ? throttleDelayMs(cost) : undefined,
+    };
+  }
+
+  return { result: { data: (body.data ?? {}) as T, cost } };
+}
+
+/**
+ * Runs a query or mutation and returns its data. Throws AdminGraphqlError
+ * once the errors aren't retriable or the attempts are used up.
+ */
+export async function adminGraphql<T>(
+  admin: AdminGraphqlClient,
+  query: string,
+  options?: { variables?: Record<string, unknown>; maxAttempts?: number }
+): Promise<AdminGraphqlResult<T>> {
+  const operation = graphqlOperationName(query);
+  const maxAttempts = options?.maxAttempts ?? ADMIN_GRAPHQL_MAX_ATTEMPTS;
+
+  for (let attempt = 1; ; attempt++) {
+    const started = Date.now();
+    let outcome: Attempt<T>;
+    try {
+      const response = await admin.graphql(query, { variables: options?.variables });
+      outcome = await fromResponse<T>(response, operation);
+    } catch (err: unknown) {
+      // A Response is the library asking an embedded request to re-authenticate.
+      if (err instanceof Response) throw err;
+      outcome = fromThrown(err, operation);
+    }
+
+    const { error } = outcome;
+    const cost = error ? error.details.cost : outcome.result.cost;
+    const willRetry = Boolean(error?.details.retriable) && attempt < maxAttempts;
+
+    logger[error && !willRetry ? "warn" : "info"]("admin_graphql.request", {
+      operation,
+      attempt,
+      durationMs: Date.now() - started,
+      outcome: error ? (willRetry ? "retry" : "failure") : "success",
+      status: error?.details.status,
+      throttled: error?.details.throttled || undefined,
+      requestedQueryCost: cost?.requestedQueryCost,
+      actualQueryCost: cost?.actualQueryCost,
+      availableCost: cost?.throttleStatus?.currentlyAvailable,
+    });
+
+    if (!outcome.error) return outcome.result;
+    if (!willRetry) throw outcome.error;
+
+    const delayMs = outcome.delayMs ?? backoffDelayMs(attempt);
+    await new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+}
+
+/**
+ * Runs a mutation and returns its payload (`data[field]`) with the
+ * userErrors, which are the caller's to handle; only request-level errors
+ * throw.
+ */
+export async function adminMutation<P extends { userErrors?: AdminUserError[] | null }>(
+  admin: AdminGraphqlClient,
+  mutation: string,
+  field: string,
+  options?: { variables?: Record<string, unknown> }
+): Promise<{ payload: P | null; userErrors: AdminUserError[]; cost?: AdminGraphqlCost }> {
+  const { data, cost } = await adminGraphql<Record<string, P | null | undefined>>(
+    admin,
+    mutation,
+    options
+  );
+  const payload = data[field] ?? null;
+  return { payload, userErrors: payload?.userErrors ?? [], cost };
+}
+
+export function formatUserErrors(userErrors: AdminUserError[]): string {
+  return userErrors
+    .map((error) => (error.field?.length ? `${error.field.join(".")}: ` : "") + error.message)
+    .join(", ");
+}
+
+export type AdminConnection<N> = {
+  edges?: Array<{ node?: N | null }> | null;
+  nodes?: Array<N | null> | null;
+  pageInfo?: { hasNextPage?: boolean; endCursor?: string | null } | null;
+};
+
+/**
+ * Collects every node of a connection. The query takes `$first: Int!` and
+ * `$after: String`; `connection` picks the connection out of the data.
+ */
+export async function paginateConnection<N, D = unknown>(
+  admin: AdminGraphqlClient,
+  query: string,
+  options: {
+    connection: (data: D) => AdminConnection<N> | null | undefined;
+    variables?: Record<string, unknown>;
+    pageSize?: number;
+    /** Stop after this many pages (default: all). */
+    maxPages?: number;
+  }
+): Promise<N[]> {
+  const nodes: N[] = [];
+  let after: string | null = null;
+
+  for (let page = 1; ; page++) {
+    const { data } = await adminGraphql<D>(admin, query, {
+      variables: { ...options.variables, first: options.pageSize ?? DEFAULT_PAGE_SIZE, after },
+    });
+    const connection = options.connection(data);
+
+    const pageNodes = connection?.nodes ?? connection?.edges?.map((edge) => edge.node) ?? [];
+    for (const node of pageNodes) {
+      if (node) nodes.push(node);
+    }
+
+    const pageInfo = connection?.pageInfo;
+    if (!pageInfo?.hasNextPage || !pageInfo.endCursor) return nodes;
+    if (options.maxPages && page >= options.maxPages) return nodes;
+    after = pageInfo.endCursor;
+  }
+}
@@ -0,0 +1,14 @@
+// app/utils/admin.server.ts
+import { authenticate } from "../shopify.server";
+import { requireActiveMerchantByShopDomain } from "./merchant.server";
+
+/**
+ * Authenticates an embedded admin request and resolves the active merchant.
+ * Auth redirects and inactive merchants surface as thrown Responses.
+ */
+export async function requireAdminMerchant(request: Request) {
+  const auth = await authenticate.admin(request);
+  const merchant = await requireActiveMerchantByShopDomain(auth.session.shop);
+
+  return { ...auth, merchant };
+}
@@ -0,0 +1,183 @@
+// app/utils/app-proxy.server.ts
+import crypto from "crypto";
+import type { Merchant } from "@prisma/client";
+
+import { jsonResponse } from "./http.server";
+import { buildErrorMetadata, logEvent } from "./logger.server";
+import { requireActiveMerchantByShopDomain } from "./merchant.server";
+import { withRequestId, withRequestIdHeader } from "./request-id.server";
+import { validateShopQueryParam } from "./shop-param.server";
+
+// Must match [app_proxy] in shopify.app.toml
+export const APP_PROXY_PATH_PREFIX = "/apps/astra";
+
+const SIGNATURE_PARAM = "signature";
+
+// Shopify signs every proxied request, so a fresh timestamp is expected.
+// The window only has to absorb clock skew; it blocks replay of captured URLs.
+export const APP_PROXY_MAX_AGE_SECONDS = 5 * 60;
+
+export type AppProxyContext = {
+  requestId: string;
+  url: URL;
+  shopDomain: string;
+  merchant: Merchant;
+  /** Shopify `logged_in_customer_id` (empty when the shopper isn't logged in). */
+  customerId?: string;
+};
+
+/**
+ * Shopify App Proxy signature:
+ * - drop `signature`
+ * - "key=value" per key, repeated keys joined with ","
+ * - sort, concatenate with NO separator
+ * - HMAC-SHA256 (hex) with the app secret
+ */
+export function computeAppProxySignature(
+  searchParams: URLSearchParams,
+  secret: string
+): string {
+  const grouped = new Map<string, string[]>();
+  for (const [key, value] of searchParams) {
+    if (key === SIGNATURE_PARAM) continue;
+    grouped.set(key, [...(grouped.get(key) ?? []), value]);
+  }
+
+  const message = Array.from(grouped.entries())
+    .map(([key, values]) => `${key}=${values.join(",")}`)
+    .sort()
+    .join("");
+
+  return crypto.createHmac("sha256", secret).update(message).digest("hex");
+}
+
+export function isValidAppProxySignature(
+  searchParams: URLSearchParams,
+  secret: string | undefined = process.env.SHOPIFY_API_SECRET
+): boolean {
+  const provided = searchParams.get(SIGNATURE_PARAM);
+  if (!provided || !secret) return false;
+  if (!/^[0-9a-f]+$/i.test(provided)) return false;
+
+  const computedBuffer = Buffer.from(computeAppProxySignature(searchParams, secret), "hex");
+  const providedBuffer = Buffer.from(provided, "hex");
+
+  if (computedBuffer.length !== providedBuffer.length) return false;
+
+  return crypto.timingSafeEqual(computedBuffer, providedBuffer);
+}
+
+export function isFreshAppProxyTimestamp(
+  searchParams: URLSearchParams,
+  now: number = Date.now()
+): boolean {
+  const timestamp = Number(searchParams.get("timestamp"));
+  if (!Number.isFinite(timestamp) || timestamp <= 0) return false;
+
+  return Math.abs(now / 1000 - timestamp) <= APP_PROXY_MAX_AGE_SECONDS;
+}
+
+/**
+ * Wrap every /apps/astra/* loader/action so that:
+ * - requestId is set (and echoed as X-Request-Id)
+ * - the App Proxy signature + timestamp are verified (401 otherwise)
+ * - the shop is resolved to an active Merchant (410 otherwise)
+ * - thrown Responses keep their status; anything else becomes a JSON 500
+ */
+export async function withAppProxy(
+  request: Request,
+  handler: (ctx: AppProxyContext) => Promise<Response>
+): Promise<Response> {
+  return withRequestId(request, async (requestId) => {
+    const started = Date.now();
+    const url = new URL(request.url);
+    const shopParam = url.searchParams.get("shop") ?? undefined;
+    const path = url.pathname;
+
+    if (
+      !isValidAppProxySignature(url.searchParams) ||
+      !isFreshAppProxyTimestamp(url.searchParams)
+    ) {
+      logEvent("App proxy request rejected - invalid signature", {
+        eventType: "app_proxy",
+        outcome: "failure",
+        shopDomain: shopParam,
+        durationMs: Date.now() - started,
+        status: 401,
+        path,
+        errorCode: "HMAC_VERIFICATION_FAILED",
+        errorMessage: "HMAC verification failed",
+      });
+      return jsonResponse({ error: "Unauthorized" }, requestId, { status: 401 });
+    }
+
+    const shop = validateShopQueryParam(shopParam);
+    if (!shop.ok) {
+      logEvent("App proxy request rejected - invalid shop", {
+        eventType: "app_proxy",
+        outcome: "failure",
+        shopDomain: shopParam,
+        durationMs: Date.now() - started,
+        status: shop.status,
+        path,
+        errorCode: "INVALID_SHOP",
+        errorMessage: "Invalid shop domain",
+      });
+      return jsonResponse({ error: shop.message }, requestId, { status: shop.status });
+    }
+
+    let merchantId: string | undefined;
+    try {
+      const merchant = await requireActiveMerchantByShopDomain(shop.shop);
+      merchantId = merchant.merchantId;
+
+      const response = await handler({
+        requestId,
+        url,
+        shopDomain: shop.shop,
+        merchant,
+        customerId: url.searchParams.get("logged_in_customer_id") || undefined,
+      });
+
+      logEvent("App proxy request processed", {
+        eventType: "app_proxy",
+        outcome: response.status >= 500 ? "failure" : "success",
+        shopDomain: shop.shop,
+        merchantId,
+        durationMs: Date.now() - started,
+        status: response.status,
+        path,
+        method: request.method,
+      });
+
+      return withRequestIdHeader(response, requestId);
+    } catch (err: unknown) {
+      if (err instanceof Response) {
+        logEvent("App proxy request processed", {
+          eventType: "app_proxy",
+          outcome: err.status >= 500 ? "failure" : "success",
+          shopDomain: shop.shop,
+          merchantId,
+          durationMs: Date.now() - started,
+          status: err.status,
+          path,
+          method: request.method,
+        });
+        return withRequestIdHeader(err, requestId);
+      }
+
+      logEvent("App proxy request failed", {
+        eventType: "app_proxy",
+        outcome: "failure",
+        shopDomain: shop.shop,
+        merchantId,
+        durationMs: Date.now() - started,
+        status: 500,
+        path,
+        method: request.method,
+        ...buildErrorMetadata(err),
+      });
+      return jsonResponse({ error: "Internal error" }, requestId, { status: 500 });
+    }
+  });
+}
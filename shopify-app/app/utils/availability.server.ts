@@ -0,0 +1,172 @@
+// app/utils/availability.server.ts
+//
+// Stored business hours, holidays and agent presence (see availability.ts).
+import type { HolidayException } from "@prisma/client";
+
+import prisma from "../db.server";
+import type {
+  Availability,
+  BusinessHoursConfig,
+  HolidayInput,
+  HolidayView,
+} from "./availability";
+import {
+  computeAvailability,
+  DEFAULT_BUSINESS_HOURS,
+  isValidTimeZone,
+  MAX_HOLIDAYS,
+  parseWeeklyHours,
+} from "./availability";
+import { logger } from "./logger.server";
+
+// Admin pages ping every minute; two missed pings and the agent is offline.
+export const AGENT_PRESENCE_TTL_MS = 2 * 60_000;
+
+function toHolidayView(row: HolidayException): HolidayView {
+  return {
+    id: row.id,
+    date: row.date,
+    label: row.label,
+    hours: row.opens && row.closes ? { open: row.opens, close: row.closes } : null,
+  };
+}
+
+export async function getBusinessHours(merchantId: string): Promise<BusinessHoursConfig> {
+  const row = await prisma.businessHours.findUnique({ where: { merchantId } });
+  if (!row) return DEFAULT_BUSINESS_HOURS;
+
+  // Fall back field by field so one bad value doesn't take the store offline.
+  return {
+    enabled: row.enabled,
+    timezone: isValidTimeZone(row.timezone) ? row.timezone : DEFAULT_BUSINESS_HOURS.timezone,
+    weeklyHours: parseWeeklyHours(row.weeklyHours) ?? DEFAULT_BUSINESS_HOURS.weeklyHours,
+  };
+}
+
+export async function saveBusinessHours(params: {
+  merchantId: string;
+  config: BusinessHoursConfig;
+}): Promise<void> {
+  const data = {
+    enabled: params.config.enabled,
+    timezone: params.config.timezone,
+    weeklyHours: JSON.stringify(params.config.weeklyHours),
+  };
+
+  await prisma.businessHours.upsert({
+    where: { merchantId: params.merchantId },
+    create: { merchantId: params.merchantId, ...data },
+    update: data,
+  });
+
+  logger.info("availability.hours.saved", {
+    merchantId: params.merchantId,
+    enabled: params.config.enabled,
+    timezone: params.config.timezone,
+  });
+}
+
+export async function listHolidays(merchantId: string): Promise<HolidayView[]> {
+  const rows = await prisma.holidayException.findMany({
+    where: { merchantId },
+    orderBy: { date: "asc" },
+  });
+
+  return rows.map(toHolidayView);
+}
+
+/**
+ * Adds or replaces the exception for a date.
+ */
+export async function saveHoliday(params: {
+  merchantId: string;
+  holiday: HolidayInput;
+}): Promise<HolidayView> {
+  const { merchantId, holiday } = params;
+  const existing = await prisma.holidayException.findUnique({
+    where: { merchantId_date: { merchantId, date: holiday.date } },
+    select: { id: true },
+  });
+
+  if (!existing) {
+    const count = await prisma.holidayException.count({ where: { merchantId } });
+    if (count >= MAX_HOLIDAYS) {
+      throw new Response("Too many holidays", { status: 409 });
+    }
+  }
+
+  const data = {
+    label: holiday.label,
+    opens: holiday.hours?.open ?? null,
+    closes: holiday.hours?.close ?? null,
+  };
+  const row = await prisma.holidayException.upsert({
+    where: { merchantId_date: { merchantId, date: holiday.date } },
+    create: { merchantId, date: holiday.date, ...data },
+    update: data,
+  });
+
+  logger.info("availability.holiday.saved", {
+    merchantId,
+    date: holiday.date,
+    closed: !holiday.hours,
+  });
+
+  return toHolidayView(row);
+}
+
+export async function deleteHoliday(params: {
+  merchantId: string;
+  id: string;
+}): Promise<boolean> {
+  const { count } = await prisma.holidayException.deleteMany({
+    where: { id: params.id, merchantId: params.merchantId },
+  });
+
+  if (count) {
+    logger.info("availability.holiday.deleted", { merchantId: params.merchantId });
+  }
+
+  return count > 0;
+}
+
+/**
+ * Marks a staff member as active in the admin (see the ping in app.tsx).
+ */
+export async function touchAgentPresence(params: {
+  merchantId: string;
+  staffId: string;
+  now?: Date;
+}): Promise<void> {
+  const lastSeenAt = params.now ?? new Date();
+
+  await prisma.agentPresence.upsert({
+    where: {
+      merchantId_staffId: { merchantId: params.merchantId, staffId: params.staffId },
+    },
+    create: { merchantId: params.merchantId, staffId: params.staffId, lastSeenAt },
+    update: { lastSeenAt },
+  });
+}
+
+export async function countOnlineAgents(merchantId: string, now = new Date()): Promise<number> {
+  return prisma.agentPresence.count({
+    where: {
+      merchantId,
+      lastSeenAt: { gte: new Date(now.getTime() - AGENT_PRESENCE_TTL_MS) },
+    },
+  });
+}
+
+export async function getAvailability(
+  merchantId: string,
+  now = new Date()
+): Promise<Availability> {
+  const [config, holidays, agentsOnline] = await Promise.all([
+    getBusinessHours(merchantId),
+    listHolidays(merchantId),
+    countOnlineAgents(merchantId, now),
+  ]);
+
+  return computeAvailability({ config, holidays, agentsOnline, now });
+}
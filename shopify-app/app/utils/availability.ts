@@ -0,0 +1,239 @@
+// app/utils/availability.ts
+//
+// Business hours and holiday exceptions, shared by the server and the admin
+// business hours page (no server-only imports here). The widget shows
+// "online" only when the store is open and someone on the team is signed in.
+
+export type Weekday = "mon" | "tue" | "wed" | "thu" | "fri" | "sat" | "sun";
+
+/** "HH:MM" in the business timezone; `close` may be "24:00". */
+export type OpeningHours = { open: string; close: string };
+
+/** null: closed all day. */
+export type WeeklyHours = Record<Weekday, OpeningHours | null>;
+
+export type BusinessHoursConfig = {
+  /** false: always open, presence alone decides. */
+  enabled: boolean;
+  timezone: string;
+  weeklyHours: WeeklyHours;
+};
+
+export type HolidayView = {
+  id: string;
+  /** YYYY-MM-DD in the business timezone. */
+  date: string;
+  label: string;
+  /** Special hours for the day; null means closed. */
+  hours: OpeningHours | null;
+};
+
+export type HolidayInput = Omit<HolidayView, "id">;
+
+export type AvailabilityStatus = "online" | "away";
+export type AvailabilityReason = "open" | "outside_hours" | "holiday" | "no_agents";
+
+export type Availability = {
+  status: AvailabilityStatus;
+  reason: AvailabilityReason;
+  withinHours: boolean;
+  agentsOnline: number;
+};
+
+export const WEEKDAYS: Array<{ value: Weekday; label: string }> = [
+  { value: "mon", label: "Monday" },
+  { value: "tue", label: "Tuesday" },
+  { value: "wed", label: "Wednesday" },
+  { value: "thu", label: "Thursday" },
+  { value: "fri", label: "Friday" },
+  { value: "sat", label: "Saturday" },
+  { value: "sun", label: "Sunday" },
+];
+
+const WORKDAY: OpeningHours = { open: "09:00", close: "17:00" };
+
+export const DEFAULT_BUSINESS_HOURS: BusinessHoursConfig = {
+  enabled: false,
+  timezone: "UTC",
+  weeklyHours: {
+    mon: WORKDAY,
+    tue: WORKDAY,
+    wed: WORKDAY,
+    thu: WORKDAY,
+    fri: WORKDAY,
+    sat: null,
+    sun: null,
+  },
+};
+
+export const MAX_HOLIDAYS = 100;
+export const MAX_HOLIDAY_LABEL_LENGTH = 100;
+
+const TIME_RE = /^([01]\d|2[0-4]):([0-5]\d)$/;
+const DATE_RE = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+
+export function isValidTimeZone(timezone: unknown): timezone is string {
+  if (typeof timezone !== "string" || !timezone) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Minutes since midnight for "HH:MM" ("24:00" = 1440), or undefined.
+ */
+export function parseTimeOfDay(value: unknown): number | undefined {
+  if (typeof value !== "string") return undefined;
+  const match = TIME_RE.exec(value.trim());
+  if (!match) return undefined;
+
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes <= 24 * 60 ? minutes : undefined;
+}
+
+/**
+ * Validates one day's hours. null/"closed" is a valid closed day; returns
+ * undefined for anything else that isn't an open < close pair.
+ */
+export function normalizeOpeningHours(raw: unknown): OpeningHours | null | undefined {
+  if (raw === null || raw === "closed") return null;
+  if (!raw || typeof raw !== "object") return undefined;
+
+  const { open, close } = raw as Record<string, unknown>;
+  const openMinutes = parseTimeOfDay(open);
+  const closeMinutes = parseTimeOfDay(close);
+  if (openMinutes === undefined || closeMinutes === undefined) return undefined;
+  if (openMinutes >= closeMinutes) return undefined;
+
+  return { open: (open as string).trim(), close: (close as string).trim() };
+}
+
+/**
+ * Accepts the stored JSON string or an object. Returns undefined when any day
+ * is missing or invalid.
+ */
+export function parseWeeklyHours(raw: unknown): WeeklyHours | undefined {
+  let value = raw;
+  if (typeof raw === "string") {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!value || typeof value !== "object") return undefined;
+
+  const record = value as Record<string, unknown>;
+  const hours = {} as WeeklyHours;
+  for (const { value: day } of WEEKDAYS) {
+    if (!(day in record)) return undefined;
+    const parsed = normalizeOpeningHours(record[day]);
+    if (parsed === undefined) return undefined;
+    hours[day] = parsed;
+  }
+  return hours;
+}
+
+export function normalizeHolidayInput(raw: {
+  date: unknown;
+  label: unknown;
+  open?: unknown;
+  close?: unknown;
+}): HolidayInput | undefined {
+  if (typeof raw.date !== "string" || !DATE_RE.test(raw.date.trim())) return undefined;
+  if (typeof raw.label !== "string") return undefined;
+
+  const label = raw.label.trim();
+  if (!label || label.length > MAX_HOLIDAY_LABEL_LENGTH) return undefined;
+
+  // Both times empty: closed all day.
+  const open = typeof raw.open === "string" ? raw.open.trim() : "";
+  const close = typeof raw.close === "string" ? raw.close.trim() : "";
+  let hours: OpeningHours | null = null;
+  if (open || close) {
+    const parsed = normalizeOpeningHours({ open, close });
+    if (!parsed) return undefined;
+    hours = parsed;
+  }
+
+  return { date: raw.date.trim(), label, hours };
+}
+
+/**
+ * Calendar date, weekday and minutes since midnight of `now` in `timezone`.
+ */
+export function zonedTimeParts(
+  now: Date,
+  timezone: string
+): { date: string; weekday: Weekday; minutes: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+
+  return {
+    date: `${get("year")}-${get("month")}-${get("day")}`,
+    weekday: get("weekday").toLowerCase().slice(0, 3) as Weekday,
+    minutes: Number(get("hour")) * 60 + Number(get("minute")),
+  };
+}
+
+function isWithin(hours: OpeningHours | null, minutes: number): boolean {
+  if (!hours) return false;
+  const open = parseTimeOfDay(hours.open) ?? 0;
+  const close = parseTimeOfDay(hours.close) ?? 0;
+  return minutes >= open && minutes < close;
+}
+
+/**
+ * Whether the store is open at `now`. A holiday on the local date replaces
+ * that weekday's hours.
+ */
+export function checkBusinessHours(
+  config: BusinessHoursConfig,
+  holidays: HolidayView[],
+  now: Date
+): { open: boolean; holiday?: HolidayView } {
+  if (!config.enabled) return { open: true };
+
+  const local = zonedTimeParts(now, config.timezone);
+  const holiday = holidays.find((h) => h.date === local.date);
+  if (holiday) return { open: isWithin(holiday.hours, local.minutes), holiday };
+
+  return { open: isWithin(config.weeklyHours[local.weekday], local.minutes) };
+}
+
+export function computeAvailability(params: {
+  config: BusinessHoursConfig;
+  holidays: HolidayView[];
+  agentsOnline: number;
+  now: Date;
+}): Availability {
+  const { open, holiday } = checkBusinessHours(params.config, params.holidays, params.now);
+  const reason: AvailabilityReason = !open
+    ? holiday
+      ? "holiday"
+      : "outside_hours"
+    : params.agentsOnline > 0
+      ? "open"
+      : "no_agents";
+
+  return {
+    status: reason === "open" ? "online" : "away",
+    reason,
+    withinHours: open,
+    agentsOnline: params.agentsOnline,
+  };
+}
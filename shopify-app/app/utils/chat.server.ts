@@ -0,0 +1,539 @@
+// app/utils/chat.server.ts
+import type { Conversation, Message, Participant } from "@prisma/client";
+
+import prisma from "../db.server";
+import { MAX_MESSAGE_LENGTH } from "./chat";
+import { buildErrorMetadata, logger } from "./logger.server";
+import { getPubSub } from "./pubsub.server";
+import type { SseEvent } from "./sse.server";
+import { createSseResponse, getLastEventId } from "./sse.server";
+
+// open: bot answers. handoff: waiting for / handled by staff. closed: read-only.
+export type ConversationStatus = "open" | "handoff" | "closed";
+export type ParticipantRole = "customer" | "bot" | "agent";
+
+export const MAX_CONTACT_NAME_LENGTH = 100;
+const MAX_CONTACT_EMAIL_LENGTH = 254;
+export const DEFAULT_MESSAGE_PAGE_SIZE = 50;
+const MAX_MESSAGE_PAGE_SIZE = 100;
+
+// Visitor ids are generated by the storefront widget (crypto.randomUUID()).
+// Keep the accepted charset as conservative as inbound request ids.
+const VISITOR_ID_RE = /^[A-Za-z0-9_-]{8,128}$/;
+// Deliberately loose: the address is only shown to staff and replied to.
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export type ChatMessageView = {
+  id: string;
+  role: ParticipantRole;
+  body: string;
+  createdAt: string;
+};
+
+export type ChatConversationView = {
+  id: string;
+  status: ConversationStatus;
+  createdAt: string;
+};
+
+export type InboxConversationView = ChatConversationView & {
+  customerId: string | null;
+  assignedTo: string | null;
+  handoffAt: string | null;
+  lastMessageAt: string | null;
+  closedAt: string | null;
+  preview: string | null;
+  contactName: string | null;
+  contactEmail: string | null;
+};
+
+/** Left by the shopper via the widget's offline form. */
+export type ConversationContact = {
+  name: string | null;
+  email: string;
+};
+
+// Live updates for a conversation (SSE streams subscribe to its channel).
+export type ChatStreamEvent =
+  | { type: "message"; message: ChatMessageView }
+  | { type: "conversation"; conversation: ChatConversationView };
+
+export type InboxFilter = "open" | "handoff" | "closed";
+
+const INBOX_FILTER_STATUSES: Record<InboxFilter, ConversationStatus[]> = {
+  open: ["open", "handoff"],
+  handoff: ["handoff"],
+  closed: ["closed"],
+};
+
+const INBOX_PAGE_SIZE = 50;
+
+/**
+ * Trims a message body and rejects empty or oversized input.
+ * Returns undefined when the value can't be stored as a message.
+ */
+export function normalizeMessageBody(raw: unknown): string | undefined {
+  if (typeof raw !== "string") return undefined;
+
+  const body = raw.trim();
+  if (!body) return undefined;
+  if (body.length > MAX_MESSAGE_LENGTH) return undefined;
+
+  return body;
+}
+
+export function normalizeVisitorId(raw: unknown): string | undefined {
+  if (typeof raw !== "string") return undefined;
+
+  const v = raw.trim();
+  return VISITOR_ID_RE.test(v) ? v : undefined;
+}
+
+export function normalizeEmail(raw: unknown): string | undefined {
+  if (typeof raw !== "string") return undefined;
+  const email = raw.trim().toLowerCase();
+  return email.length <= MAX_CONTACT_EMAIL_LENGTH && EMAIL_RE.test(email) ? email : undefined;
+}
+
+/**
+ * Validates the offline form's contact fields. The name is optional.
+ */
+export function normalizeContact(raw: {
+  name: unknown;
+  email: unknown;
+}): ConversationContact | undefined {
+  const email = normalizeEmail(raw.email);
+  if (!email) return undefined;
+
+  if (raw.name !== undefined && raw.name !== null && typeof raw.name !== "string") {
+    return undefined;
+  }
+  const name = typeof raw.name === "string" ? raw.name.trim() : "";
+  if (name.length > MAX_CONTACT_NAME_LENGTH) return undefined;
+
+  return { name: name || null, email };
+}
+
+export function normalizePageSize(raw: string | null | undefined): number {
+  const n = raw ? Number.parseInt(raw, 10) : NaN;
+  if (!Number.isFinite(n) || n <= 0) return DEFAULT_MESSAGE_PAGE_SIZE;
+  return Math.min(n, MAX_MESSAGE_PAGE_SIZE);
+}
+
+export function toConversationView(conversation: Conversation): ChatConversationView {
+  return {
+    id: conversation.id,
+    status: conversation.status as ConversationStatus,
+    createdAt: conversation.createdAt.toISOString(),
+  };
+}
+
+export function toMessageView(
+  message: Message & { participant: Participant }
+): ChatMessageView {
+  return {
+    id: message.id,
+    role: message.participant.role as ParticipantRole,
+    body: message.body,
+    createdAt: message.createdAt.toISOString(),
+  };
+}
+
+export function toInboxConversationView(
+  conversation: Conversation & { messages?: Message[] }
+): InboxConversationView {
+  return {
+    ...toConversationView(conversation),
+    customerId: conversation.customerId,
+    assignedTo: conversation.assignedTo,
+    handoffAt: conversation.handoffAt?.toISOString() ?? null,
+    lastMessageAt: conversation.lastMessageAt?.toISOString() ?? null,
+    closedAt: conversation.closedAt?.toISOString() ?? null,
+    preview: conversation.messages?.[0]?.body ?? null,
+    contactName: conversation.contactName,
+    contactEmail: conversation.contactEmail,
+  };
+}
+
+export function conversationChannel(conversationId: string): string {
+  return `conversation:${conversationId}`;
+}
+
+/**
+ * Best effort: the change is already stored, a failed publish only delays
+ * delivery until the client's next reconnect/poll.
+ */
+async function publishChatEvent(conversationId: string, event: ChatStreamEvent) {
+  try {
+    await getPubSub().publish(conversationChannel(conversationId), event);
+  } catch (err: unknown) {
+    logger.error("chat.publish_failed", { conversationId, ...buildErrorMetadata(err) });
+  }
+}
+
+export function normalizeInboxFilter(raw: string | null | undefined): InboxFilter {
+  return raw && raw in INBOX_FILTER_STATUSES ? (raw as InboxFilter) : "open";
+}
+
+/**
+ * Staff may reply to unclaimed conversations (replying claims them) and to
+ * their own. Throws a 409 Response when the reply isn't allowed.
+ */
+export function assertAgentCanReply(conversation: Conversation, staffId: string): void {
+  if (conversation.status === "closed") {
+    throw new Response("Conversation is closed", { status: 409 });
+  }
+  if (conversation.assignedTo && conversation.assignedTo !== staffId) {
+    throw new Response("Conversation is claimed by another staff member", { status: 409 });
+  }
+}
+
+export async function createConversation(params: {
+  merchantId: string;
+  visitorId: string;
+  customerId?: string;
+}): Promise<Conversation> {
+  const conversation = await prisma.conversation.create({
+    data: {
+      merchantId: params.merchantId,
+      status: "open",
+      customerId: params.customerId,
+      participants: {
+        create: { role: "customer", externalId: params.visitorId },
+      },
+    },
+  });
+
+  logger.info("chat.conversation.created", {
+    merchantId: params.merchantId,
+    conversationId: conversation.id,
+    hasCustomerId: Boolean(params.customerId),
+  });
+
+  return conversation;
+}
+
+/**
+ * Loads a conversation scoped to the merchant AND the visitor that started it.
+ * Throws a 404 Response otherwise, so ids can't be probed across shops or visitors.
+ */
+export async function requireVisitorConversation(params: {
+  merchantId: string;
+  conversationId: string;
+  visitorId: string;
+}): Promise<Conversation> {
+  const conversation = await prisma.conversation.findFirst({
+    where: {
+      id: params.conversationId,
+      merchantId: params.merchantId,
+      // Archived by a reinstall: the widget starts a new conversation.
+      archivedAt: null,
+      participants: {
+        some: { role: "customer", externalId: params.visitorId },
+      },
+    },
+  });
+
+  if (!conversation) {
+    throw new Response("Conversation not found", { status: 404 });
+  }
+
+  return conversation;
+}
+
+/**
+ * Admin-side lookup: any conversation of the merchant. Throws 404 otherwise.
+ */
+export async function requireMerchantConversation(params: {
+  merchantId: string;
+  conversationId: string;
+}): Promise<Conversation> {
+  const conversation = await prisma.conversation.findFirst({
+    where: { id: params.conversationId, merchantId: params.merchantId },
+  });
+
+  if (!conversation) {
+    throw new Response("Conversation not found", { status: 404 });
+  }
+
+  return conversation;
+}
+
+export async function listInboxConversations(params: {
+  merchantId: string;
+  filter: InboxFilter;
+}): Promise<InboxConversationView[]> {
+  const conversations = await prisma.conversation.findMany({
+    where: {
+      merchantId: params.merchantId,
+      status: { in: INBOX_FILTER_STATUSES[params.filter] },
+      archivedAt: null,
+    },
+    orderBy: [{ lastMessageAt: "desc" }, { createdAt: "desc" }],
+    take: INBOX_PAGE_SIZE,
+    include: { messages: { orderBy: { createdAt: "desc" }, take: 1 } },
+  });
+
+  return conversations.map(toInboxConversationView);
+}
+
+/**
+ * Moves an open conversation to staff. No-op for conversations already
+ * handed off or closed.
+ */
+export async function requestHandoff(params: {
+  conversation: Conversation;
+  reason: string;
+}): Promise<Conversation> {
+  if (params.conversation.status !== "open") return params.conversation;
+
+  const conversation = await prisma.conversation.update({
+    where: { id: params.conversation.id },
+    data: { status: "handoff", handoffAt: new Date() },
+  });
+
+  logger.info("chat.conversation.handoff", {
+    merchantId: conversation.merchantId,
+    conversationId: conversation.id,
+    reason: params.reason,
+  });
+
+  await publishChatEvent(conversation.id, {
+    type: "conversation",
+    conversation: toConversationView(conversation),
+  });
+
+  return conversation;
+}
+
+/**
+ * Assigns the conversation to a staff member (Shopify user id). Claiming an
+ * open conversation also takes it away from the bot.
+ */
+export async function claimConversation(params: {
+  conversation: Conversation;
+  staffId: string;
+}): Promise<Conversation> {
+  if (params.conversation.status === "closed") {
+    throw new Response("Conversation is closed", { status: 409 });
+  }
+
+  const now = new Date();
+  const conversation = await prisma.conversation.update({
+    where: { id: params.conversation.id },
+    data: {
+      status: "handoff",
+      handoffAt: params.conversation.handoffAt ?? now,
+      assignedTo: params.staffId,
+      assignedAt: now,
+    },
+  });
+
+  logger.info("chat.conversation.claimed", {
+    merchantId: conversation.merchantId,
+    conversationId: conversation.id,
+    reassigned: Boolean(
+      params.conversation.assignedTo && params.conversation.assignedTo !== params.staffId
+    ),
+  });
+
+  await publishChatEvent(conversation.id, {
+    type: "conversation",
+    conversation: toConversationView(conversation),
+  });
+
+  return conversation;
+}
+
+export async function closeConversation(params: {
+  conversation: Conversation;
+  closedBy: ParticipantRole;
+}): Promise<Conversation> {
+  if (params.conversation.status === "closed") return params.conversation;
+
+  const conversation = await prisma.conversation.update({
+    where: { id: params.conversation.id },
+    data: { status: "closed", closedAt: new Date() },
+  });
+
+  logger.info("chat.conversation.closed", {
+    merchantId: conversation.merchantId,
+    conversationId: conversation.id,
+    closedBy: params.closedBy,
+  });
+
+  await publishChatEvent(conversation.id, {
+    type: "conversation",
+    conversation: toConversationView(conversation),
+  });
+
+  return conversation;
+}
+
+/**
+ * Stores the shopper's contact details from the offline form so staff can
+ * follow up after hours.
+ */
+export async function saveConversationContact(params: {
+  conversation: Conversation;
+  contact: ConversationContact;
+}): Promise<Conversation> {
+  const conversation = await prisma.conversation.update({
+    where: { id: params.conversation.id },
+    data: { contactName: params.contact.name, contactEmail: params.contact.email },
+  });
+
+  logger.info("chat.conversation.contact_saved", {
+    merchantId: conversation.merchantId,
+    conversationId: conversation.id,
+  });
+
+  return conversation;
+}
+
+async function findOrCreateParticipant(params: {
+  conversationId: string;
+  role: ParticipantRole;
+  externalId?: string;
+  displayName?: string;
+}): Promise<Participant> {
+  const existing = await prisma.participant.findFirst({
+    where: {
+      conversationId: params.conversationId,
+      role: params.role,
+      externalId: params.externalId ?? null,
+    },
+  });
+
+  if (existing) return existing;
+
+  return prisma.participant.create({
+    data: {
+      conversationId: params.conversationId,
+      role: params.role,
+      externalId: params.externalId,
+      displayName: params.displayName,
+    },
+  });
+}
+
+export async function appendMessage(params: {
+  conversation: Conversation;
+  role: ParticipantRole;
+  body: string;
+  externalId?: string;
+  displayName?: string;
+}): Promise<ChatMessageView> {
+  if (params.conversation.status === "closed") {
+    throw new Response("Conversation is closed", { status: 409 });
+  }
+
+  const participant = await findOrCreateParticipant({
+    conversationId: params.conversation.id,
+    role: params.role,
+    externalId: params.externalId,
+    displayName: params.displayName,
+  });
+
+  const now = new Date();
+  const [message] = await prisma.$transaction([
+    prisma.message.create({
+      data: {
+        conversationId: params.conversation.id,
+        participantId: participant.id,
+        body: params.body,
+        createdAt: now,
+      },
+      include: { participant: true },
+    }),
+    prisma.conversation.update({
+      where: { id: params.conversation.id },
+      data: { lastMessageAt: now },
+    }),
+  ]);
+
+  const view = toMessageView(message);
+  await publishChatEvent(params.conversation.id, { type: "message", message: view });
+
+  return view;
+}
+
+/**
+ * Lists messages oldest-first. `after` is a message id cursor: only messages
+ * created after it are returned (used by the widget to fetch new messages).
+ */
+export async function listMessages(params: {
+  conversationId: string;
+  after?: string;
+  limit?: number;
+}): Promise<ChatMessageView[]> {
+  const messages = await prisma.message.findMany({
+    where: { conversationId: params.conversationId },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+    take: params.limit ?? DEFAULT_MESSAGE_PAGE_SIZE,
+    include: { participant: true },
+    ...(params.after ? { cursor: { id: params.after }, skip: 1 } : {}),
+  });
+
+  return messages.map(toMessageView);
+}
+
+/**
+ * Latest `limit` messages, returned oldest-first (conversation context for replies).
+ */
+export async function listRecentMessages(params: {
+  conversationId: string;
+  limit: number;
+}): Promise<ChatMessageView[]> {
+  const messages = await prisma.message.findMany({
+    where: { conversationId: params.conversationId },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: params.limit,
+    include: { participant: true },
+  });
+
+  return messages.reverse().map(toMessageView);
+}
+
+function toSseEvent(event: ChatStreamEvent): SseEvent {
+  return event.type === "message"
+    ? { id: event.message.id, event: "message", data: event.message }
+    : { event: "conversation", data: event.conversation };
+}
+
+/**
+ * SSE stream of a conversation's messages and status changes. Message ids are
+ * event ids, so a reconnect replays everything after Last-Event-ID.
+ */
+export function streamConversation(params: {
+  request: Request;
+  requestId: string;
+  conversation: Conversation;
+  audience: "visitor" | "staff";
+}): Response {
+  const lastEventId = getLastEventId(params.request);
+
+  return createSseResponse({
+    request: params.request,
+    requestId: params.requestId,
+    logContext: {
+      merchantId: params.conversation.merchantId,
+      conversationId: params.conversation.id,
+      audience: params.audience,
+    },
+    subscribe: (send) =>
+      getPubSub().subscribe(conversationChannel(params.conversation.id), (payload) =>
+        send(toSseEvent(payload as ChatStreamEvent))
+      ),
+    replay: lastEventId
+      ? async () => {
+          const messages = await listMessages({
+            conversationId: params.conversation.id,
+            after: lastEventId,
+            limit: MAX_MESSAGE_PAGE_SIZE,
+          });
+          return messages.map((message) => toSseEvent({ type: "message", message }));
+        }
+      : undefined,
+  });
+}
@@ -0,0 +1,6 @@
+// app/utils/chat.ts
+//
+// Message limits shared by the server, the admin inbox and follow-ups pages
+// and the ChatWidget component (no server-only imports here).
+
+export const MAX_MESSAGE_LENGTH = 2000;
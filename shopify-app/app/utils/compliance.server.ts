@@ -0,0 +1,428 @@
+// app/utils/compliance.server.ts
+//
+// Mandatory GDPR webhooks (customers/data_request, customers/redact,
+// shop/redact). The webhook only records a ComplianceRequest and queues a
+// "compliance.request" job, so Shopify gets its 200 quickly and failed runs
+// are retried. Every step is audit-logged through logEvent.
+import type { ComplianceRequest } from "@prisma/client";
+
+import prisma from "../db.server";
+import { adminGraphql } from "./admin-graphql.server";
+import { enqueueJob } from "./jobs.server";
+import { buildErrorMetadata, logEvent } from "./logger.server";
+import { enqueueNotification, scheduleNotificationDelivery } from "./notifications.server";
+import { getOfflineAdmin } from "./offline-tokens.server";
+
+export type ComplianceTopic = "customers/data_request" | "customers/redact" | "shop/redact";
+export type ComplianceStatus = "pending" | "running" | "completed" | "failed";
+
+export const COMPLIANCE_TOPICS: ComplianceTopic[] = [
+  "customers/data_request",
+  "customers/redact",
+  "shop/redact",
+];
+
+// Shop data is kept this long after shop/redact, then purged.
+export const SHOP_PURGE_DELAY_MS = 48 * 60 * 60_000;
+export const MAX_COMPLIANCE_ATTEMPTS = 8;
+const MAX_ERROR_LENGTH = 500;
+
+export type CompliancePayload = {
+  shopDomain: string;
+  shopId?: string;
+  customerId?: string;
+  customerEmail?: string;
+};
+
+export type CustomerRef = { customerId?: string; customerEmail?: string };
+
+export type CustomerDataExport = {
+  customerId: string | null;
+  conversations: Array<{
+    id: string;
+    status: string;
+    createdAt: string;
+    contactName: string | null;
+    contactEmail: string | null;
+    messages: Array<{ role: string; body: string; createdAt: string }>;
+  }>;
+  followUps: Array<{
+    id: string;
+    conversationId: string;
+    name: string | null;
+    email: string;
+    question: string;
+    createdAt: string;
+  }>;
+};
+
+export function isComplianceTopic(topic: string | null | undefined): topic is ComplianceTopic {
+  return COMPLIANCE_TOPICS.includes(topic as ComplianceTopic);
+}
+
+function idString(value: unknown): string | undefined {
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  if (typeof value === "string" && /^\d+$/.test(value.trim())) return value.trim();
+  return undefined;
+}
+
+/**
+ * Pulls the fields we act on from a compliance webhook body. Returns
+ * undefined when the shop domain is missing.
+ */
+export function parseCompliancePayload(
+  topic: ComplianceTopic,
+  raw: unknown
+): CompliancePayload | undefined {
+  if (!raw || typeof raw !== "object") return undefined;
+  const body = raw as Record<string, unknown>;
+
+  const shopDomain = typeof body.shop_domain === "string" ? body.shop_domain.trim() : "";
+  if (!shopDomain) return undefined;
+
+  const payload: CompliancePayload = { shopDomain, shopId: idString(body.shop_id) };
+  if (topic === "shop/redact") return payload;
+
+  const customer =
+    body.customer && typeof body.customer === "object"
+      ? (body.customer as Record<string, unknown>)
+      : {};
+  payload.customerId = idString(customer.id);
+  if (typeof customer.email === "string" && customer.email.trim()) {
+    payload.customerEmail = customer.email.trim().toLowerCase();
+  }
+  return payload;
+}
+
+function customerConversationFilter(merchantId: string, customer: CustomerRef) {
+  const or: Array<Record<string, unknown>> = [];
+  if (customer.customerId) or.push({ customerId: customer.customerId });
+  if (customer.customerEmail) {
+    or.push({ contactEmail: customer.customerEmail });
+    or.push({ followUp: { email: customer.customerEmail } });
+  }
+  // Nothing identifies the customer: match nothing rather than everything.
+  return or.length ? { merchantId, OR: or } : { merchantId, id: { in: [] as string[] } };
+}
+
+// Exports sent for earlier data requests hold the customer's transcripts.
+function customerExportFilter(merchantId: string, customer: CustomerRef) {
+  const or: Array<Record<string, unknown>> = [];
+  if (customer.customerId) or.push({ customerId: customer.customerId });
+  if (customer.customerEmail) or.push({ customerEmail: customer.customerEmail });
+  return or.length
+    ? { merchantId, kind: "data_request_export", OR: or }
+    : { merchantId, id: { in: [] as string[] } };
+}
+
+export async function exportCustomerData(params: {
+  merchantId: string;
+  customer: CustomerRef;
+}): Promise<CustomerDataExport> {
+  const conversations = await prisma.conversation.findMany({
+    where: customerConversationFilter(params.merchantId, params.customer),
+    orderBy: { createdAt: "asc" },
+    include: {
+      messages: { orderBy: { createdAt: "asc" }, include: { participant: true } },
+      followUp: true,
+    },
+  });
+
+  return {
+    customerId: params.customer.customerId ?? null,
+    conversations: conversations.map((c) => ({
+      id: c.id,
+      status: c.status,
+      createdAt: c.createdAt.toISOString(),
+      contactName: c.contactName,
+      contactEmail: c.contactEmail,
+      messages: c.messages.map((m) => ({
+        role: m.participant.role,
+        body: m.body,
+        createdAt: m.createdAt.toISOString(),
+      })),
+    })),
+    followUps: conversations.flatMap((c) =>
+      c.followUp
+        ? [
+            {
+              id: c.followUp.id,
+              conversationId: c.id,
+              name: c.followUp.name,
+              email: c.followUp.email,
+              question: c.followUp.question,
+              createdAt: c.followUp.createdAt.toISOString(),
+            },
+          ]
+        : []
+    ),
+  };
+}
+
+export function formatCustomerExportEmail(params: {
+  to: string;
+  shopDomain: string;
+  data: CustomerDataExport;
+}) {
+  return {
+    to: params.to,
+    subject: `Customer data request for ${params.shopDomain}`,
+    text: [
+      "Shopify forwarded a customer data request to Astra Chat. This is",
+      "everything Astra stores about the customer. Please pass it on to them.",
+      "",
+      JSON.stringify(params.data, null, 2),
+    ].join("\n"),
+  };
+}
+
+export async function redactCustomerData(params: {
+  merchantId: string;
+  customer: CustomerRef;
+}): Promise<{ conversations: number; exports: number }> {
+  const conversations = await prisma.conversation.findMany({
+    where: customerConversationFilter(params.merchantId, params.customer),
+    select: { id: true },
+  });
+  const ids = conversations.map((c) => c.id);
+
+  // Messages and participants cascade with their conversation. Exports go
+  // even when the conversations are already gone.
+  const [exports] = await prisma.$transaction([
+    prisma.outboundNotification.deleteMany({
+      where: customerExportFilter(params.merchantId, params.customer),
+    }),
+    prisma.outboundNotification.deleteMany({
+      where: { followUp: { conversationId: { in: ids } } },
+    }),
+    prisma.followUp.deleteMany({ where: { conversationId: { in: ids } } }),
+    prisma.conversation.deleteMany({ where: { id: { in: ids } } }),
+  ]);
+
+  return { conversations: ids.length, exports: exports.count };
+}
+
+/**
+ * Deletes everything stored for the shop: sessions, the Merchant row and all
+ * data hanging off it. Skipped when the shop has reinstalled since.
+ */
+export async function purgeShopData(params: {
+  shopDomain: string;
+}): Promise<{ purged: boolean; conversations: number }> {
+  const { shopDomain } = params;
+  const merchant = await prisma.merchant.findUnique({ where: { shopDomain } });
+
+  if (merchant && merchant.status !== "uninstalled") {
+    return { purged: false, conversations: 0 };
+  }
+
+  const merchantId = merchant?.merchantId;
+  const [conversations] = await prisma.$transaction([
+    prisma.conversation.count({ where: { merchantId: merchantId ?? "" } }),
+    ...(merchantId
+      ? [
+          prisma.outboundNotification.deleteMany({ where: { merchantId } }),
+          prisma.followUp.deleteMany({ where: { merchantId } }),
+          prisma.conversation.deleteMany({ where: { merchantId } }),
+          prisma.knowledgeEntry.deleteMany({ where: { merchantId } }),
+          prisma.widgetSettings.deleteMany({ where: { merchantId } }),
+          prisma.businessHours.deleteMany({ where: { merchantId } }),
+          prisma.holidayException.deleteMany({ where: { merchantId } }),
+          prisma.agentPresence.deleteMany({ where: { merchantId } }),
+          prisma.merchantWebhook.deleteMany({ where: { merchantId } }),
+          prisma.merchantStatusEvent.deleteMany({ where: { merchantId } }),
+          prisma.widgetEvent.deleteMany({ where: { merchantId } }),
+          prisma.merchantSettingsArchive.deleteMany({ where: { merchantId } }),
+          prisma.merchant.deleteMany({ where: { merchantId } }),
+        ]
+      : []),
+    prisma.session.deleteMany({ where: { shop: shopDomain } }),
+    // Ledger rows keep raw payloads (app/uninstalled carries shop contact data).
+    prisma.processedWebhook.deleteMany({ where: { shopDomain } }),
+    // Earlier requests keep their audit rows, minus the customer identifiers.
+    prisma.complianceRequest.updateMany({
+      where: { shopDomain },
+      data: { customerId: null, customerEmail: null },
+    }),
+  ]);
+
+  return { purged: true, conversations };
+}
+
+async function fetchShopEmail(shopDomain: string): Promise<string | undefined> {
+  const { admin } = await getOfflineAdmin(shopDomain);
+  const { data } = await adminGraphql<{ shop?: { email?: string | null } }>(
+    admin,
+    `
+      query ShopEmail {
+        shop {
+          email
+        }
+      }
+    `
+  );
+  return data.shop?.email ?? undefined;
+}
+
+/**
+ * Records a compliance webhook. Redeliveries of the same webhook return the
+ * existing request instead of queueing the work twice.
+ */
+export async function recordComplianceRequest(params: {
+  topic: ComplianceTopic;
+  payload: CompliancePayload;
+  webhookId?: string;
+  now?: Date;
+}): Promise<ComplianceRequest> {
+  const { topic, payload, webhookId } = params;
+  const now = params.now ?? new Date();
+
+  if (webhookId) {
+    const existing = await prisma.complianceRequest.findFirst({ where: { webhookId, topic } });
+    if (existing) return existing;
+  }
+
+  const merchant = await prisma.merchant.findUnique({
+    where: { shopDomain: payload.shopDomain },
+    select: { merchantId: true },
+  });
+
+  const request = await prisma.complianceRequest.create({
+    data: {
+      topic,
+      shopDomain: payload.shopDomain,
+      merchantId: merchant?.merchantId ?? payload.shopId,
+      webhookId,
+      customerId: payload.customerId,
+      customerEmail: payload.customerEmail,
+      runAfter: topic === "shop/redact" ? new Date(now.getTime() + SHOP_PURGE_DELAY_MS) : now,
+    },
+  });
+
+  await enqueueJob(
+    "compliance.request",
+    { complianceRequestId: request.id },
+    { runAt: request.runAfter, maxAttempts: MAX_COMPLIANCE_ATTEMPTS }
+  );
+
+  logEvent("Compliance request recorded", {
+    eventType: "compliance_request",
+    outcome: "success",
+    shopDomain: payload.shopDomain,
+    merchantId: request.merchantId ?? undefined,
+    topic,
+    webhookId,
+    complianceRequestId: request.id,
+    runAfter: request.runAfter.toISOString(),
+  });
+
+  return request;
+}
+
+async function runComplianceRequest(request: ComplianceRequest): Promise<Record<string, unknown>> {
+  const customer: CustomerRef = {
+    customerId: request.customerId ?? undefined,
+    customerEmail: request.customerEmail ?? undefined,
+  };
+  const merchant = await prisma.merchant.findUnique({
+    where: { shopDomain: request.shopDomain },
+  });
+
+  if (request.topic === "shop/redact") {
+    return purgeShopData({ shopDomain: request.shopDomain });
+  }
+
+  // Nothing stored for an unknown shop.
+  if (!merchant) return { merchantFound: false };
+
+  if (request.topic === "customers/redact") {
+    return redactCustomerData({ merchantId: merchant.merchantId, customer });
+  }
+
+  const data = await exportCustomerData({ merchantId: merchant.merchantId, customer });
+  const to = merchant.notificationEmail ?? (await fetchShopEmail(request.shopDomain));
+  if (!to) throw new Error("No recipient for the data request export");
+
+  await enqueueNotification({
+    merchantId: merchant.merchantId,
+    kind: "data_request_export",
+    email: formatCustomerExportEmail({ to, shopDomain: request.shopDomain, data }),
+    customer,
+  });
+  scheduleNotificationDelivery();
+
+  return {
+    conversations: data.conversations.length,
+    followUps: data.followUps.length,
+  };
+}
+
+/**
+ * Body of the "compliance.request" job. Mirrors the job's progress onto the
+ * ComplianceRequest row (the audit record) and rethrows so the job retries.
+ */
+export async function processComplianceRequest(params: {
+  id: string;
+  attempt: number;
+  isLastAttempt: boolean;
+}): Promise<void> {
+  const request = await prisma.complianceRequest.findUnique({ where: { id: params.id } });
+  if (!request || request.status === "completed") return;
+
+  await prisma.complianceRequest.update({
+    where: { id: request.id },
+    data: { status: "running", attempts: params.attempt },
+  });
+
+  const started = Date.now();
+  const audit = {
+    shopDomain: request.shopDomain,
+    merchantId: request.merchantId ?? undefined,
+    topic: request.topic,
+    complianceRequestId: request.id,
+    attempts: params.attempt,
+  };
+
+  try {
+    const result = await runComplianceRequest(request);
+    await prisma.complianceRequest.update({
+      where: { id: request.id },
+      data: {
+        status: "completed",
+        completedAt: new Date(),
+        lastError: null,
+        result: JSON.stringify(result),
+        customerId: null,
+        customerEmail: null,
+      },
+    });
+
+    logEvent("Compliance request completed", {
+      eventType: "compliance_request",
+      outcome: "success",
+      durationMs: Date.now() - started,
+      ...audit,
+      ...result,
+    });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    await prisma.complianceRequest.update({
+      where: { id: request.id },
+      data: {
+        status: params.isLastAttempt ? "failed" : "pending",
+        lastError: message.slice(0, MAX_ERROR_LENGTH),
+      },
+    });
+
+    logEvent("Compliance request failed", {
+      eventType: "compliance_request",
+      outcome: "failure",
+      durationMs: Date.now() - started,
+      giveUp: params.isLastAttempt,
+      ...audit,
+      ...buildErrorMetadata(err),
+    });
+
+    throw err;
+  }
+}
@@ -0,0 +1,122 @@
+// app/utils/dashboard.server.ts
+//
+// Per-merchant aggregates for the admin home page. Days follow the
+// merchant's business hours timezone.
+import prisma from "../db.server";
+import { zonedTimeParts } from "./availability";
+import { getBusinessHours } from "./availability.server";
+import type { DailyCount, DashboardMetrics, DashboardRange } from "./dashboard";
+import { addDays, listDates, median, resolveDashboardRange } from "./dashboard";
+import type { QuickAction } from "./widget-settings";
+
+/** The instant `date` starts in `timezone`. */
+export function startOfZonedDay(date: string, timezone: string): Date {
+  const utcMidnight = Date.parse(`${date}T00:00:00Z`);
+  let start = utcMidnight;
+
+  // Two passes settle days whose offset differs from the previous day's (DST).
+  for (let pass = 0; pass < 2; pass += 1) {
+    const local = zonedTimeParts(new Date(start), timezone);
+    const localAsUtc = Date.parse(`${local.date}T00:00:00Z`) + local.minutes * 60_000;
+    start = utcMidnight - (localAsUtc - start);
+  }
+
+  return new Date(start);
+}
+
+/** Zero-filled counts per day of `range`; dates outside it are ignored. */
+export function countByDay(
+  timestamps: Date[],
+  range: Pick<DashboardRange, "from" | "to">,
+  timezone: string
+): DailyCount[] {
+  const counts = new Map(listDates(range.from, range.to).map((date) => [date, 0]));
+
+  for (const timestamp of timestamps) {
+    const { date } = zonedTimeParts(timestamp, timezone);
+    const count = counts.get(date);
+    if (count !== undefined) counts.set(date, count + 1);
+  }
+
+  return Array.from(counts, ([date, count]) => ({ date, count }));
+}
+
+export async function resolveMerchantDashboardRange(
+  merchantId: string,
+  searchParams: URLSearchParams,
+  now: Date = new Date()
+): Promise<{ range: DashboardRange; timezone: string }> {
+  const { timezone } = await getBusinessHours(merchantId);
+  const range = resolveDashboardRange(
+    {
+      range: searchParams.get("range"),
+      from: searchParams.get("from"),
+      to: searchParams.get("to"),
+    },
+    zonedTimeParts(now, timezone).date
+  );
+
+  return { range, timezone };
+}
+
+export async function getDashboardMetrics(params: {
+  merchantId: string;
+  range: DashboardRange;
+  timezone: string;
+}): Promise<DashboardMetrics> {
+  const { merchantId, range, timezone } = params;
+  const createdAt = {
+    gte: startOfZonedDay(range.from, timezone),
+    lt: startOfZonedDay(addDays(range.to, 1), timezone),
+  };
+
+  // Archived conversations belong to a previous install.
+  const [conversations, handoffs, widgetOpens, quickActions] = await Promise.all([
+    prisma.conversation.findMany({
+      where: { merchantId, archivedAt: null, createdAt },
+      select: { createdAt: true, handoffAt: true },
+    }),
+    prisma.conversation.findMany({
+      where: { merchantId, archivedAt: null, createdAt, handoffAt: { not: null } },
+      select: {
+        handoffAt: true,
+        messages: {
+          where: { participant: { role: "agent" } },
+          orderBy: { createdAt: "asc" },
+          take: 1,
+          select: { createdAt: true },
+        },
+      },
+    }),
+    prisma.widgetEvent.count({ where: { merchantId, type: "widget_open", createdAt } }),
+    prisma.widgetEvent.groupBy({
+      by: ["action"],
+      where: { merchantId, type: "quick_action", createdAt },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const handedOff = conversations.filter((c) => c.handoffAt).length;
+  const firstResponseTimes = handoffs.flatMap(({ handoffAt, messages }) =>
+    handoffAt && messages[0] ? [messages[0].createdAt.getTime() - handoffAt.getTime()] : []
+  );
+
+  return {
+    range,
+    timezone,
+    conversations: conversations.length,
+    conversationsByDay: countByDay(
+      conversations.map((c) => c.createdAt),
+      range,
+      timezone
+    ),
+    botResolved: conversations.length - handedOff,
+    handedOff,
+    medianFirstResponseMs: median(firstResponseTimes.filter((ms) => ms >= 0)),
+    widgetOpens,
+    topQuickActions: quickActions
+      .filter((row) => row.action)
+      .map((row) => ({ action: row.action as QuickAction, count: row._count._all }))
+      .sort((a, b) => b.count - a.count),
+  };
+}
@@ -0,0 +1,127 @@
+// app/utils/dashboard.ts
+//
+// Dashboard date ranges and metric formatting, shared by the server and the
+// admin home page (no server-only imports here). Dates are YYYY-MM-DD in the
+// merchant's business timezone.
+import type { QuickAction } from "./widget-settings";
+
+export type DashboardPreset = "7d" | "30d" | "90d";
+
+export const DASHBOARD_PRESETS: Array<{ value: DashboardPreset; label: string; days: number }> = [
+  { value: "7d", label: "Last 7 days", days: 7 },
+  { value: "30d", label: "Last 30 days", days: 30 },
+  { value: "90d", label: "Last 90 days", days: 90 },
+];
+
+// Last 30 days
+const DEFAULT_PRESET = DASHBOARD_PRESETS[1];
+export const MAX_DASHBOARD_DAYS = 366;
+
+/** Inclusive; `preset` is null for a custom range. */
+export type DashboardRange = { from: string; to: string; preset: DashboardPreset | null };
+
+export type DailyCount = { date: string; count: number };
+
+export type QuickActionCount = { action: QuickAction; count: number };
+
+export type DashboardMetrics = {
+  range: DashboardRange;
+  timezone: string;
+  conversations: number;
+  /** One entry per day of the range, zeros included. */
+  conversationsByDay: DailyCount[];
+  /** Never handed off to staff. */
+  botResolved: number;
+  handedOff: number;
+  /** Handoff to first staff reply; null when no handed-off conversation got one. */
+  medianFirstResponseMs: number | null;
+  widgetOpens: number;
+  /** Most used first. */
+  topQuickActions: QuickActionCount[];
+};
+
+const DATE_RE = /^\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01])$/;
+const DAY_MS = 24 * 60 * 60_000;
+
+function parseDate(value: unknown): number | undefined {
+  if (typeof value !== "string" || !DATE_RE.test(value)) return undefined;
+  const ms = Date.parse(`${value}T00:00:00Z`);
+  // Rejects dates like 2026-02-31, which Date.parse rolls over.
+  return Number.isNaN(ms) || new Date(ms).toISOString().slice(0, 10) !== value ? undefined : ms;
+}
+
+export function addDays(date: string, days: number): string {
+  const ms = parseDate(date);
+  if (ms === undefined) throw new Error(`Invalid date: ${date}`);
+  return new Date(ms + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+export function listDates(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = addDays(date, 1)) dates.push(date);
+  return dates;
+}
+
+/**
+ * `?range=7d|30d|90d` or a custom `?from=&to=` (at most MAX_DASHBOARD_DAYS,
+ * not after today). Anything invalid falls back to the default preset.
+ */
+export function resolveDashboardRange(
+  params: { range?: string | null; from?: string | null; to?: string | null },
+  today: string
+): DashboardRange {
+  const from = parseDate(params.from);
+  const to = parseDate(params.to);
+  const todayMs = parseDate(today) ?? Date.now();
+
+  if (
+    from !== undefined &&
+    to !== undefined &&
+    from <= to &&
+    to <= todayMs &&
+    (to - from) / DAY_MS < MAX_DASHBOARD_DAYS
+  ) {
+    return { from: params.from as string, to: params.to as string, preset: null };
+  }
+
+  const preset = DASHBOARD_PRESETS.find((p) => p.value === params.range) ?? DEFAULT_PRESET;
+  return { from: addDays(today, 1 - preset.days), to: today, preset: preset.value };
+}
+
+export function median(values: number[]): number | null {
+  if (!values.length) return null;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** "45s", "12m", "3h 5m", "2d 4h". */
+export function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
+
+/** "42%"; "–" without a total. */
+export function formatRate(part: number, total: number): string {
+  return total ? `${Math.round((part / total) * 100)}%` : "–";
+}
+
+/** Sums daily counts into consecutive `size`-day buckets, each dated by its first day. */
+export function groupDailyCounts(days: DailyCount[], size: number): DailyCount[] {
+  const groups: DailyCount[] = [];
+  for (let i = 0; i < days.length; i += size) {
+    const chunk = days.slice(i, i + size);
+    groups.push({ date: chunk[0].date, count: chunk.reduce((n, day) => n + day.count, 0) });
+  }
+  return groups;
+}
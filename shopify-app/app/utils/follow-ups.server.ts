@@ -0,0 +1,273 @@
+// app/utils/follow-ups.server.ts
+//
+// Questions left through the widget's offline form. Each conversation has at
+// most one follow-up; staff answer it by email from the follow-ups page.
+import type { Conversation, FollowUp, OutboundNotification } from "@prisma/client";
+
+import prisma from "../db.server";
+import type { ConversationContact } from "./chat.server";
+import { appendMessage } from "./chat.server";
+import { logger } from "./logger.server";
+import type { NotificationStatus, OutboundEmail } from "./notifications.server";
+import { enqueueNotification, scheduleNotificationDelivery } from "./notifications.server";
+
+export type FollowUpStatus = "pending" | "resolved";
+
+export type FollowUpView = {
+  id: string;
+  conversationId: string;
+  name: string | null;
+  email: string;
+  question: string;
+  status: FollowUpStatus;
+  createdAt: string;
+  resolvedAt: string | null;
+  /** Latest email sent to the shopper, if any. */
+  reply: { status: NotificationStatus; createdAt: string } | null;
+};
+
+const FOLLOW_UP_PAGE_SIZE = 50;
+
+export function toFollowUpView(
+  followUp: FollowUp & { notifications?: OutboundNotification[] }
+): FollowUpView {
+  const reply = followUp.notifications?.find((n) => n.kind === "follow_up_reply");
+
+  return {
+    id: followUp.id,
+    conversationId: followUp.conversationId,
+    name: followUp.name,
+    email: followUp.email,
+    question: followUp.question,
+    status: followUp.status as FollowUpStatus,
+    createdAt: followUp.createdAt.toISOString(),
+    resolvedAt: followUp.resolvedAt?.toISOString() ?? null,
+    reply: reply
+      ? { status: reply.status as NotificationStatus, createdAt: reply.createdAt.toISOString() }
+      : null,
+  };
+}
+
+export function normalizeFollowUpStatus(raw: string | null | undefined): FollowUpStatus {
+  return raw === "resolved" ? "resolved" : "pending";
+}
+
+export function buildFollowUpAlertEmail(params: {
+  to: string;
+  followUp: Pick<FollowUp, "name" | "email" | "question">;
+  followUpsUrl: string;
+}): OutboundEmail {
+  const from = params.followUp.name
+    ? `${params.followUp.name} <${params.followUp.email}>`
+    : params.followUp.email;
+
+  return {
+    to: params.to,
+    subject: `New question from ${params.followUp.name ?? params.followUp.email}`,
+    text: [
+      `${from} left a question while your team was away:`,
+      "",
+      params.followUp.question,
+      "",
+      `Reply from Astra: ${params.followUpsUrl}`,
+    ].join("\n"),
+  };
+}
+
+export function buildFollowUpReplyEmail(params: {
+  brandName: string;
+  followUp: Pick<FollowUp, "name" | "email" | "question">;
+  reply: string;
+}): OutboundEmail {
+  const quoted = params.followUp.question
+    .split("\n")
+    .map((line) => `> ${line}`)
+    .join("\n");
+
+  return {
+    to: params.followUp.email,
+    subject: `Re: your question to ${params.brandName}`,
+    text: [
+      params.followUp.name ? `Hi ${params.followUp.name},` : "Hi,",
+      "",
+      params.reply,
+      "",
+      `— ${params.brandName}`,
+      "",
+      quoted,
+    ].join("\n"),
+  };
+}
+
+function followUpsUrl(shopDomain: string): string {
+  const appUrl = (process.env.SHOPIFY_APP_URL ?? "").replace(/\/+$/, "");
+  return `${appUrl}/app/follow-ups?shop=${encodeURIComponent(shopDomain)}`;
+}
+
+/**
+ * Creates the conversation's follow-up, or reopens it with the newer question,
+ * and alerts the merchant when a notification email is set.
+ */
+export async function recordFollowUp(params: {
+  merchant: { merchantId: string; shopDomain: string; notificationEmail: string | null };
+  conversation: Conversation;
+  contact: ConversationContact;
+  question: string;
+}): Promise<FollowUp> {
+  const { merchant, conversation, contact } = params;
+  const data = {
+    name: contact.name,
+    email: contact.email,
+    question: params.question,
+    status: "pending",
+    resolvedAt: null,
+    resolvedBy: null,
+  };
+
+  const followUp = await prisma.followUp.upsert({
+    where: { conversationId: conversation.id },
+    create: { merchantId: merchant.merchantId, conversationId: conversation.id, ...data },
+    update: data,
+  });
+
+  logger.info("follow_ups.recorded", {
+    merchantId: merchant.merchantId,
+    conversationId: conversation.id,
+    followUpId: followUp.id,
+  });
+
+  if (merchant.notificationEmail) {
+    await enqueueNotification({
+      merchantId: merchant.merchantId,
+      followUpId: followUp.id,
+      kind: "follow_up_alert",
+      email: buildFollowUpAlertEmail({
+        to: merchant.notificationEmail,
+        followUp,
+        followUpsUrl: followUpsUrl(merchant.shopDomain),
+      }),
+    });
+    scheduleNotificationDelivery();
+  }
+
+  return followUp;
+}
+
+export async function listFollowUps(params: {
+  merchantId: string;
+  status: FollowUpStatus;
+}): Promise<FollowUpView[]> {
+  const followUps = await prisma.followUp.findMany({
+    where: {
+      merchantId: params.merchantId,
+      status: params.status,
+      conversation: { archivedAt: null },
+    },
+    orderBy: { updatedAt: params.status === "pending" ? "asc" : "desc" },
+    take: FOLLOW_UP_PAGE_SIZE,
+    include: {
+      notifications: {
+        where: { kind: "follow_up_reply" },
+        orderBy: { createdAt: "desc" },
+        take: 1,
+      },
+    },
+  });
+
+  return followUps.map(toFollowUpView);
+}
+
+export async function countPendingFollowUps(merchantId: string): Promise<number> {
+  return prisma.followUp.count({
+    where: { merchantId, status: "pending", conversation: { archivedAt: null } },
+  });
+}
+
+/**
+ * Loads a follow-up (with its conversation) owned by the merchant. Throws 404 otherwise.
+ */
+export async function requireMerchantFollowUp(params: {
+  merchantId: string;
+  id: string;
+}): Promise<FollowUp & { conversation: Conversation }> {
+  const followUp = await prisma.followUp.findFirst({
+    where: { id: params.id, merchantId: params.merchantId },
+    include: { conversation: true },
+  });
+
+  if (!followUp) {
+    throw new Response("Follow-up not found", { status: 404 });
+  }
+
+  return followUp;
+}
+
+export async function resolveFollowUp(params: {
+  followUp: FollowUp;
+  staffId: string;
+}): Promise<FollowUp> {
+  if (params.followUp.status === "resolved") return params.followUp;
+
+  const followUp = await prisma.followUp.update({
+    where: { id: params.followUp.id },
+    data: { status: "resolved", resolvedAt: new Date(), resolvedBy: params.staffId },
+  });
+
+  logger.info("follow_ups.resolved", {
+    merchantId: followUp.merchantId,
+    followUpId: followUp.id,
+  });
+
+  return followUp;
+}
+
+/**
+ * Emails the reply to the shopper, adds it to the conversation (visible if
+ * they reopen the widget) and resolves the follow-up.
+ */
+export async function replyToFollowUp(params: {
+  followUp: FollowUp & { conversation: Conversation };
+  staffId: string;
+  brandName: string;
+  body: string;
+}): Promise<FollowUp> {
+  const { followUp, staffId } = params;
+
+  if (followUp.conversation.status !== "closed") {
+    await appendMessage({
+      conversation: followUp.conversation,
+      role: "agent",
+      externalId: staffId,
+      body: params.body,
+    });
+  }
+
+  await enqueueNotification({
+    merchantId: followUp.merchantId,
+    followUpId: followUp.id,
+    kind: "follow_up_reply",
+    email: buildFollowUpReplyEmail({
+      brandName: params.brandName,
+      followUp,
+      reply: params.body,
+    }),
+  });
+  scheduleNotificationDelivery();
+
+  return resolveFollowUp({ followUp, staffId });
+}
+
+export async function saveNotificationEmail(params: {
+  merchantId: string;
+  email: string | null;
+}): Promise<void> {
+  await prisma.merchant.update({
+    where: { merchantId: params.merchantId },
+    data: { notificationEmail: params.email },
+  });
+
+  logger.info("follow_ups.notification_email.saved", {
+    merchantId: params.merchantId,
+    enabled: Boolean(params.email),
+  });
+}
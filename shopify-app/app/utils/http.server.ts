@@ -0,0 +1,65 @@
+// app/utils/http.server.ts
+import { withRequestIdHeader } from "./request-id.server";
+
+const JSON_HEADERS = {
+  "Content-Type": "application/json; charset=utf-8",
+  "Cache-Control": "no-store",
+};
+
+/**
+ * JSON response with X-Request-Id attached (resource routes only).
+ */
+export function jsonResponse(
+  body: unknown,
+  requestId: string,
+  init?: { status?: number; headers?: Record<string, string> }
+): Response {
+  return withRequestIdHeader(
+    new Response(JSON.stringify(body), {
+      status: init?.status ?? 200,
+      headers: { ...JSON_HEADERS, ...init?.headers },
+    }),
+    requestId
+  );
+}
+
+/**
+ * Parses a JSON object body. Returns undefined for invalid JSON or non-object bodies
+ * so callers can answer 400 instead of 500.
+ */
+export async function readJsonObject(
+  request: Request
+): Promise<Record<string, unknown> | undefined> {
+  try {
+    const parsed: unknown = await request.json();
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) return undefined;
+    return parsed as Record<string, unknown>;
+  } catch {
+    return undefined;
+  }
+}
+
+export const DEFAULT_TRUSTED_PROXY_HOPS = 1;
+
+/** How many proxies in front of the app append to X-Forwarded-For (TRUSTED_PROXY_HOPS). */
+export function getTrustedProxyHops(env: NodeJS.ProcessEnv = process.env): number {
+  const hops = Number(env.TRUSTED_PROXY_HOPS);
+  return Number.isInteger(hops) && hops > 0 ? hops : DEFAULT_TRUSTED_PROXY_HOPS;
+}
+
+/**
+ * The shopper's IP, undefined when absent. X-Forwarded-For is read from the
+ * right: everything left of what our own proxies appended came from the
+ * client and can't be trusted, so the entry `hops` from the end is used.
+ */
+export function getClientIp(
+  request: Request,
+  hops: number = getTrustedProxyHops()
+): string | undefined {
+  const forwarded = (request.headers.get("X-Forwarded-For") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (forwarded.length) return forwarded[Math.max(0, forwarded.length - hops)];
+  return request.headers.get("X-Real-IP")?.trim() || undefined;
+}
@@ -0,0 +1,132 @@
+// app/utils/job-handlers.server.ts
+//
+// What each job type does. Payload types live in JobPayloads (jobs.server.ts).
+import db from "../db.server";
+import { processComplianceRequest } from "./compliance.server";
+import type { JobRegistry } from "./jobs.server";
+import { logEvent } from "./logger.server";
+import { transitionMerchantStatus } from "./merchant-lifecycle.server";
+import {
+  deliverDueNotifications,
+  NOTIFICATION_DELIVERY_INTERVAL_MS,
+} from "./notifications.server";
+import {
+  reconcileMerchantWebhooks,
+  runWebhookHealthSweep,
+  WEBHOOK_HEALTH_SWEEP_INTERVAL_MS,
+} from "./webhook-health.server";
+import {
+  PROCESSED_WEBHOOK_PRUNE_INTERVAL_MS,
+  pruneProcessedWebhooks,
+} from "./webhook-ledger.server";
+import { pruneWidgetEvents, WIDGET_EVENT_PRUNE_INTERVAL_MS } from "./widget-events.server";
+
+export const jobHandlers: JobRegistry = {
+  "merchant.uninstalled": {
+    async run({ shopDomain, webhookId, receivedAt }) {
+      const started = Date.now();
+      const uninstalledAt = receivedAt ? new Date(receivedAt) : undefined;
+
+      // Delete sessions (tokens) and mark the merchant uninstalled in one transaction.
+      const now = new Date();
+      const { transition, merchant, sessionDelete, reinstalled } = await db.$transaction(
+        async (tx) => {
+          const merchant = await tx.merchant.findUnique({ where: { shopDomain } });
+
+          // The job may run (or retry) after the merchant installed again; that
+          // install's OAuth, sessions and status are newer than this webhook.
+          const authorizedAt = merchant?.lastAuthorizedAt ?? merchant?.lastInstalledAt;
+          const reinstalled = Boolean(
+            authorizedAt && uninstalledAt && authorizedAt.getTime() > uninstalledAt.getTime()
+          );
+          if (reinstalled) {
+            return { merchant, reinstalled, transition: undefined, sessionDelete: { count: 0 } };
+          }
+
+          const transition = merchant
+            ? await transitionMerchantStatus(
+                { merchantId: merchant.merchantId, to: "uninstalled", reason: "app_uninstalled" },
+                tx
+              )
+            : undefined;
+          const sessionDelete = await tx.session.deleteMany({ where: { shop: shopDomain } });
+
+          return { transition, sessionDelete, merchant, reinstalled };
+        }
+      );
+
+      const message = transition?.changed
+        ? "Merchant marked uninstalled"
+        : "Merchant uninstall skipped";
+      logEvent(message, {
+        eventType: "merchant_uninstalled",
+        outcome: merchant ? "success" : "failure",
+        shopDomain,
+        merchantId: merchant?.merchantId,
+        durationMs: Date.now() - started,
+        topic: "app/uninstalled",
+        webhookId,
+        timestamp: now.toISOString(),
+        sessionsDeleted: sessionDelete.count,
+        merchantMissing: !merchant,
+        reinstalledSince: reinstalled || undefined,
+      });
+    },
+  },
+
+  // Retries a registration that failed during OAuth (merchant left in
+  // "missing_webhooks").
+  "webhooks.register": {
+    concurrency: 2,
+    async run({ shopDomain }) {
+      const merchant = await db.merchant.findUnique({ where: { shopDomain } });
+      if (!merchant || merchant.status === "uninstalled") return;
+
+      const health = await reconcileMerchantWebhooks(merchant);
+      if (health.status !== "active") {
+        throw new Error(`Missing webhooks: ${health.missingTopics.join(", ")}`);
+      }
+    },
+  },
+
+  "webhooks.health_sweep": {
+    concurrency: 1,
+    every: WEBHOOK_HEALTH_SWEEP_INTERVAL_MS,
+    async run() {
+      await runWebhookHealthSweep();
+    },
+  },
+
+  "webhooks.ledger_prune": {
+    concurrency: 1,
+    every: PROCESSED_WEBHOOK_PRUNE_INTERVAL_MS,
+    async run() {
+      await pruneProcessedWebhooks();
+    },
+  },
+
+  "widget_events.prune": {
+    concurrency: 1,
+    every: WIDGET_EVENT_PRUNE_INTERVAL_MS,
+    async run() {
+      await pruneWidgetEvents();
+    },
+  },
+
+  // Retries failed sends; deliverDueNotifications claims rows, so it may
+  // overlap with an in-process scheduleNotificationDelivery run.
+  "notifications.deliver": {
+    concurrency: 1,
+    every: NOTIFICATION_DELIVERY_INTERVAL_MS,
+    async run() {
+      await deliverDueNotifications();
+    },
+  },
+
+  "compliance.request": {
+    concurrency: 1,
+    async run({ complianceRequestId }, { attempt, isLastAttempt }) {
+      await processComplianceRequest({ id: complianceRequestId, attempt, isLastAttempt });
+    },
+  },
+};
@@ -0,0 +1,423 @@
+// app/utils/jobs.server.ts
+//
+// Durable background jobs stored in the Job table. Handlers live in
+// job-handlers.server.ts; the worker runs inside the web server by default,
+// or as a separate process (`npm run worker`, with JOB_WORKER=external on
+// the web server).
+import os from "node:os";
+import type { Job } from "@prisma/client";
+
+import prisma from "../db.server";
+import { buildErrorMetadata, logger } from "./logger.server";
+import { runWithRequestId } from "./request-id.server";
+
+/** Payload per job type; the registry must cover every key. */
+export type JobPayloads = {
+  "merchant.uninstalled": {
+    shopDomain: string;
+    webhookId?: string;
+    /** ISO time the app/uninstalled webhook arrived; missing on older jobs. */
+    receivedAt?: string;
+  };
+  "webhooks.register": { shopDomain: string };
+  "compliance.request": { complianceRequestId: string };
+  "webhooks.health_sweep": Record<string, never>;
+  "widget_events.prune": Record<string, never>;
+  "notifications.deliver": Record<string, never>;
+  "webhooks.ledger_prune": Record<string, never>;
+};
+
+export type JobType = keyof JobPayloads;
+export type JobStatus = "pending" | "running" | "completed" | "dead";
+
+export type JobContext = {
+  jobId: string;
+  /** 1-based. */
+  attempt: number;
+  isLastAttempt: boolean;
+};
+
+export type JobDefinition<T extends JobType = JobType> = {
+  /** Most jobs of this type running at once, across all workers. */
+  concurrency?: number;
+  /**
+   * Recurring job: runs again this long after each run ends (completed or
+   * dead). Payload is `{}`; the worker schedules the first run.
+   */
+  every?: number;
+  /** Throw to retry; after the last attempt the job is dead-lettered. */
+  run(payload: JobPayloads[T], ctx: JobContext): Promise<void>;
+};
+
+export type JobRegistry = { [T in JobType]: JobDefinition<T> };
+
+export const DEFAULT_MAX_JOB_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 60 * 60_000;
+// A running job whose worker went away is retried after this long.
+export const JOB_LOCK_TIMEOUT_MS = 10 * 60_000;
+export const COMPLETED_JOB_RETENTION_MS = 7 * 24 * 60 * 60_000;
+const DEFAULT_WORKER_CONCURRENCY = 4;
+const DEFAULT_POLL_INTERVAL_MS = 2_000;
+const PRUNE_INTERVAL_MS = 60 * 60_000;
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Delay before retry number `attempts` (1-based): 30s, 1m, 2m... capped at an hour.
+ */
+export function jobRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+/** JOB_WORKER=external: jobs are run by `npm run worker` instead of the web server. */
+export function runsJobsInProcess(env: NodeJS.ProcessEnv = process.env): boolean {
+  return env.JOB_WORKER?.trim().toLowerCase() !== "external";
+}
+
+export async function enqueueJob<T extends JobType>(
+  type: T,
+  payload: JobPayloads[T],
+  options?: { runAt?: Date; maxAttempts?: number }
+): Promise<string> {
+  const job = await prisma.job.create({
+    data: {
+      type,
+      payload: JSON.stringify(payload),
+      runAt: options?.runAt ?? new Date(),
+      maxAttempts: options?.maxAttempts ?? DEFAULT_MAX_JOB_ATTEMPTS,
+    },
+  });
+
+  logger.info("jobs.enqueued", { jobId: job.id, type, runAt: job.runAt.toISOString() });
+
+  // Jobs due now shouldn't wait for the next poll.
+  if (job.runAt.getTime() <= Date.now()) globalThis.astraJobWorkerGlobal?.wake();
+
+  return job.id;
+}
+
+/** Puts a dead job back in the queue with a fresh set of attempts. */
+export async function retryDeadJob(id: string): Promise<boolean> {
+  const { count } = await prisma.job.updateMany({
+    where: { id, status: "dead" },
+    data: { status: "pending", attempts: 0, runAt: new Date(), lastError: null },
+  });
+  return count > 0;
+}
+
+async function failJob(job: Job, err: unknown, now: Date): Promise<JobStatus> {
+  const dead = job.attempts >= job.maxAttempts;
+  const message = err instanceof Error ? err.message : String(err);
+
+  await prisma.job.update({
+    where: { id: job.id },
+    data: {
+      status: dead ? "dead" : "pending",
+      lastError: message.slice(0, MAX_ERROR_LENGTH),
+      runAt: new Date(now.getTime() + jobRetryDelayMs(job.attempts)),
+      lockedAt: null,
+      lockedBy: null,
+    },
+  });
+
+  logger[dead ? "error" : "warn"](dead ? "jobs.dead" : "jobs.failed", {
+    jobId: job.id,
+    type: job.type,
+    attempts: job.attempts,
+    ...buildErrorMetadata(err),
+  });
+
+  return dead ? "dead" : "pending";
+}
+
+/**
+ * Queues a run of a recurring job unless one is already waiting or running,
+ * so several workers (or overlapping runs) don't fork extra schedules.
+ */
+async function scheduleRecurringJob(type: JobType, runAt: Date): Promise<void> {
+  const queued = await prisma.job.count({
+    where: { type, status: { in: ["pending", "running"] } },
+  });
+  if (queued) return;
+
+  await prisma.job.create({ data: { type, payload: "{}", runAt } });
+  logger.info("jobs.recurring_scheduled", { type, runAt: runAt.toISOString() });
+}
+
+/** Makes sure every recurring job type has its next run queued. */
+export async function ensureRecurringJobs(
+  registry: JobRegistry,
+  now: Date = new Date()
+): Promise<void> {
+  for (const type of Object.keys(registry) as JobType[]) {
+    if (registry[type].every) await scheduleRecurringJob(type, now);
+  }
+}
+
+/** Running jobs whose lock expired count as a failed attempt. */
+async function recoverStaleJobs(now: Date): Promise<void> {
+  const stale = await prisma.job.findMany({
+    where: { status: "running", lockedAt: { lt: new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS) } },
+  });
+
+  for (const job of stale) {
+    await failJob(job, new Error("Job lock expired"), now);
+  }
+}
+
+/**
+ * Claims up to `limit` due jobs for this worker. A job is claimed by moving
+ * it to "running" conditionally, so two workers never take the same one.
+ * Per-type limits are checked against running jobs in the table; two
+ * workers claiming at the same instant may briefly exceed them.
+ */
+export async function claimDueJobs(params: {
+  registry: JobRegistry;
+  workerId: string;
+  limit: number;
+  now?: Date;
+}): Promise<Job[]> {
+  const { registry, workerId, limit } = params;
+  const now = params.now ?? new Date();
+  if (limit <= 0) return [];
+
+  await recoverStaleJobs(now);
+
+  const types = Object.keys(registry) as JobType[];
+  const candidates = await prisma.job.findMany({
+    where: { status: "pending", runAt: { lte: now }, type: { in: types } },
+    orderBy: { runAt: "asc" },
+    take: limit * 4,
+  });
+
+  const running = new Map<string, number>();
+  const claimed: Job[] = [];
+
+  for (const job of candidates) {
+    if (claimed.length >= limit) break;
+
+    const max = registry[job.type as JobType].concurrency;
+    if (max !== undefined) {
+      if (!running.has(job.type)) {
+        const count = await prisma.job.count({ where: { type: job.type, status: "running" } });
+        running.set(job.type, count);
+      }
+      if (running.get(job.type)! >= max) continue;
+    }
+
+    const { count } = await prisma.job.updateMany({
+      where: { id: job.id, status: "pending" },
+      data: { status: "running", lockedAt: now, lockedBy: workerId, attempts: { increment: 1 } },
+    });
+    if (!count) continue;
+
+    running.set(job.type, (running.get(job.type) ?? 0) + 1);
+    claimed.push({
+      ...job,
+      status: "running",
+      lockedAt: now,
+      lockedBy: workerId,
+      attempts: job.attempts + 1,
+    });
+  }
+
+  return claimed;
+}
+
+/**
+ * Runs a claimed job and records the outcome. Never throws. `now` only
+ * anchors the retry delay and the next recurring run (tests).
+ */
+export async function executeJob(
+  job: Job,
+  registry: JobRegistry,
+  now?: Date
+): Promise<JobStatus> {
+  const status = await runClaimedJob(job, registry, now);
+
+  const every = registry[job.type as JobType].every;
+  if (every && (status === "completed" || status === "dead")) {
+    const next = new Date((now ?? new Date()).getTime() + every);
+    await scheduleRecurringJob(job.type as JobType, next).catch((err: unknown) => {
+      logger.error("jobs.recurring_schedule_failed", {
+        type: job.type,
+        ...buildErrorMetadata(err),
+      });
+    });
+  }
+
+  return status;
+}
+
+async function runClaimedJob(job: Job, registry: JobRegistry, now?: Date): Promise<JobStatus> {
+  const started = Date.now();
+
+  try {
+    const definition = registry[job.type as JobType] as JobDefinition;
+    // Gives what the job logs or records (e.g. merchant status events) an id to trace.
+    await runWithRequestId(`job-${job.id}`, () =>
+      definition.run(JSON.parse(job.payload), {
+        jobId: job.id,
+        attempt: job.attempts,
+        isLastAttempt: job.attempts >= job.maxAttempts,
+      })
+    );
+
+    await prisma.job.update({
+      where: { id: job.id },
+      data: {
+        status: "completed",
+        completedAt: new Date(),
+        lockedAt: null,
+        lockedBy: null,
+        lastError: null,
+      },
+    });
+
+    logger.info("jobs.completed", {
+      jobId: job.id,
+      type: job.type,
+      attempts: job.attempts,
+      durationMs: Date.now() - started,
+    });
+    return "completed";
+  } catch (err: unknown) {
+    try {
+      return await failJob(job, err, now ?? new Date());
+    } catch (updateErr: unknown) {
+      // The lock expires and the job is retried then.
+      logger.error("jobs.fail_update_failed", { jobId: job.id, ...buildErrorMetadata(updateErr) });
+      return "running";
+    }
+  }
+}
+
+/** Claims and runs everything due once (tests, one-off CLI runs). */
+export async function runDueJobs(params: {
+  registry: JobRegistry;
+  workerId?: string;
+  limit?: number;
+  now?: Date;
+}): Promise<Record<JobStatus, number>> {
+  const jobs = await claimDueJobs({
+    registry: params.registry,
+    workerId: params.workerId ?? defaultWorkerId(),
+    limit: params.limit ?? DEFAULT_WORKER_CONCURRENCY,
+    now: params.now,
+  });
+  const results = await Promise.all(
+    jobs.map((job) => executeJob(job, params.registry, params.now))
+  );
+
+  const counts: Record<JobStatus, number> = { pending: 0, running: 0, completed: 0, dead: 0 };
+  for (const status of results) counts[status] += 1;
+  return counts;
+}
+
+export async function pruneCompletedJobs(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.job.deleteMany({
+    where: {
+      status: "completed",
+      completedAt: { lt: new Date(now.getTime() - COMPLETED_JOB_RETENTION_MS) },
+    },
+  });
+
+  if (count) logger.info("jobs.pruned", { count });
+  return count;
+}
+
+function defaultWorkerId(): string {
+  return `${os.hostname()}:${process.pid}`;
+}
+
+export type JobWorker = {
+  workerId: string;
+  /** Polls right away instead of waiting for the interval. */
+  wake: () => void;
+  /** Stops claiming and waits for running jobs to finish. */
+  stop: () => Promise<void>;
+};
+
+declare global {
+  // eslint-disable-next-line no-var
+  var astraJobWorkerGlobal: JobWorker | undefined;
+}
+
+/**
+ * Polls for due jobs and runs up to `concurrency` at once. One worker per
+ * process: a second call returns the running one.
+ */
+export function startJobWorker(params: {
+  registry: JobRegistry;
+  concurrency?: number;
+  pollIntervalMs?: number;
+  workerId?: string;
+}): JobWorker {
+  if (globalThis.astraJobWorkerGlobal) return globalThis.astraJobWorkerGlobal;
+
+  const { registry } = params;
+  const concurrency = params.concurrency ?? DEFAULT_WORKER_CONCURRENCY;
+  const pollIntervalMs = params.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  const workerId = params.workerId ?? defaultWorkerId();
+
+  const active = new Set<Promise<unknown>>();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let polling = false;
+  let stopped = false;
+  let lastPrune = 0;
+
+  const schedule = (delayMs: number) => {
+    if (stopped) return;
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(poll, delayMs);
+    timer.unref?.();
+  };
+
+  async function poll() {
+    timer = undefined;
+    if (stopped || polling) return;
+    polling = true;
+
+    try {
+      const jobs = await claimDueJobs({ registry, workerId, limit: concurrency - active.size });
+      for (const job of jobs) {
+        const run: Promise<unknown> = executeJob(job, registry).finally(() => {
+          active.delete(run);
+          // A slot freed up: more work may be waiting.
+          schedule(0);
+        });
+        active.add(run);
+      }
+
+      // Hourly housekeeping (and on start): retention, recurring schedules.
+      if (Date.now() - lastPrune > PRUNE_INTERVAL_MS) {
+        lastPrune = Date.now();
+        await pruneCompletedJobs();
+        await ensureRecurringJobs(registry);
+      }
+    } catch (err: unknown) {
+      logger.error("jobs.poll_failed", { workerId, ...buildErrorMetadata(err) });
+    } finally {
+      polling = false;
+      if (!timer) schedule(pollIntervalMs);
+    }
+  }
+
+  const worker: JobWorker = {
+    workerId,
+    wake: () => schedule(0),
+    async stop() {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      await Promise.allSettled([...active]);
+      if (globalThis.astraJobWorkerGlobal === worker) globalThis.astraJobWorkerGlobal = undefined;
+      logger.info("jobs.worker_stopped", { workerId });
+    },
+  };
+
+  globalThis.astraJobWorkerGlobal = worker;
+  logger.info("jobs.worker_started", { workerId, concurrency, pollIntervalMs });
+  schedule(0);
+
+  return worker;
+}
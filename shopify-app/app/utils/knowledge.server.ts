@@ -0,0 +1,290 @@
+// app/utils/knowledge.server.ts
+//
+// Merchant-authored knowledge (shipping policy snippets + FAQs) used by the
+// "Shipping info" quick action and the responder.
+import type { KnowledgeEntry } from "@prisma/client";
+
+import prisma from "../db.server";
+import type { AdminGraphqlClient } from "./admin-graphql.server";
+import { adminGraphql } from "./admin-graphql.server";
+import type { KnowledgeKind } from "./knowledge";
+import {
+  KNOWLEDGE_KINDS,
+  MAX_KNOWLEDGE_BODY_LENGTH,
+  MAX_KNOWLEDGE_TITLE_LENGTH,
+} from "./knowledge";
+import { logger } from "./logger.server";
+
+export type KnowledgeTopic = "shipping";
+export type KnowledgeSource = "manual" | "shopify_policy";
+
+export const MAX_KNOWLEDGE_ENTRIES_PER_TOPIC = 50;
+
+export type KnowledgeEntryView = {
+  id: string;
+  kind: KnowledgeKind;
+  title: string;
+  body: string;
+  source: KnowledgeSource;
+};
+
+export type KnowledgeEntryInput = {
+  kind: KnowledgeKind;
+  title: string;
+  body: string;
+};
+
+const SHOP_POLICIES_QUERY = `
+  query ShopPolicies {
+    shop {
+      shopPolicies {
+        type
+        title
+        body
+      }
+    }
+  }
+`;
+
+// Words that say nothing about which FAQ was meant.
+const STOP_WORDS = new Set([
+  "about",
+  "does",
+  "from",
+  "have",
+  "long",
+  "that",
+  "there",
+  "this",
+  "what",
+  "when",
+  "where",
+  "which",
+  "will",
+  "with",
+  "your",
+]);
+
+// Minimum token length used for matching; also the shared prefix length, so
+// "shipping" matches "ship" / "shipped" and "deliver" matches "delivery".
+const MATCH_TOKEN_LENGTH = 4;
+
+export function toKnowledgeEntryView(entry: KnowledgeEntry): KnowledgeEntryView {
+  return {
+    id: entry.id,
+    kind: entry.kind as KnowledgeKind,
+    title: entry.title,
+    body: entry.body,
+    source: entry.source as KnowledgeSource,
+  };
+}
+
+/**
+ * Validates admin form input. Returns undefined when the entry can't be stored.
+ */
+export function normalizeKnowledgeInput(raw: {
+  kind: unknown;
+  title: unknown;
+  body: unknown;
+}): KnowledgeEntryInput | undefined {
+  if (typeof raw.kind !== "string" || !KNOWLEDGE_KINDS.includes(raw.kind as KnowledgeKind)) {
+    return undefined;
+  }
+  if (typeof raw.title !== "string" || typeof raw.body !== "string") return undefined;
+
+  const title = raw.title.trim();
+  const body = raw.body.trim();
+  if (!title || title.length > MAX_KNOWLEDGE_TITLE_LENGTH) return undefined;
+  if (!body || body.length > MAX_KNOWLEDGE_BODY_LENGTH) return undefined;
+
+  return { kind: raw.kind as KnowledgeKind, title, body };
+}
+
+/**
+ * Shopify returns policies as HTML. The widget renders plain text only.
+ */
+export function stripHtml(html: string): string {
+  return html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h[1-6])>/gi, "\n")
+    .replace(/<li[^>]*>/gi, "- ")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? []).filter(
+    (token) => token.length >= MATCH_TOKEN_LENGTH && !STOP_WORDS.has(token)
+  );
+}
+
+function stem(token: string): string {
+  return token.slice(0, MATCH_TOKEN_LENGTH);
+}
+
+/**
+ * Best FAQ for a shopper question, by shared word stems (title counts double).
+ * Returns undefined when nothing reaches `minScore`.
+ */
+export function matchKnowledgeEntry(
+  text: string,
+  entries: KnowledgeEntryView[],
+  options?: { minScore?: number }
+): KnowledgeEntryView | undefined {
+  const minScore = options?.minScore ?? 2;
+  const query = new Set(tokenize(text).map(stem));
+  if (!query.size) return undefined;
+
+  let best: KnowledgeEntryView | undefined;
+  let bestScore = 0;
+
+  for (const entry of entries) {
+    if (entry.kind !== "faq") continue;
+
+    const title = new Set(tokenize(entry.title).map(stem));
+    const body = new Set(tokenize(entry.body).map(stem));
+    let score = 0;
+    for (const token of query) {
+      if (title.has(token)) score += 2;
+      else if (body.has(token)) score += 1;
+    }
+
+    if (score > bestScore) {
+      best = entry;
+      bestScore = score;
+    }
+  }
+
+  return bestScore >= minScore ? best : undefined;
+}
+
+export async function listKnowledgeEntries(params: {
+  merchantId: string;
+  topic: KnowledgeTopic;
+}): Promise<KnowledgeEntryView[]> {
+  const entries = await prisma.knowledgeEntry.findMany({
+    where: { merchantId: params.merchantId, topic: params.topic },
+    orderBy: [{ position: "asc" }, { createdAt: "asc" }],
+  });
+
+  return entries.map(toKnowledgeEntryView);
+}
+
+export async function createKnowledgeEntry(params: {
+  merchantId: string;
+  topic: KnowledgeTopic;
+  entry: KnowledgeEntryInput;
+}): Promise<KnowledgeEntryView> {
+  const count = await prisma.knowledgeEntry.count({
+    where: { merchantId: params.merchantId, topic: params.topic },
+  });
+
+  if (count >= MAX_KNOWLEDGE_ENTRIES_PER_TOPIC) {
+    throw new Response("Too many entries", { status: 409 });
+  }
+
+  const entry = await prisma.knowledgeEntry.create({
+    data: {
+      merchantId: params.merchantId,
+      topic: params.topic,
+      kind: params.entry.kind,
+      title: params.entry.title,
+      body: params.entry.body,
+      source: "manual",
+      position: count,
+    },
+  });
+
+  logger.info("knowledge.entry.created", {
+    merchantId: params.merchantId,
+    topic: params.topic,
+    kind: entry.kind,
+  });
+
+  return toKnowledgeEntryView(entry);
+}
+
+/**
+ * Deletes an entry owned by the merchant. Returns false when it didn't exist.
+ */
+export async function deleteKnowledgeEntry(params: {
+  merchantId: string;
+  id: string;
+}): Promise<boolean> {
+  const { count } = await prisma.knowledgeEntry.deleteMany({
+    where: { id: params.id, merchantId: params.merchantId },
+  });
+
+  if (count) {
+    logger.info("knowledge.entry.deleted", { merchantId: params.merchantId });
+  }
+
+  return count > 0;
+}
+
+async function fetchShippingPolicy(
+  admin: AdminGraphqlClient
+): Promise<{ title: string; body: string } | undefined> {
+  const { data } = await adminGraphql<{
+    shop?: {
+      shopPolicies?: Array<{ type?: string; title?: string | null; body?: string | null }>;
+    };
+  }>(admin, SHOP_POLICIES_QUERY);
+
+  const policy = data.shop?.shopPolicies?.find((p) => p.type === "SHIPPING_POLICY");
+  const body = policy?.body ? stripHtml(policy.body) : "";
+  if (!body) return undefined;
+
+  return {
+    title: policy?.title?.trim() || "Shipping policy",
+    body: body.slice(0, MAX_KNOWLEDGE_BODY_LENGTH),
+  };
+}
+
+/**
+ * Copies the store's shipping policy into the knowledge base, replacing a
+ * previous import. Returns undefined when the store has no shipping policy.
+ */
+export async function importShopifyShippingPolicy(params: {
+  admin: AdminGraphqlClient;
+  merchantId: string;
+}): Promise<KnowledgeEntryView | undefined> {
+  const policy = await fetchShippingPolicy(params.admin);
+
+  if (!policy) {
+    logger.info("knowledge.policy_import.empty", { merchantId: params.merchantId });
+    return undefined;
+  }
+
+  const [, entry] = await prisma.$transaction([
+    prisma.knowledgeEntry.deleteMany({
+      where: { merchantId: params.merchantId, topic: "shipping", source: "shopify_policy" },
+    }),
+    prisma.knowledgeEntry.create({
+      data: {
+        merchantId: params.merchantId,
+        topic: "shipping",
+        kind: "policy",
+        title: policy.title,
+        body: policy.body,
+        source: "shopify_policy",
+        // Imported policy leads; manual snippets follow it.
+        position: -1,
+      },
+    }),
+  ]);
+
+  logger.info("knowledge.policy_import.completed", { merchantId: params.merchantId });
+
+  return toKnowledgeEntryView(entry);
+}
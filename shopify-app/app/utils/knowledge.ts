@@ -0,0 +1,10 @@
+// app/utils/knowledge.ts
+//
+// Knowledge entry kinds and field limits, shared by the server and the admin
+// shipping info page (no server-only imports here).
+
+export type KnowledgeKind = "policy" | "faq";
+
+export const KNOWLEDGE_KINDS: KnowledgeKind[] = ["policy", "faq"];
+export const MAX_KNOWLEDGE_TITLE_LENGTH = 200;
+export const MAX_KNOWLEDGE_BODY_LENGTH = 5000;
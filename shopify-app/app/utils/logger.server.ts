@@ -9,9 +9,15 @@ export type EventType =
   | "oauth_callback"
   | "session_exchange"
   | "merchant_uninstalled"
+  | "merchant_reinstalled"
   | "webhook_uninstall"
   | "webhook_other"
-  | "ssr_render";
+  | "webhook_compliance"
+  | "compliance_request"
+  | "webhook_health_sweep"
+  | "token_refresh"
+  | "ssr_render"
+  | "app_proxy";
 
 export type Outcome = "success" | "failure";
 
@@ -40,6 +46,7 @@ export type ErrorCode =
   | "INVALID_STATE"
   | "HMAC_VERIFICATION_FAILED"
   | "TOKEN_ENCRYPTION_FAILED"
+  | "TOKEN_REFRESH_FAILED"
   | "MISSING_CONFIG"
   | "INVEST";
 
@@ -72,6 +79,7 @@ const ALLOW_KEYS = new Set<string>([
   "requestid",
   "eventtype",
   "outcome",
+  "errorcode",
 ]);
 
 /**
@@ -95,6 +103,7 @@ const ERROR_CODE_MESSAGES: Record<ErrorCode, string> = {
   INVALID_STATE: "Invalid OAuth state",
   HMAC_VERIFICATION_FAILED: "HMAC verification failed",
   TOKEN_ENCRYPTION_FAILED: "Token encryption failed",
+  TOKEN_REFRESH_FAILED: "Access token refresh failed",
   MISSING_CONFIG: "Missing configuration",
   INVEST: "Unexpected error",
 };
@@ -0,0 +1,161 @@
+// app/utils/merchant-lifecycle.server.ts
+//
+// Merchant.status as a state machine. Status changes go through
+// transitionMerchantStatus, which checks them against MERCHANT_TRANSITIONS
+// and records a MerchantStatusEvent, so support can read when and why a shop
+// churned or came back.
+import type { MerchantStatusEvent, Prisma } from "@prisma/client";
+
+import prisma from "../db.server";
+import { logger } from "./logger.server";
+import { getRequestId } from "./request-id.server";
+
+export type MerchantStatus =
+  | "active"
+  | "missing_webhooks"
+  | "needs_reauth"
+  | "insufficient_scopes"
+  | "uninstalled";
+
+export type MerchantStatusReason =
+  /** First OAuth for this shop. */
+  | "install"
+  /** OAuth after an uninstall. */
+  | "reinstall"
+  | "app_uninstalled"
+  | "webhooks_missing"
+  | "webhooks_restored"
+  /** Shopify rejected the offline token refresh; background Admin API calls stop. */
+  | "token_refresh_failed"
+  /** OAuth after needs_reauth. */
+  | "reauthorized"
+  /** Granted scopes no longer cover FEATURE_SCOPES (scopes.ts). */
+  | "scopes_missing"
+  | "scopes_granted";
+
+/**
+ * The app is installed; anything else is turned away by the app and the
+ * widget. needs_reauth shops keep the widget; only Admin API work is paused
+ * until the merchant opens the app again. insufficient_scopes shops lose the
+ * features whose scopes are missing.
+ */
+export const INSTALLED_MERCHANT_STATUSES: MerchantStatus[] = [
+  "active",
+  "missing_webhooks",
+  "needs_reauth",
+  "insufficient_scopes",
+];
+
+export const MERCHANT_TRANSITIONS: Record<MerchantStatus, MerchantStatus[]> = {
+  active: ["missing_webhooks", "needs_reauth", "insufficient_scopes", "uninstalled"],
+  missing_webhooks: ["active", "needs_reauth", "insufficient_scopes", "uninstalled"],
+  needs_reauth: ["active", "missing_webhooks", "insufficient_scopes", "uninstalled"],
+  insufficient_scopes: ["active", "missing_webhooks", "needs_reauth", "uninstalled"],
+  uninstalled: ["active", "missing_webhooks", "insufficient_scopes"],
+};
+
+export class InvalidMerchantTransitionError extends Error {
+  name = "InvalidMerchantTransitionError";
+}
+
+export function isMerchantStatus(value: string): value is MerchantStatus {
+  return Object.hasOwn(MERCHANT_TRANSITIONS, value);
+}
+
+export function canTransitionMerchant(from: string, to: MerchantStatus): boolean {
+  return isMerchantStatus(from) && MERCHANT_TRANSITIONS[from].includes(to);
+}
+
+export type MerchantTransition = {
+  merchantId: string;
+  to: MerchantStatus;
+  reason: MerchantStatusReason;
+  /** Only move a merchant currently in one of these; otherwise leave it alone. */
+  from?: MerchantStatus[];
+};
+
+export type MerchantTransitionResult = {
+  changed: boolean;
+  /** Status before the call; null when there is no such merchant. */
+  from: string | null;
+  to: MerchantStatus;
+};
+
+/** Appends to the timeline; callers have already written Merchant.status. */
+export async function recordMerchantStatusEvent(
+  tx: Prisma.TransactionClient,
+  event: {
+    merchantId: string;
+    from: string | null;
+    to: MerchantStatus;
+    reason: MerchantStatusReason;
+    at: Date;
+  }
+): Promise<void> {
+  await tx.merchantStatusEvent.create({
+    data: {
+      merchantId: event.merchantId,
+      fromStatus: event.from,
+      toStatus: event.to,
+      reason: event.reason,
+      requestId: getRequestId(),
+      createdAt: event.at,
+    },
+  });
+
+  logger.info("merchant.status_changed", {
+    merchantId: event.merchantId,
+    from: event.from,
+    to: event.to,
+    reason: event.reason,
+  });
+}
+
+/**
+ * Moves a merchant to `to` and records the event. A missing merchant, the
+ * same status or a `from` that doesn't match is a no-op (changed: false); a
+ * transition the state machine doesn't allow throws
+ * InvalidMerchantTransitionError. Pass `tx` to join an outer transaction.
+ */
+export async function transitionMerchantStatus(
+  transition: MerchantTransition,
+  tx?: Prisma.TransactionClient
+): Promise<MerchantTransitionResult> {
+  if (!tx) return prisma.$transaction((inner) => transitionMerchantStatus(transition, inner));
+
+  const { merchantId, to, reason, from } = transition;
+  const merchant = await tx.merchant.findUnique({
+    where: { merchantId },
+    select: { status: true },
+  });
+  if (!merchant) return { changed: false, from: null, to };
+
+  const current = merchant.status;
+  const skip = current === to || (from && !from.some((status) => status === current));
+  if (skip) return { changed: false, from: current, to };
+
+  if (!canTransitionMerchant(current, to)) {
+    throw new InvalidMerchantTransitionError(
+      `Merchant ${merchantId} cannot go from ${current} to ${to}`
+    );
+  }
+
+  // Conditional so a change that landed since the read isn't overwritten.
+  const now = new Date();
+  const { count } = await tx.merchant.updateMany({
+    where: { merchantId, status: current },
+    data: { status: to, statusUpdatedAt: now },
+  });
+  if (!count) return { changed: false, from: current, to };
+
+  await recordMerchantStatusEvent(tx, { merchantId, from: current, to, reason, at: now });
+  return { changed: true, from: current, to };
+}
+
+/** Oldest first. */
+export async function getMerchantTimeline(merchantId: string): Promise<MerchantStatusEvent[]> {
+  return prisma.merchantStatusEvent.findMany({
+    where: { merchantId },
+    orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+  });
+}
@@ -0,0 +1,84 @@
+// app/utils/merchant-reinstall.server.ts
+//
+// What a merchant finds when they reinstall after an uninstall, chosen by
+// REINSTALL_DATA_POLICY:
+//   restore (default)  conversations and settings carry on as they were
+//   archive            conversations are closed and archived (hidden from the
+//                      inbox and the widget) and settings are moved into a
+//                      MerchantSettingsArchive row, so the shop starts fresh
+import type { Prisma } from "@prisma/client";
+
+import { logger } from "./logger.server";
+
+export type ReinstallDataPolicy = "restore" | "archive";
+
+export const DEFAULT_REINSTALL_DATA_POLICY: ReinstallDataPolicy = "restore";
+
+export type ReinstallDataResult = {
+  policy: ReinstallDataPolicy;
+  conversationsArchived: number;
+  settingsArchived: boolean;
+};
+
+export function getReinstallDataPolicy(env: NodeJS.ProcessEnv = process.env): ReinstallDataPolicy {
+  const raw = env.REINSTALL_DATA_POLICY?.trim().toLowerCase();
+  if (!raw) return DEFAULT_REINSTALL_DATA_POLICY;
+  if (raw === "restore" || raw === "archive") return raw;
+
+  logger.warn("merchant.reinstall_policy_unknown", { policy: raw });
+  return DEFAULT_REINSTALL_DATA_POLICY;
+}
+
+async function archiveMerchantData(
+  tx: Prisma.TransactionClient,
+  merchantId: string,
+  now: Date
+): Promise<Omit<ReinstallDataResult, "policy">> {
+  const widget = await tx.widgetSettings.findUnique({ where: { merchantId } });
+  const businessHours = await tx.businessHours.findUnique({ where: { merchantId } });
+  const holidays = await tx.holidayException.findMany({ where: { merchantId } });
+  const knowledge = await tx.knowledgeEntry.findMany({ where: { merchantId } });
+
+  const settingsArchived = Boolean(
+    widget || businessHours || holidays.length || knowledge.length
+  );
+  if (settingsArchived) {
+    await tx.merchantSettingsArchive.create({
+      data: {
+        merchantId,
+        data: JSON.stringify({ widget, businessHours, holidays, knowledge }),
+        createdAt: now,
+      },
+    });
+    await tx.widgetSettings.deleteMany({ where: { merchantId } });
+    await tx.businessHours.deleteMany({ where: { merchantId } });
+    await tx.holidayException.deleteMany({ where: { merchantId } });
+    await tx.knowledgeEntry.deleteMany({ where: { merchantId } });
+  }
+
+  // Closed first so nothing can be appended to an archived conversation.
+  await tx.conversation.updateMany({
+    where: { merchantId, archivedAt: null, status: { not: "closed" } },
+    data: { status: "closed", closedAt: now },
+  });
+  const { count } = await tx.conversation.updateMany({
+    where: { merchantId, archivedAt: null },
+    data: { archivedAt: now },
+  });
+
+  return { conversationsArchived: count, settingsArchived };
+}
+
+/** Runs inside the reinstall transaction (see upsertActiveMerchant). */
+export async function applyReinstallDataPolicy(
+  tx: Prisma.TransactionClient,
+  merchantId: string,
+  policy: ReinstallDataPolicy,
+  now: Date = new Date()
+): Promise<ReinstallDataResult> {
+  if (policy === "restore") {
+    return { policy, conversationsArchived: 0, settingsArchived: false };
+  }
+
+  return { policy, ...(await archiveMerchantData(tx, merchantId, now)) };
+}
@@ -0,0 +1,141 @@
+// app/utils/merchant-scopes.server.ts
+//
+// Keeps Merchant.scopes in step with what the merchant granted and moves the
+// merchant in and out of insufficient_scopes. OAuth goes through
+// upsertActiveMerchant (shopify.server.ts afterAuth); app/scopes_update and
+// the "Grant access" banner come through syncMerchantScopes. Asking for the
+// optional scopes of a feature is recorded with recordScopeRequest.
+import prisma from "../db.server";
+import { logger } from "./logger.server";
+import { transitionMerchantStatus } from "./merchant-lifecycle.server";
+import { hasScope, missingScopes, parseScopes, unavailableFeatures } from "./scopes";
+import type { ScopedFeature } from "./scopes";
+
+export type MerchantScopeSync = {
+  /** False when there is no installed merchant for the shop. */
+  found: boolean;
+  missingScopes: string[];
+  unavailableFeatures: ScopedFeature[];
+  /** The merchant moved into or out of insufficient_scopes. */
+  changed: boolean;
+};
+
+/**
+ * Records the granted scopes and, when the registry in scopes.ts isn't
+ * covered, moves the merchant to insufficient_scopes; once it is covered
+ * again the merchant goes back to active (the webhook sweep catches up on
+ * missing_webhooks).
+ */
+export async function syncMerchantScopes(input: {
+  shopDomain: string;
+  scopes: string | string[];
+}): Promise<MerchantScopeSync> {
+  const granted = parseScopes(input.scopes);
+  const missing = missingScopes(granted);
+
+  const result = await prisma.$transaction(async (tx) => {
+    const merchant = await tx.merchant.findUnique({
+      where: { shopDomain: input.shopDomain },
+      select: { merchantId: true, status: true, declinedScopes: true },
+    });
+    if (!merchant || merchant.status === "uninstalled") return undefined;
+
+    // A scope granted since (e.g. from the app's listing) is no longer declined.
+    const declined = parseScopes(merchant.declinedScopes).filter(
+      (scope) => !hasScope(granted, scope)
+    );
+    await tx.merchant.update({
+      where: { merchantId: merchant.merchantId },
+      data: { scopes: granted.join(","), declinedScopes: declined.join(",") },
+    });
+
+    // needs_reauth is left alone: the next OAuth settles both.
+    const transition = missing.length
+      ? await transitionMerchantStatus(
+          {
+            merchantId: merchant.merchantId,
+            to: "insufficient_scopes",
+            reason: "scopes_missing",
+            from: ["active", "missing_webhooks"],
+          },
+          tx
+        )
+      : await transitionMerchantStatus(
+          {
+            merchantId: merchant.merchantId,
+            to: "active",
+            reason: "scopes_granted",
+            from: ["insufficient_scopes"],
+          },
+          tx
+        );
+    return { merchantId: merchant.merchantId, changed: transition.changed };
+  });
+
+  if (!result) {
+    return { found: false, missingScopes: missing, unavailableFeatures: [], changed: false };
+  }
+
+  if (result.changed) {
+    logger[missing.length ? "warn" : "info"]("merchant.scopes_changed", {
+      merchantId: result.merchantId,
+      shopDomain: input.shopDomain,
+      missingScopes: missing,
+    });
+  }
+
+  return {
+    found: true,
+    missingScopes: missing,
+    unavailableFeatures: unavailableFeatures(granted),
+    changed: result.changed,
+  };
+}
+
+export type ScopeRequestOutcome = {
+  granted: string[];
+  declined: string[];
+};
+
+/**
+ * Records the merchant's answer to a request for optional scopes: `granted`
+ * is what Shopify reports afterwards (scopes.query), not what the browser
+ * claims. Declined scopes are kept on the Merchant row so the admin can tell
+ * the merchant why a feature stayed off.
+ */
+export async function recordScopeRequest(input: {
+  shopDomain: string;
+  requested: string[];
+  granted: string[];
+}): Promise<ScopeRequestOutcome> {
+  const requested = parseScopes(input.requested);
+  const granted = parseScopes(input.granted);
+  const outcome = {
+    granted: requested.filter((scope) => hasScope(granted, scope)),
+    declined: missingScopes(granted, requested),
+  };
+
+  const sync = await syncMerchantScopes({ shopDomain: input.shopDomain, scopes: granted });
+  if (!sync.found) return outcome;
+
+  const merchant = await prisma.merchant.findUnique({
+    where: { shopDomain: input.shopDomain },
+    select: { merchantId: true, declinedScopes: true },
+  });
+  if (!merchant) return outcome;
+
+  const declined = new Set([...parseScopes(merchant.declinedScopes), ...outcome.declined]);
+  await prisma.merchant.update({
+    where: { merchantId: merchant.merchantId },
+    data: { declinedScopes: [...declined].sort().join(","), scopesRequestedAt: new Date() },
+  });
+
+  logger.info("merchant.scopes_requested", {
+    merchantId: merchant.merchantId,
+    shopDomain: input.shopDomain,
+    requestedScopes: requested,
+    grantedScopes: outcome.granted,
+    declinedScopes: outcome.declined,
+  });
+  return outcome;
+}
@@ -1,11 +1,17 @@
 import type { Session } from "@shopify/shopify-api";
 
 import prisma from "../db.server";
-import { logger } from "./logger.server";
-
-type AdminGraphqlClient = {
-  graphql: (query: string) => Promise<Response>;
-};
+import type { AdminGraphqlClient } from "./admin-graphql.server";
+import { adminGraphql } from "./admin-graphql.server";
+import { logEvent, logger } from "./logger.server";
+import type { MerchantStatus, MerchantStatusReason } from "./merchant-lifecycle.server";
+import type { ReinstallDataPolicy } from "./merchant-reinstall.server";
+import { applyReinstallDataPolicy, getReinstallDataPolicy } from "./merchant-reinstall.server";
+import {
+  INSTALLED_MERCHANT_STATUSES,
+  recordMerchantStatusEvent,
+  transitionMerchantStatus,
+} from "./merchant-lifecycle.server";
 
 export type MerchantIdentity = {
   merchantId: string;
@@ -34,37 +40,20 @@ export async function resolveMerchantIdentity(
   let shopDomain = session.shop;
 
   if ((!merchantId || !shopDomain) && admin) {
-    const response = await admin.graphql(`
-      {
-        shop {
-          id
-          myshopifyDomain
+    const { data } = await adminGraphql<{ shop?: { id?: string; myshopifyDomain?: string } }>(
+      admin,
+      `
+        query ShopIdentity {
+          shop {
+            id
+            myshopifyDomain
+          }
         }
-      }
-    `);
-
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch shop identity from Shopify (status ${response.status}).`
-      );
-    }
-
-    const payload = (await response.json()) as {
-      data?: { shop?: { id?: string; myshopifyDomain?: string } };
-      errors?: Array<{ message?: string }>;
-    };
-
-    if (payload.errors?.length) {
-      throw new Error(
-        `Failed to fetch shop identity from Shopify: ${payload.errors
-          .map((error) => error.message)
-          .filter(Boolean)
-          .join(", ")}`
-      );
-    }
+      `
+    );
 
-    merchantId = merchantId ?? normalizeShopId(payload.data?.shop?.id);
-    shopDomain = shopDomain ?? payload.data?.shop?.myshopifyDomain;
+    merchantId = merchantId ?? normalizeShopId(data.shop?.id);
+    shopDomain = shopDomain ?? data.shop?.myshopifyDomain;
   }
 
   if (!merchantId) {
@@ -82,39 +71,87 @@ export async function resolveMerchantIdentity(
   };
 }
 
+function installReason(from: string, to: MerchantStatus): MerchantStatusReason {
+  if (from === "uninstalled") return "reinstall";
+  if (from === "needs_reauth") return "reauthorized";
+  if (to === "insufficient_scopes") return "scopes_missing";
+  if (from === "insufficient_scopes") return "scopes_granted";
+  return to === "active" ? "webhooks_restored" : "webhooks_missing";
+}
+
 export async function upsertActiveMerchant(
   session: Session,
   admin?: AdminGraphqlClient,
-  options?: { status?: string; identity?: MerchantIdentity }
+  options?: {
+    status?: MerchantStatus;
+    identity?: MerchantIdentity;
+    reinstallPolicy?: ReinstallDataPolicy;
+  }
 ) {
   const { merchantId, shopDomain, scopes } =
     options?.identity ?? (await resolveMerchantIdentity(session, admin));
   const status = options?.status ?? "active";
 
   try {
-    const existingMerchant = await prisma.merchant.findUnique({
-      where: { merchantId },
-    });
-    const merchant = await prisma.merchant.upsert({
-      where: { merchantId },
-      create: {
-        merchantId,
-        shopDomain,
-        installedAt: new Date(),
-        scopes,
-        status,
-        statusUpdatedAt: new Date(),
-      },
-      update: {
-        shopDomain,
-        installedAt: new Date(),
-        scopes,
-        status,
-        statusUpdatedAt: new Date(),
-      },
+    const { merchant, created, reinstall } = await prisma.$transaction(async (tx) => {
+      const existing = await tx.merchant.findUnique({ where: { merchantId } });
+      const now = new Date();
+
+      if (!existing) {
+        const merchant = await tx.merchant.create({
+          data: {
+            merchantId,
+            shopDomain,
+            firstInstalledAt: now,
+            lastInstalledAt: now,
+            lastAuthorizedAt: now,
+            installCount: 1,
+            scopes,
+            status,
+            statusUpdatedAt: now,
+          },
+        });
+        await recordMerchantStatusEvent(tx, {
+          merchantId,
+          from: null,
+          to: status,
+          reason: "install",
+          at: now,
+        });
+        return { merchant, created: true };
+      }
+
+      // Re-auth of an installed shop only refreshes the identity and lastAuthorizedAt.
+      const reinstalling = existing.status === "uninstalled";
+      await tx.merchant.update({
+        where: { merchantId },
+        data: {
+          shopDomain,
+          scopes,
+          lastAuthorizedAt: now,
+          ...(reinstalling ? { lastInstalledAt: now, installCount: { increment: 1 } } : {}),
+        },
+      });
+      const reinstall = reinstalling
+        ? {
+            uninstalledAt: existing.statusUpdatedAt,
+            ...(await applyReinstallDataPolicy(
+              tx,
+              merchantId,
+              options?.reinstallPolicy ?? getReinstallDataPolicy(),
+              now
+            )),
+          }
+        : undefined;
+      await transitionMerchantStatus(
+        { merchantId, to: status, reason: installReason(existing.status, status) },
+        tx
+      );
+      const merchant = await tx.merchant.findUniqueOrThrow({ where: { merchantId } });
+      return { merchant, created: false, reinstall };
     });
 
-    if (!existingMerchant) {
+    if (created) {
       logger.info("merchant.created", {
         merchantId,
         shopDomain,
@@ -123,6 +160,21 @@ export async function upsertActiveMerchant(
       });
     }
 
+    if (reinstall) {
+      logEvent("Merchant reinstalled", {
+        eventType: "merchant_reinstalled",
+        outcome: "success",
+        merchantId,
+        shopDomain,
+        installCount: merchant.installCount,
+        firstInstalledAt: merchant.firstInstalledAt.toISOString(),
+        uninstalledAt: reinstall.uninstalledAt?.toISOString(),
+        policy: reinstall.policy,
+        conversationsArchived: reinstall.conversationsArchived,
+        settingsArchived: reinstall.settingsArchived,
+      });
+    }
+
     logger.info("merchant.upserted", {
       merchantId,
       shopDomain,
@@ -147,7 +199,7 @@ export async function requireActiveMerchantByShopDomain(shopDomain: string) {
     where: { shopDomain },
   });
 
-  if (!merchant || !["active", "missing_webhooks"].includes(merchant.status)) {
+  if (!merchant || !INSTALLED_MERCHANT_STATUSES.some((status) => status === merchant.status)) {
     logger.warn("merchant.not_active", {
       shopDomain,
       merchantId: merchant?.merchantId,
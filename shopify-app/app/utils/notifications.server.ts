@@ -0,0 +1,220 @@
+// app/utils/notifications.server.ts
+//
+// Outbound email queue. Messages are stored first and delivered by
+// deliverDueNotifications(), so a transport outage only delays them. The
+// recurring "notifications.deliver" job sends retries and anything a
+// best-effort scheduleNotificationDelivery() run didn't get to. The
+// default transport logs instead of sending: production deployments
+// implement NotificationTransport (SMTP, an email API) and call
+// setNotificationTransport() at startup.
+import prisma from "../db.server";
+import { buildErrorMetadata, logger } from "./logger.server";
+
+export type NotificationKind = "follow_up_alert" | "follow_up_reply" | "data_request_export";
+export type NotificationStatus = "pending" | "sent" | "failed";
+
+export type OutboundEmail = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+export type NotificationTransport = {
+  name: string;
+  /** Throws when the message wasn't accepted; it is retried later. */
+  send: (email: OutboundEmail) => Promise<void>;
+};
+
+export const MAX_NOTIFICATION_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 60_000;
+const MAX_RETRY_DELAY_MS = 60 * 60_000;
+const DELIVERY_BATCH_SIZE = 20;
+// Matches the first retry delay, so a failed send waits about that long.
+export const NOTIFICATION_DELIVERY_INTERVAL_MS = 60_000;
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Logs instead of sending (development default). Never logs the body:
+ * shopper questions may contain personal data.
+ */
+export function createLogTransport(): NotificationTransport {
+  return {
+    name: "log",
+    async send(email) {
+      logger.info("notifications.log_transport.send", {
+        subject: email.subject,
+        bodyLength: email.text.length,
+      });
+    },
+  };
+}
+
+/**
+ * SMTP stand-in that keeps messages in memory (tests, local previews).
+ * `fail` makes the next N sends throw, to exercise retries.
+ */
+export function createMemoryTransport(): NotificationTransport & {
+  sent: OutboundEmail[];
+  fail: (times: number) => void;
+} {
+  const sent: OutboundEmail[] = [];
+  let failures = 0;
+
+  return {
+    name: "memory",
+    sent,
+    fail(times) {
+      failures = times;
+    },
+    async send(email) {
+      if (failures > 0) {
+        failures -= 1;
+        throw new Error("Simulated transport failure");
+      }
+      sent.push(email);
+    },
+  };
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var astraNotificationTransportGlobal: NotificationTransport | undefined;
+  // eslint-disable-next-line no-var
+  var astraNotificationDeliveryGlobal: Promise<void> | undefined;
+}
+
+export function getNotificationTransport(): NotificationTransport {
+  if (!globalThis.astraNotificationTransportGlobal) {
+    globalThis.astraNotificationTransportGlobal = createLogTransport();
+  }
+  return globalThis.astraNotificationTransportGlobal;
+}
+
+export function setNotificationTransport(transport: NotificationTransport): void {
+  globalThis.astraNotificationTransportGlobal = transport;
+}
+
+/**
+ * Delay before retry number `attempts` (1-based): 1, 2, 4, 8... minutes, capped at an hour.
+ */
+export function notificationRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+export async function enqueueNotification(params: {
+  merchantId: string;
+  kind: NotificationKind;
+  email: OutboundEmail;
+  followUpId?: string;
+  /** The customer whose data the email carries (data_request_export). */
+  customer?: { customerId?: string; customerEmail?: string };
+}): Promise<string> {
+  const notification = await prisma.outboundNotification.create({
+    data: {
+      merchantId: params.merchantId,
+      followUpId: params.followUpId,
+      kind: params.kind,
+      customerId: params.customer?.customerId,
+      customerEmail: params.customer?.customerEmail,
+      recipient: params.email.to,
+      subject: params.email.subject,
+      body: params.email.text,
+    },
+  });
+
+  logger.info("notifications.enqueued", {
+    merchantId: params.merchantId,
+    notificationId: notification.id,
+    kind: params.kind,
+  });
+
+  return notification.id;
+}
+
+/**
+ * Sends due notifications once. Each row is claimed by bumping `attempts`
+ * conditionally, so concurrent runs never send the same message twice.
+ */
+export async function deliverDueNotifications(params?: {
+  now?: Date;
+  limit?: number;
+  transport?: NotificationTransport;
+}): Promise<{ sent: number; failed: number }> {
+  const now = params?.now ?? new Date();
+  const transport = params?.transport ?? getNotificationTransport();
+
+  const due = await prisma.outboundNotification.findMany({
+    where: { status: "pending", nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: "asc" },
+    take: params?.limit ?? DELIVERY_BATCH_SIZE,
+  });
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const notification of due) {
+    const attempts = notification.attempts + 1;
+    const { count } = await prisma.outboundNotification.updateMany({
+      where: { id: notification.id, status: "pending", attempts: notification.attempts },
+      data: { attempts },
+    });
+    if (!count) continue;
+
+    try {
+      await transport.send({
+        to: notification.recipient,
+        subject: notification.subject,
+        text: notification.body,
+      });
+      await prisma.outboundNotification.update({
+        where: { id: notification.id },
+        data: { status: "sent", sentAt: new Date(), lastError: null },
+      });
+      sent += 1;
+    } catch (err: unknown) {
+      const giveUp = attempts >= MAX_NOTIFICATION_ATTEMPTS;
+      const message = err instanceof Error ? err.message : String(err);
+      await prisma.outboundNotification.update({
+        where: { id: notification.id },
+        data: {
+          status: giveUp ? "failed" : "pending",
+          lastError: message.slice(0, MAX_ERROR_LENGTH),
+          nextAttemptAt: new Date(now.getTime() + notificationRetryDelayMs(attempts)),
+        },
+      });
+      failed += 1;
+
+      logger[giveUp ? "error" : "warn"]("notifications.delivery_failed", {
+        merchantId: notification.merchantId,
+        notificationId: notification.id,
+        transport: transport.name,
+        attempts,
+        giveUp,
+        ...buildErrorMetadata(err),
+      });
+    }
+  }
+
+  if (sent || failed) {
+    logger.info("notifications.delivery_run", { transport: transport.name, sent, failed });
+  }
+
+  return { sent, failed };
+}
+
+/**
+ * Best effort, in-process: starts a delivery run unless one is already
+ * going, so new messages don't wait for the "notifications.deliver" job.
+ */
+export function scheduleNotificationDelivery(): void {
+  if (globalThis.astraNotificationDeliveryGlobal) return;
+
+  globalThis.astraNotificationDeliveryGlobal = deliverDueNotifications()
+    .then(() => undefined)
+    .catch((err: unknown) => {
+      logger.error("notifications.delivery_run_failed", buildErrorMetadata(err));
+    })
+    .finally(() => {
+      globalThis.astraNotificationDeliveryGlobal = undefined;
+    });
+}
@@ -0,0 +1,272 @@
+// app/utils/offline-tokens.server.ts
+//
+// Offline access tokens expire (future.expiringOfflineAccessTokens) and only
+// an interactive request refreshes them on its own. Background work -- jobs,
+// webhook replays, storefront order lookups, the operator CLI -- gets its
+// Admin API access through getOfflineAdmin / getOfflineSession, which
+// refresh the token ahead of expiry.
+//
+// One refresh per shop at a time: callers in this process share the pending
+// refresh, and other processes (web server, `npm run worker`) wait on a lease
+// on the Merchant row. Shopify rotates the refresh token on every refresh,
+// so two concurrent refreshes would invalidate each other.
+import { Session } from "@shopify/shopify-api";
+
+import prisma from "../db.server";
+import { sessionStorage, unauthenticated } from "../shopify.server";
+import { buildErrorMetadata, logEvent, logger } from "./logger.server";
+import { transitionMerchantStatus } from "./merchant-lifecycle.server";
+
+// Ahead of the library's own 5 minute window, so it never refreshes behind our back.
+export const OFFLINE_TOKEN_REFRESH_WINDOW_MS = 10 * 60_000;
+export const TOKEN_REFRESH_LEASE_MS = 30_000;
+const LEASE_POLL_INTERVAL_MS = 250;
+
+export type OfflineTokenErrorCode =
+  /** No offline session stored (never installed, or uninstalled). */
+  | "no_session"
+  /** The merchant has to open the app again; see needs_reauth. */
+  | "reauth_required"
+  /** Shopify or the network failed; worth retrying later. */
+  | "refresh_failed";
+
+export class OfflineTokenError extends Error {
+  name = "OfflineTokenError";
+
+  constructor(
+    message: string,
+    readonly code: OfflineTokenErrorCode
+  ) {
+    super(message);
+  }
+}
+
+type AccessTokenResponse = {
+  access_token: string;
+  scope: string;
+  expires_in?: number;
+  refresh_token?: string;
+  refresh_token_expires_in?: number;
+};
+
+export function offlineSessionId(shopDomain: string): string {
+  return `offline_${shopDomain}`;
+}
+
+function expiresWithin(at: Date | undefined, ms: number, now: Date): boolean {
+  return Boolean(at) && (at as Date).getTime() - ms < now.getTime();
+}
+
+/** True when the access token should be refreshed before use. */
+export function needsTokenRefresh(session: Session, now: Date = new Date()): boolean {
+  return expiresWithin(session.expires, OFFLINE_TOKEN_REFRESH_WINDOW_MS, now);
+}
+
+async function loadOfflineSession(shopDomain: string): Promise<Session | undefined> {
+  return sessionStorage.loadSession(offlineSessionId(shopDomain));
+}
+
+async function requestTokenRefresh(session: Session, now: Date): Promise<Session> {
+  let response: Response;
+  try {
+    response = await fetch(`https://${session.shop}/admin/oauth/access_token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({
+        client_id: process.env.SHOPIFY_API_KEY,
+        client_secret: process.env.SHOPIFY_API_SECRET,
+        grant_type: "refresh_token",
+        refresh_token: session.refreshToken,
+      }),
+    });
+  } catch (err: unknown) {
+    throw new OfflineTokenError(
+      `Token refresh request failed: ${err instanceof Error ? err.message : String(err)}`,
+      "refresh_failed"
+    );
+  }
+
+  if (!response.ok) {
+    // 4xx: the refresh token is invalid, expired or revoked.
+    const rejected = response.status >= 400 && response.status < 500 && response.status !== 429;
+    throw new OfflineTokenError(
+      `Token refresh failed (status ${response.status})`,
+      rejected ? "reauth_required" : "refresh_failed"
+    );
+  }
+
+  const body = (await response.json()) as AccessTokenResponse;
+  const at = (seconds: number | undefined) =>
+    seconds ? new Date(now.getTime() + seconds * 1000) : undefined;
+
+  // Without a new refresh token in the response, the current one stays valid.
+  return new Session({
+    ...session.toObject(),
+    accessToken: body.access_token,
+    scope: body.scope,
+    expires: at(body.expires_in),
+    refreshToken: body.refresh_token ?? session.refreshToken,
+    refreshTokenExpires: body.refresh_token
+      ? at(body.refresh_token_expires_in)
+      : session.refreshTokenExpires,
+  });
+}
+
+async function acquireRefreshLease(shopDomain: string, now: Date): Promise<boolean> {
+  const { count } = await prisma.merchant.updateMany({
+    where: {
+      shopDomain,
+      OR: [{ tokenRefreshLeaseUntil: null }, { tokenRefreshLeaseUntil: { lt: now } }],
+    },
+    data: { tokenRefreshLeaseUntil: new Date(now.getTime() + TOKEN_REFRESH_LEASE_MS) },
+  });
+  return count > 0;
+}
+
+async function releaseRefreshLease(shopDomain: string): Promise<void> {
+  await prisma.merchant.updateMany({
+    where: { shopDomain },
+    data: { tokenRefreshLeaseUntil: null },
+  });
+}
+
+/** Waits for another process's refresh; undefined when its lease ran out first. */
+async function waitForRefresh(shopDomain: string): Promise<Session | undefined> {
+  const deadline = Date.now() + TOKEN_REFRESH_LEASE_MS;
+  while (Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, LEASE_POLL_INTERVAL_MS));
+    const session = await loadOfflineSession(shopDomain);
+    if (session && !needsTokenRefresh(session)) return session;
+  }
+  return undefined;
+}
+
+async function markNeedsReauth(shopDomain: string, cause: OfflineTokenError): Promise<void> {
+  const merchant = await prisma.merchant.findUnique({
+    where: { shopDomain },
+    select: { merchantId: true },
+  });
+  if (!merchant) return;
+
+  // Only from the healthy statuses, so an uninstall that lands meanwhile wins.
+  const { changed } = await transitionMerchantStatus({
+    merchantId: merchant.merchantId,
+    to: "needs_reauth",
+    reason: "token_refresh_failed",
+    from: ["active", "missing_webhooks", "insufficient_scopes"],
+  });
+  if (changed) {
+    logger.warn("merchant.needs_reauth", {
+      merchantId: merchant.merchantId,
+      shopDomain,
+      errorMessage: cause.message,
+    });
+  }
+}
+
+async function refreshOfflineSession(shopDomain: string, stale: Session): Promise<Session> {
+  const started = Date.now();
+  const merchant = await prisma.merchant.findUnique({
+    where: { shopDomain },
+    select: { status: true },
+  });
+  if (merchant?.status === "needs_reauth") {
+    throw new OfflineTokenError(`${shopDomain} needs to re-authenticate`, "reauth_required");
+  }
+
+  // A shop without a Merchant row (mid-install) has no lease to take.
+  let leased = !merchant || (await acquireRefreshLease(shopDomain, new Date()));
+  if (!leased) {
+    const refreshed = await waitForRefresh(shopDomain);
+    if (refreshed) return refreshed;
+
+    // The holder's lease ran out without a refresh. Take it over, unless
+    // another waiter got there first.
+    leased = await acquireRefreshLease(shopDomain, new Date());
+    if (!leased) {
+      throw new OfflineTokenError(
+        `Token refresh for ${shopDomain} is still running elsewhere`,
+        "refresh_failed"
+      );
+    }
+  }
+
+  try {
+    // Another process may have refreshed between our read and the lease.
+    const current = (await loadOfflineSession(shopDomain)) ?? stale;
+    if (!needsTokenRefresh(current)) return current;
+
+    const now = new Date();
+    if (!current.refreshToken || expiresWithin(current.refreshTokenExpires, 0, now)) {
+      throw new OfflineTokenError("No usable refresh token", "reauth_required");
+    }
+
+    const session = await requestTokenRefresh(current, now);
+    await sessionStorage.storeSession(session);
+
+    logEvent("Offline token refreshed", {
+      eventType: "token_refresh",
+      outcome: "success",
+      shopDomain,
+      durationMs: Date.now() - started,
+    });
+    return session;
+  } catch (err: unknown) {
+    logEvent("Offline token refresh failed", {
+      eventType: "token_refresh",
+      outcome: "failure",
+      shopDomain,
+      durationMs: Date.now() - started,
+      ...buildErrorMetadata(err, {
+        errorCode: "TOKEN_REFRESH_FAILED",
+        errorMessage: err instanceof OfflineTokenError ? err.message : undefined,
+      }),
+    });
+
+    if (err instanceof OfflineTokenError && err.code === "reauth_required") {
+      await markNeedsReauth(shopDomain, err);
+    }
+    throw err;
+  } finally {
+    if (leased && merchant) await releaseRefreshLease(shopDomain);
+  }
+}
+
+const pendingRefreshes = new Map<string, Promise<Session>>();
+
+/**
+ * The shop's offline session with an access token valid for at least
+ * OFFLINE_TOKEN_REFRESH_WINDOW_MS. Throws OfflineTokenError when there is no
+ * session or it can't be refreshed; a refresh Shopify rejects moves the
+ * merchant to needs_reauth. A transient failure leaves the token in use
+ * while it is still valid.
+ */
+export async function getOfflineSession(shopDomain: string): Promise<Session> {
+  const session = await loadOfflineSession(shopDomain);
+  if (!session) {
+    throw new OfflineTokenError(`No offline session for ${shopDomain}`, "no_session");
+  }
+  if (!needsTokenRefresh(session)) return session;
+
+  let pending = pendingRefreshes.get(shopDomain);
+  if (!pending) {
+    pending = refreshOfflineSession(shopDomain, session).finally(() =>
+      pendingRefreshes.delete(shopDomain)
+    );
+    pendingRefreshes.set(shopDomain, pending);
+  }
+
+  try {
+    return await pending;
+  } catch (err: unknown) {
+    const transient = err instanceof OfflineTokenError && err.code === "refresh_failed";
+    if (transient && !expiresWithin(session.expires, 0, new Date())) return session;
+    throw err;
+  }
+}
+
+/** Like unauthenticated.admin, with the token refreshed through getOfflineSession. */
+export async function getOfflineAdmin(shopDomain: string) {
+  await getOfflineSession(shopDomain);
+  return unauthenticated.admin(shopDomain);
+}
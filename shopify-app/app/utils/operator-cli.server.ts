@@ -0,0 +1,147 @@
+// app/utils/operator-cli.server.ts
+//
+// Plumbing for the `astra` operator CLI (scripts/astra.ts): argument
+// parsing, table/JSON output and exit codes. The commands themselves live in
+// operator-commands.server.ts.
+
+export const EXIT_OK = 0;
+/** The command ran but found a problem (for CI checks), or failed. */
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+export type CliArgs = {
+  positionals: string[];
+  /** `--flag` is true, `--key=value` is the string. */
+  flags: Record<string, string | boolean>;
+};
+
+export type CliIO = {
+  out: (text: string) => void;
+  err: (text: string) => void;
+};
+
+export type CliCommand = {
+  name: string;
+  /** Arguments after the command name, e.g. "<shop> [--repair]". */
+  usage: string;
+  summary: string;
+  /** Resolves to the exit code. */
+  run(args: CliArgs, io: CliIO): Promise<number>;
+};
+
+export class CliUsageError extends Error {
+  name = "CliUsageError";
+}
+
+export function parseCliArgs(argv: string[]): CliArgs {
+  const args: CliArgs = { positionals: [], flags: {} };
+
+  for (const token of argv) {
+    if (token.startsWith("--") && token.length > 2) {
+      const eq = token.indexOf("=");
+      if (eq === -1) args.flags[token.slice(2)] = true;
+      else args.flags[token.slice(2, eq)] = token.slice(eq + 1);
+    } else {
+      args.positionals.push(token);
+    }
+  }
+
+  return args;
+}
+
+export function requirePositional(args: CliArgs, index: number, name: string): string {
+  const value = args.positionals[index];
+  if (!value) throw new CliUsageError(`Missing <${name}>`);
+  return value;
+}
+
+export function stringFlag(args: CliArgs, name: string): string | undefined {
+  const value = args.flags[name];
+  if (value === true) throw new CliUsageError(`--${name} needs a value (--${name}=...)`);
+  return value || undefined;
+}
+
+function cell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+/** Plain aligned columns; column order follows the first row. */
+export function formatTable(rows: Array<Record<string, unknown>>): string {
+  if (!rows.length) return "(none)";
+
+  const columns = Object.keys(rows[0]);
+  const body = rows.map((row) => columns.map((column) => cell(row[column])));
+  const widths = columns.map((column, i) =>
+    Math.max(column.length, ...body.map((cells) => cells[i].length))
+  );
+  const line = (cells: string[]) =>
+    cells.map((c, i) => c.padEnd(widths[i])).join("  ").trimEnd();
+
+  return [line(columns), line(widths.map((w) => "-".repeat(w))), ...body.map(line)].join("\n");
+}
+
+/** `--json` prints `data` as JSON; otherwise `rows` as a table. */
+export function printResult(
+  io: CliIO,
+  args: CliArgs,
+  data: unknown,
+  rows: Array<Record<string, unknown>>
+): void {
+  if (args.flags.json) {
+    io.out(
+      JSON.stringify(data, (_key, value) => (typeof value === "bigint" ? String(value) : value), 2)
+    );
+  } else {
+    io.out(formatTable(rows));
+  }
+}
+
+export function formatUsage(program: string, commands: CliCommand[]): string {
+  const width = Math.max(...commands.map((c) => `${c.name} ${c.usage}`.trimEnd().length));
+  return [
+    `Usage: ${program} <command> [options]`,
+    "",
+    "Commands:",
+    ...commands.map(
+      (c) => `  ${`${c.name} ${c.usage}`.trimEnd().padEnd(width)}  ${c.summary}`
+    ),
+    "",
+    "Options:",
+    "  --json  Print JSON instead of a table",
+  ].join("\n");
+}
+
+export async function runCli(
+  program: string,
+  argv: string[],
+  commands: CliCommand[],
+  io: CliIO
+): Promise<number> {
+  const [name, ...rest] = argv;
+  const command = commands.find((c) => c.name === name);
+
+  if (!name || name === "help" || name === "--help") {
+    io.out(formatUsage(program, commands));
+    return name ? EXIT_OK : EXIT_USAGE;
+  }
+
+  if (!command) {
+    io.err(`Unknown command: ${name}\n\n${formatUsage(program, commands)}`);
+    return EXIT_USAGE;
+  }
+
+  try {
+    return await command.run(parseCliArgs(rest), io);
+  } catch (err: unknown) {
+    if (err instanceof CliUsageError) {
+      io.err(`${err.message}\n\nUsage: ${program} ${command.name} ${command.usage}`.trimEnd());
+      return EXIT_USAGE;
+    }
+
+    io.err(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    return EXIT_FAILURE;
+  }
+}
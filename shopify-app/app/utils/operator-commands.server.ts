@@ -0,0 +1,303 @@
+// app/utils/operator-commands.server.ts
+//
+// Commands of the `astra` operator CLI (`npm run astra -- <command>`).
+// Read-only unless a command says otherwise; tokens are never printed.
+// Modules that load shopify.server (and so need the app's environment) are
+// imported inside the commands that call Shopify, so `help` and the
+// database-only commands run without SHOPIFY_APP_URL and friends.
+import { writeFile } from "node:fs/promises";
+
+import prisma from "../db.server";
+import type { CliCommand } from "./operator-cli.server";
+import {
+  EXIT_FAILURE,
+  EXIT_OK,
+  printResult,
+  requirePositional,
+  stringFlag,
+} from "./operator-cli.server";
+import { getMerchantTimeline } from "./merchant-lifecycle.server";
+import {
+  loadSessionKeyring,
+  reencryptSessions,
+  tokenKeyId,
+} from "./session-encryption.server";
+import { inspectWebhookRegistrations } from "./shopify-webhook-registration.server";
+
+async function requireMerchant(shopDomain: string) {
+  const merchant = await prisma.merchant.findUnique({ where: { shopDomain } });
+  if (!merchant) throw new Error(`No merchant for ${shopDomain}`);
+  return merchant;
+}
+
+const merchantsCommand: CliCommand = {
+  name: "merchants",
+  usage: "[--status=<status>]",
+  summary: "List merchants with their status",
+  async run(args, io) {
+    const status = stringFlag(args, "status");
+    const merchants = await prisma.merchant.findMany({
+      where: status ? { status } : undefined,
+      orderBy: { shopDomain: "asc" },
+      include: { _count: { select: { webhooks: true, conversations: true } } },
+    });
+
+    const rows = merchants.map((m) => ({
+      shopDomain: m.shopDomain,
+      merchantId: m.merchantId,
+      status: m.status,
+      statusUpdatedAt: m.statusUpdatedAt,
+      firstInstalledAt: m.firstInstalledAt,
+      lastInstalledAt: m.lastInstalledAt,
+      installs: m.installCount,
+      webhooks: m._count.webhooks,
+      conversations: m._count.conversations,
+    }));
+    printResult(io, args, rows, rows);
+    return EXIT_OK;
+  },
+};
+
+const webhooksCommand: CliCommand = {
+  name: "webhooks",
+  usage: "<shop> [--repair]",
+  summary: "Check a shop's webhook subscriptions (exit 1 if unhealthy); --repair fixes them",
+  async run(args, io) {
+    const shopDomain = requirePositional(args, 0, "shop");
+    const merchant = await requireMerchant(shopDomain);
+
+    if (args.flags.repair) {
+      const { reconcileMerchantWebhooks } = await import("./webhook-health.server");
+      const health = await reconcileMerchantWebhooks(merchant);
+      const data = { shopDomain, ...health };
+      printResult(io, args, data, [
+        { shopDomain, status: health.status, missingTopics: health.missingTopics.join(", ") },
+      ]);
+      return health.status === "active" ? EXIT_OK : EXIT_FAILURE;
+    }
+
+    const { getOfflineAdmin } = await import("./offline-tokens.server");
+    const { admin } = await getOfflineAdmin(shopDomain);
+    const plan = await inspectWebhookRegistrations(admin);
+    const stored = await prisma.merchantWebhook.findMany({
+      where: { merchantId: merchant.merchantId },
+      orderBy: { topic: "asc" },
+    });
+
+    const rows = [
+      ...plan.keep.map(({ subscription }) => ({
+        state: "ok",
+        topic: subscription.topic,
+        id: subscription.id,
+        callbackUrl: subscription.endpoint?.callbackUrl,
+      })),
+      ...plan.create.map(({ required, callbackUrl }) => ({
+        state: "missing",
+        topic: required.topic,
+        id: "",
+        callbackUrl,
+      })),
+      ...plan.remove.map((subscription) => ({
+        state: "stale",
+        topic: subscription.topic,
+        id: subscription.id,
+        callbackUrl: subscription.endpoint?.callbackUrl,
+      })),
+    ];
+    const healthy = plan.create.length === 0 && plan.remove.length === 0;
+
+    printResult(
+      io,
+      args,
+      { shopDomain, merchantStatus: merchant.status, healthy, ...plan, stored },
+      rows
+    );
+    return healthy ? EXIT_OK : EXIT_FAILURE;
+  },
+};
+
+const sessionsCommand: CliCommand = {
+  name: "sessions",
+  usage: "[--shop=<shop>]",
+  summary: "List stored sessions (tokens are never shown)",
+  async run(args, io) {
+    const shop = stringFlag(args, "shop");
+    const sessions = await prisma.session.findMany({
+      where: shop ? { shop } : undefined,
+      orderBy: [{ shop: "asc" }, { isOnline: "asc" }],
+    });
+
+    const now = Date.now();
+    const rows = sessions.map((s) => ({
+      id: s.id,
+      shop: s.shop,
+      online: s.isOnline,
+      scope: s.scope,
+      hasAccessToken: Boolean(s.accessToken),
+      tokenKey: s.accessToken ? (tokenKeyId(s.accessToken) ?? "plaintext") : "",
+      expires: s.expires,
+      expired: s.expires ? s.expires.getTime() <= now : false,
+      hasRefreshToken: Boolean(s.refreshToken),
+      refreshTokenExpires: s.refreshTokenExpires,
+    }));
+    printResult(io, args, rows, rows);
+    return EXIT_OK;
+  },
+};
+
+const timelineCommand: CliCommand = {
+  name: "timeline",
+  usage: "<shop>",
+  summary: "Show a merchant's status history (installs, uninstalls, webhook health)",
+  async run(args, io) {
+    const shopDomain = requirePositional(args, 0, "shop");
+    const merchant = await requireMerchant(shopDomain);
+    const events = await getMerchantTimeline(merchant.merchantId);
+
+    const rows = events.map((e) => ({
+      at: e.createdAt,
+      from: e.fromStatus ?? "-",
+      to: e.toStatus,
+      reason: e.reason,
+      requestId: e.requestId,
+    }));
+    printResult(io, args, { shopDomain, status: merchant.status, events }, rows);
+    return EXIT_OK;
+  },
+};
+
+const reencryptCommand: CliCommand = {
+  name: "reencrypt",
+  usage: "[--dry-run]",
+  summary: "Re-encrypt stored session tokens with the current SESSION_ENCRYPTION_KEYS key",
+  async run(args, io) {
+    const keyring = loadSessionKeyring();
+    if (!keyring) {
+      io.err("SESSION_ENCRYPTION_KEYS is not set; nothing to encrypt with.");
+      return EXIT_FAILURE;
+    }
+
+    const summary = await reencryptSessions(keyring, { dryRun: Boolean(args.flags["dry-run"]) });
+    printResult(io, args, { keyId: keyring.currentKeyId, ...summary }, [
+      { keyId: keyring.currentKeyId, ...summary },
+    ]);
+    return summary.failed ? EXIT_FAILURE : EXIT_OK;
+  },
+};
+
+const replayCommand: CliCommand = {
+  name: "replay",
+  usage: "<webhook-id>",
+  summary: "Run a recorded webhook delivery's handler again",
+  async run(args, io) {
+    const webhookId = requirePositional(args, 0, "webhook-id");
+    const [{ webhookHandlers }, { replayWebhook }] = await Promise.all([
+      import("./webhook-handlers.server"),
+      import("./webhook-router.server"),
+    ]);
+    const replayed = await replayWebhook(webhookId, webhookHandlers);
+    const { outcome, ...result } = replayed.result;
+
+    printResult(io, args, replayed, [
+      {
+        webhookId,
+        topic: replayed.topic,
+        shopDomain: replayed.shopDomain,
+        outcome: outcome ?? "success",
+        result,
+      },
+    ]);
+    return outcome === "failure" ? EXIT_FAILURE : EXIT_OK;
+  },
+};
+
+/** Everything stored for one merchant, for support or a data request. */
+export async function exportMerchantData(shopDomain: string) {
+  const merchant = await requireMerchant(shopDomain);
+  const merchantId = merchant.merchantId;
+
+  const [
+    webhooks,
+    statusEvents,
+    settingsArchives,
+    widget,
+    businessHours,
+    holidays,
+    knowledge,
+    conversations,
+    followUps,
+  ] = await Promise.all([
+    prisma.merchantWebhook.findMany({ where: { merchantId } }),
+    getMerchantTimeline(merchantId),
+    prisma.merchantSettingsArchive.findMany({
+      where: { merchantId },
+      orderBy: { createdAt: "asc" },
+    }),
+    prisma.widgetSettings.findUnique({ where: { merchantId } }),
+    prisma.businessHours.findUnique({ where: { merchantId } }),
+    prisma.holidayException.findMany({ where: { merchantId }, orderBy: { date: "asc" } }),
+    prisma.knowledgeEntry.findMany({ where: { merchantId } }),
+    prisma.conversation.findMany({
+      where: { merchantId },
+      orderBy: { createdAt: "asc" },
+      include: {
+        participants: true,
+        messages: { orderBy: { createdAt: "asc" } },
+      },
+    }),
+    prisma.followUp.findMany({ where: { merchantId }, orderBy: { createdAt: "asc" } }),
+  ]);
+
+  return {
+    exportedAt: new Date().toISOString(),
+    merchant,
+    webhooks,
+    statusEvents,
+    settingsArchives,
+    widget,
+    businessHours,
+    holidays,
+    knowledge,
+    conversations,
+    followUps,
+  };
+}
+
+const exportCommand: CliCommand = {
+  name: "export",
+  usage: "<shop> [--out=<file>]",
+  summary: "Export a merchant's data as JSON (table: counts only)",
+  async run(args, io) {
+    const shopDomain = requirePositional(args, 0, "shop");
+    const out = stringFlag(args, "out");
+    const data = await exportMerchantData(shopDomain);
+
+    const counts = {
+      shopDomain,
+      knowledge: data.knowledge.length,
+      conversations: data.conversations.length,
+      messages: data.conversations.reduce((n, c) => n + c.messages.length, 0),
+      followUps: data.followUps.length,
+      holidays: data.holidays.length,
+    };
+
+    if (out) {
+      await writeFile(out, JSON.stringify(data, null, 2));
+      printResult(io, args, counts, [{ ...counts, file: out }]);
+      return EXIT_OK;
+    }
+
+    printResult(io, args, data, [counts]);
+    return EXIT_OK;
+  },
+};
+
+export const operatorCommands: CliCommand[] = [
+  merchantsCommand,
+  webhooksCommand,
+  sessionsCommand,
+  reencryptCommand,
+  timelineCommand,
+  replayCommand,
+  exportCommand,
+];
@@ -0,0 +1,286 @@
+// app/utils/order-lookup.server.ts
+//
+// Storefront "Order status" lookup. The shopper proves ownership with the order
+// number PLUS the order email or a postal code on the order. Mismatches and
+// unknown orders return the same "not found" result (no order enumeration).
+import type { AdminGraphqlClient } from "./admin-graphql.server";
+import { adminGraphql } from "./admin-graphql.server";
+import { logger } from "./logger.server";
+
+type OrderTrackingInfo = {
+  company?: string | null;
+  number?: string | null;
+  url?: string | null;
+};
+
+type OrderFulfillmentNode = {
+  status?: string | null;
+  displayStatus?: string | null;
+  createdAt?: string | null;
+  estimatedDeliveryAt?: string | null;
+  deliveredAt?: string | null;
+  trackingInfo?: OrderTrackingInfo[] | null;
+};
+
+type OrderNode = {
+  id: string;
+  name: string;
+  email?: string | null;
+  createdAt: string;
+  cancelledAt?: string | null;
+  displayFinancialStatus?: string | null;
+  displayFulfillmentStatus?: string | null;
+  shippingAddress?: { zip?: string | null } | null;
+  billingAddress?: { zip?: string | null } | null;
+  fulfillments?: OrderFulfillmentNode[] | null;
+};
+
+export type OrderVerifier =
+  | { kind: "email"; value: string }
+  | { kind: "postal_code"; value: string };
+
+export type OrderFulfillmentView = {
+  status: string | null;
+  trackingCompany: string | null;
+  trackingNumber: string | null;
+  trackingUrl: string | null;
+  estimatedDeliveryAt: string | null;
+  deliveredAt: string | null;
+};
+
+// Deliberately excludes email/addresses: the widget only needs status + tracking.
+export type OrderStatusView = {
+  name: string;
+  createdAt: string;
+  cancelled: boolean;
+  financialStatus: string | null;
+  fulfillmentStatus: string | null;
+  fulfillments: OrderFulfillmentView[];
+};
+
+export type OrderLookupResult =
+  | { found: true; order: OrderStatusView }
+  | { found: false };
+
+const ORDER_STATUS_QUERY = `
+  query OrderStatusLookup($query: String!) {
+    orders(first: 5, query: $query) {
+      edges {
+        node {
+          id
+          name
+          email
+          createdAt
+          cancelledAt
+          displayFinancialStatus
+          displayFulfillmentStatus
+          shippingAddress {
+            zip
+          }
+          billingAddress {
+            zip
+          }
+          fulfillments(first: 10) {
+            status
+            displayStatus
+            createdAt
+            estimatedDeliveryAt
+            deliveredAt
+            trackingInfo(first: 5) {
+              company
+              number
+              url
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const ORDER_NUMBER_RE = /^[A-Za-z0-9-]{1,32}$/;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const POSTAL_CODE_RE = /^[A-Z0-9-]{2,12}$/;
+
+// Per shop + order number and per shop + client IP (see orderLookupLimitKeys).
+// Enough for a typo or two, not enough to guess.
+export const ORDER_LOOKUP_MAX_ATTEMPTS = 5;
+export const ORDER_LOOKUP_WINDOW_MS = 10 * 60 * 1000;
+
+const attempts = new Map<string, { count: number; resetAt: number }>();
+let attemptsPrunedAt = 0;
+
+/** "#1001", " 1001 " -> "1001" */
+export function normalizeOrderNumber(raw: unknown): string | undefined {
+  if (typeof raw !== "string") return undefined;
+
+  const v = raw.trim().replace(/^#/, "").trim();
+  return ORDER_NUMBER_RE.test(v) ? v : undefined;
+}
+
+export function normalizePostalCode(raw: string): string {
+  return raw.replace(/\s+/g, "").toUpperCase();
+}
+
+/**
+ * Anything with an "@" is treated as an email, everything else as a postal code.
+ */
+export function parseOrderVerifier(raw: unknown): OrderVerifier | undefined {
+  if (typeof raw !== "string") return undefined;
+
+  const v = raw.trim();
+  if (!v || v.length > 254) return undefined;
+
+  if (v.includes("@")) {
+    return EMAIL_RE.test(v) ? { kind: "email", value: v.toLowerCase() } : undefined;
+  }
+
+  const postal = normalizePostalCode(v);
+  return POSTAL_CODE_RE.test(postal) ? { kind: "postal_code", value: postal } : undefined;
+}
+
+export function orderMatchesVerifier(order: OrderNode, verifier: OrderVerifier): boolean {
+  if (verifier.kind === "email") {
+    return Boolean(order.email) && order.email?.trim().toLowerCase() === verifier.value;
+  }
+
+  return [order.shippingAddress?.zip, order.billingAddress?.zip].some(
+    (zip) => Boolean(zip) && normalizePostalCode(zip ?? "") === verifier.value
+  );
+}
+
+export function toOrderStatusView(order: OrderNode): OrderStatusView {
+  return {
+    name: order.name,
+    createdAt: order.createdAt,
+    cancelled: Boolean(order.cancelledAt),
+    financialStatus: order.displayFinancialStatus ?? null,
+    fulfillmentStatus: order.displayFulfillmentStatus ?? null,
+    fulfillments: (order.fulfillments ?? []).map((fulfillment) => {
+      const tracking = fulfillment.trackingInfo?.[0];
+      return {
+        status: fulfillment.displayStatus ?? fulfillment.status ?? null,
+        trackingCompany: tracking?.company ?? null,
+        trackingNumber: tracking?.number ?? null,
+        trackingUrl: tracking?.url ?? null,
+        estimatedDeliveryAt: fulfillment.estimatedDeliveryAt ?? null,
+        deliveredAt: fulfillment.deliveredAt ?? null,
+      };
+    }),
+  };
+}
+
+function humanize(status: string): string {
+  return status.toLowerCase().replace(/_/g, " ");
+}
+
+/**
+ * One-line summary stored in the conversation (visible to agents). No PII.
+ */
+export function formatOrderStatusSummary(order: OrderStatusView): string {
+  if (order.cancelled) return `Order ${order.name} was cancelled.`;
+
+  const parts = [`Order ${order.name}`];
+  if (order.fulfillmentStatus) parts.push(`is ${humanize(order.fulfillmentStatus)}`);
+
+  const tracked = order.fulfillments.find((f) => f.trackingNumber);
+  if (tracked) {
+    parts.push(
+      `- tracking ${tracked.trackingCompany ? `${tracked.trackingCompany} ` : ""}${tracked.trackingNumber}`
+    );
+  }
+
+  return `${parts.join(" ")}.`;
+}
+
+/**
+ * Rate limit keys for a lookup. Not the visitor id: the widget sends it, so a
+ * fresh one per request would reset the count. Keying on the order number
+ * caps guesses of its postal code; the IP caps walking through order numbers.
+ */
+export function orderLookupLimitKeys(params: {
+  merchantId: string;
+  orderNumber: string;
+  clientIp?: string;
+}): string[] {
+  const keys = [`${params.merchantId}:order:${params.orderNumber.toUpperCase()}`];
+  if (params.clientIp) keys.push(`${params.merchantId}:ip:${params.clientIp}`);
+  return keys;
+}
+
+function pruneOrderLookupAttempts(now: number): void {
+  if (now - attemptsPrunedAt < ORDER_LOOKUP_WINDOW_MS) return;
+  attemptsPrunedAt = now;
+  for (const [key, entry] of attempts) {
+    if (entry.resetAt <= now) attempts.delete(key);
+  }
+}
+
+/**
+ * Returns false once the key exceeded ORDER_LOOKUP_MAX_ATTEMPTS in the window.
+ */
+export function consumeOrderLookupAttempt(key: string, now: number = Date.now()): boolean {
+  pruneOrderLookupAttempts(now);
+  const entry = attempts.get(key);
+
+  if (!entry || entry.resetAt <= now) {
+    attempts.set(key, { count: 1, resetAt: now + ORDER_LOOKUP_WINDOW_MS });
+    return true;
+  }
+
+  entry.count++;
+  return entry.count <= ORDER_LOOKUP_MAX_ATTEMPTS;
+}
+
+/** Counts the attempt against every key; false when any of them is used up. */
+export function consumeOrderLookupAttempts(keys: string[], now: number = Date.now()): boolean {
+  return keys.map((key) => consumeOrderLookupAttempt(key, now)).every(Boolean);
+}
+
+export function resetOrderLookupAttempts(): void {
+  attempts.clear();
+  attemptsPrunedAt = 0;
+}
+
+/** Tracked rate limit keys, for tests. */
+export function orderLookupAttemptCount(): number {
+  return attempts.size;
+}
+
+async function fetchOrdersByName(
+  admin: AdminGraphqlClient,
+  orderNumber: string
+): Promise<OrderNode[]> {
+  const { data } = await adminGraphql<{
+    orders?: { edges?: Array<{ node?: OrderNode | null }> };
+  }>(admin, ORDER_STATUS_QUERY, { variables: { query: `name:"#${orderNumber}"` } });
+
+  return (data.orders?.edges ?? [])
+    .map((edge) => edge.node)
+    .filter((node): node is OrderNode => Boolean(node));
+}
+
+export async function lookupOrderStatus(params: {
+  admin: AdminGraphqlClient;
+  merchantId: string;
+  orderNumber: string;
+  verifier: OrderVerifier;
+}): Promise<OrderLookupResult> {
+  const started = Date.now();
+  const orders = await fetchOrdersByName(params.admin, params.orderNumber);
+
+  // Search is fuzzy; only accept an exact name match.
+  const order = orders.find(
+    (o) => normalizeOrderNumber(o.name)?.toLowerCase() === params.orderNumber.toLowerCase()
+  );
+  const matched = order ? orderMatchesVerifier(order, params.verifier) : false;
+
+  logger.info("order_lookup.completed", {
+    merchantId: params.merchantId,
+    verifierKind: params.verifier.kind,
+    found: matched,
+    durationMs: Date.now() - started,
+  });
+
+  return order && matched ? { found: true, order: toOrderStatusView(order) } : { found: false };
+}
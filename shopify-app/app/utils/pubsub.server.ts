@@ -0,0 +1,68 @@
+// app/utils/pubsub.server.ts
+//
+// Fan-out for live updates (SSE streams). The default implementation is
+// in-process, which is enough for a single app instance. Running several
+// instances needs an external broker: implement PubSub and call setPubSub()
+// at startup.
+import { buildErrorMetadata, logger } from "./logger.server";
+
+export type PubSubListener<T = unknown> = (payload: T) => void;
+
+export type PubSub = {
+  publish: (channel: string, payload: unknown) => Promise<void>;
+  /** Returns an unsubscribe function. */
+  subscribe: (channel: string, listener: PubSubListener) => () => void;
+};
+
+export function createMemoryPubSub(): PubSub {
+  const channels = new Map<string, Set<PubSubListener>>();
+
+  return {
+    async publish(channel, payload) {
+      const listeners = channels.get(channel);
+      if (!listeners) return;
+
+      // Copy: listeners may unsubscribe while being notified.
+      for (const listener of Array.from(listeners)) {
+        try {
+          listener(payload);
+        } catch (err: unknown) {
+          logger.error("pubsub.listener_failed", { channel, ...buildErrorMetadata(err) });
+        }
+      }
+    },
+
+    subscribe(channel, listener) {
+      let listeners = channels.get(channel);
+      if (!listeners) {
+        listeners = new Set();
+        channels.set(channel, listeners);
+      }
+      listeners.add(listener);
+
+      return () => {
+        const current = channels.get(channel);
+        if (!current) return;
+        current.delete(listener);
+        if (current.size === 0) channels.delete(channel);
+      };
+    },
+  };
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var astraPubSubGlobal: PubSub | undefined;
+}
+
+// Kept on globalThis so dev HMR reloads don't split publishers and subscribers.
+export function getPubSub(): PubSub {
+  if (!globalThis.astraPubSubGlobal) {
+    globalThis.astraPubSubGlobal = createMemoryPubSub();
+  }
+  return globalThis.astraPubSubGlobal;
+}
+
+export function setPubSub(pubsub: PubSub): void {
+  globalThis.astraPubSubGlobal = pubsub;
+}
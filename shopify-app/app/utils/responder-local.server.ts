@@ -0,0 +1,158 @@
+// app/utils/responder-local.server.ts
+//
+// Deterministic rule/template responder. No network, no randomness:
+// the same history always produces the same reply (tests + local dev).
+import type { KnowledgeEntryView } from "./knowledge.server";
+import { matchKnowledgeEntry } from "./knowledge.server";
+import type {
+  ResponderInput,
+  ResponderProvider,
+  ResponderReply,
+} from "./responder.server";
+
+export const LOCAL_RESPONDER_NAME = "local";
+
+type Rule = {
+  intent: string;
+  pattern: RegExp;
+  template: string;
+  handoff?: boolean;
+};
+
+// Order matters: first match wins.
+const RULES: Rule[] = [
+  {
+    intent: "handoff",
+    pattern: /\b(human|agent|person|someone|representative|talk to support|live chat)\b/i,
+    template:
+      "Sure, I'll connect you with the {brandName} team. Someone will reply here as soon as possible.",
+    handoff: true,
+  },
+  {
+    intent: "order_status",
+    pattern: /\b(order|tracking|track|parcel|package|where is my)\b/i,
+    template:
+      "I can help with your order. Tap \"Order status\" and enter your order number with the email or postal code used at checkout.",
+  },
+  {
+    intent: "shipping",
+    pattern: /\b(ship|shipping|shipped|delivery|deliver|courier)\b/i,
+    template:
+      "Tap \"Shipping info\" to see {brandName}'s shipping options and delivery times.",
+  },
+  {
+    intent: "returns",
+    pattern: /\b(return|returns|refund|exchange)\b/i,
+    template:
+      "For returns, refunds or exchanges, tap \"Talk to support\" and the {brandName} team will help you.",
+  },
+  {
+    intent: "thanks",
+    pattern: /\b(thanks|thank you|thx|cheers)\b/i,
+    template: "You're welcome! Is there anything else I can help with?",
+  },
+  {
+    intent: "greeting",
+    pattern: /^\s*(hi|hello|hey|good (morning|afternoon|evening))\b/i,
+    template: "Hi there! How can {brandName} help you today?",
+  },
+];
+
+const FALLBACK_TEMPLATE =
+  "I'm not sure I understood. Could you rephrase? You can also tap \"Talk to support\" to reach the {brandName} team.";
+const REPEATED_FALLBACK_TEMPLATE =
+  "Sorry, I still can't help with that. I'll pass this conversation to the {brandName} team.";
+
+// After this many consecutive fallbacks the bot stops guessing and hands off.
+const MAX_CONSECUTIVE_FALLBACKS = 2;
+
+// Long imported policies are cut down; the "Shipping info" action shows them in full.
+const KNOWLEDGE_ANSWER_MAX_LENGTH = 600;
+
+export function renderTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => vars[key] ?? match);
+}
+
+function countTrailingFallbacks(input: ResponderInput, fallbackBody: string): number {
+  let count = 0;
+
+  for (let i = input.history.length - 1; i >= 0; i--) {
+    const turn = input.history[i];
+    if (turn.role === "customer") continue;
+    if (turn.role !== "bot" || turn.body !== fallbackBody) break;
+    count++;
+  }
+
+  return count;
+}
+
+function excerpt(text: string): string {
+  if (text.length <= KNOWLEDGE_ANSWER_MAX_LENGTH) return text;
+  return `${text.slice(0, KNOWLEDGE_ANSWER_MAX_LENGTH).trimEnd()}… Tap "Shipping info" for the full policy.`;
+}
+
+/**
+ * Shipping questions: the closest FAQ, else the first policy snippet.
+ */
+function answerShipping(text: string, knowledge: KnowledgeEntryView[]): string | undefined {
+  const faq = matchKnowledgeEntry(text, knowledge, { minScore: 1 });
+  if (faq) return excerpt(faq.body);
+
+  const policy = knowledge.find((entry) => entry.kind === "policy");
+  return policy ? excerpt(policy.body) : undefined;
+}
+
+async function respond(input: ResponderInput): Promise<ResponderReply> {
+  const vars = { brandName: input.merchant.brandName };
+  const lastCustomerTurn = [...input.history].reverse().find((t) => t.role === "customer");
+  const text = lastCustomerTurn?.body ?? "";
+  const knowledge = input.merchant.knowledge ?? [];
+
+  const rule = RULES.find((r) => r.pattern.test(text));
+  if (rule) {
+    const answer = rule.intent === "shipping" ? answerShipping(text, knowledge) : undefined;
+    return {
+      provider: LOCAL_RESPONDER_NAME,
+      intent: rule.intent,
+      body: answer ?? renderTemplate(rule.template, vars),
+      confidence: answer ? 0.9 : 0.8,
+      handoff: Boolean(rule.handoff),
+    };
+  }
+
+  // Unrecognised wording can still be a question the merchant answered in an FAQ.
+  const faq = matchKnowledgeEntry(text, knowledge);
+  if (faq) {
+    return {
+      provider: LOCAL_RESPONDER_NAME,
+      intent: "knowledge",
+      body: excerpt(faq.body),
+      confidence: 0.6,
+      handoff: false,
+    };
+  }
+
+  const fallbackBody = renderTemplate(FALLBACK_TEMPLATE, vars);
+  if (countTrailingFallbacks(input, fallbackBody) >= MAX_CONSECUTIVE_FALLBACKS) {
+    return {
+      provider: LOCAL_RESPONDER_NAME,
+      intent: "fallback",
+      body: renderTemplate(REPEATED_FALLBACK_TEMPLATE, vars),
+      confidence: 0,
+      handoff: true,
+    };
+  }
+
+  return {
+    provider: LOCAL_RESPONDER_NAME,
+    intent: "fallback",
+    body: fallbackBody,
+    confidence: 0.1,
+    handoff: false,
+  };
+}
+
+export const localResponder: ResponderProvider = {
+  name: LOCAL_RESPONDER_NAME,
+  respond,
+};
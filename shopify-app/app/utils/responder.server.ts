@@ -0,0 +1,152 @@
+// app/utils/responder.server.ts
+//
+// Responder engine: turns a conversation history + merchant context into a reply.
+// Providers are registered by name; RESPONDER_PROVIDER selects one (default "local").
+import type { Conversation, Merchant } from "@prisma/client";
+
+import type { ChatMessageView, ParticipantRole } from "./chat.server";
+import { appendMessage, listRecentMessages, requestHandoff } from "./chat.server";
+import type { KnowledgeEntryView } from "./knowledge.server";
+import { listKnowledgeEntries } from "./knowledge.server";
+import { buildErrorMetadata, logger } from "./logger.server";
+import { LOCAL_RESPONDER_NAME, localResponder } from "./responder-local.server";
+import { getWidgetSettings } from "./widget-settings.server";
+
+export type ResponderTurn = {
+  role: ParticipantRole;
+  body: string;
+};
+
+export type ResponderMerchantContext = {
+  merchantId: string;
+  shopDomain: string;
+  brandName: string;
+  /** Merchant-authored shipping policy snippets + FAQs. */
+  knowledge?: KnowledgeEntryView[];
+};
+
+export type ResponderInput = {
+  history: ResponderTurn[];
+  merchant: ResponderMerchantContext;
+};
+
+export type ResponderReply = {
+  provider: string;
+  body: string;
+  intent?: string;
+  /** 0..1, provider-defined */
+  confidence: number;
+  /** Provider thinks a human should take over. */
+  handoff: boolean;
+};
+
+export type ResponderProvider = {
+  name: string;
+  respond: (input: ResponderInput) => Promise<ResponderReply>;
+};
+
+// How much history a provider sees per reply.
+export const RESPONDER_HISTORY_LIMIT = 20;
+
+const providers = new Map<string, ResponderProvider>();
+
+export function registerResponderProvider(provider: ResponderProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function listResponderProviders(): string[] {
+  return Array.from(providers.keys());
+}
+
+export function getResponderProvider(
+  name: string | undefined = process.env.RESPONDER_PROVIDER
+): ResponderProvider {
+  const key = name?.trim() || LOCAL_RESPONDER_NAME;
+  const provider = providers.get(key);
+
+  if (!provider) {
+    logger.warn("responder.provider_unknown", { provider: key });
+    return localResponder;
+  }
+
+  return provider;
+}
+
+/**
+ * Runs the selected provider. A failing remote provider must not leave the
+ * shopper without an answer, so errors fall back to the local provider.
+ */
+export async function generateReply(
+  input: ResponderInput,
+  options?: { provider?: string }
+): Promise<ResponderReply> {
+  const provider = getResponderProvider(options?.provider);
+  const started = Date.now();
+
+  try {
+    const reply = await provider.respond(input);
+    logger.info("responder.reply", {
+      merchantId: input.merchant.merchantId,
+      provider: provider.name,
+      intent: reply.intent,
+      handoff: reply.handoff,
+      durationMs: Date.now() - started,
+    });
+    return reply;
+  } catch (err: unknown) {
+    logger.error("responder.provider_failed", {
+      merchantId: input.merchant.merchantId,
+      provider: provider.name,
+      durationMs: Date.now() - started,
+      ...buildErrorMetadata(err),
+    });
+
+    if (provider.name === LOCAL_RESPONDER_NAME) throw err;
+    return localResponder.respond(input);
+  }
+}
+
+/**
+ * Generates and stores the bot's reply to the latest customer message.
+ * A reply that asks for a human moves the conversation to handoff.
+ */
+export async function replyAsBot(params: {
+  conversation: Conversation;
+  merchant: Merchant;
+}): Promise<{ message: ChatMessageView; reply: ResponderReply; conversation: Conversation }> {
+  const [recent, knowledge, settings] = await Promise.all([
+    listRecentMessages({
+      conversationId: params.conversation.id,
+      limit: RESPONDER_HISTORY_LIMIT,
+    }),
+    listKnowledgeEntries({ merchantId: params.merchant.merchantId, topic: "shipping" }),
+    getWidgetSettings(params.merchant),
+  ]);
+
+  const reply = await generateReply({
+    history: recent.map((m) => ({ role: m.role, body: m.body })),
+    merchant: {
+      merchantId: params.merchant.merchantId,
+      shopDomain: params.merchant.shopDomain,
+      brandName: settings.brandName,
+      knowledge,
+    },
+  });
+
+  const message = await appendMessage({
+    conversation: params.conversation,
+    role: "bot",
+    body: reply.body,
+  });
+
+  const conversation = reply.handoff
+    ? await requestHandoff({
+        conversation: params.conversation,
+        reason: `bot:${reply.intent ?? "unknown"}`,
+      })
+    : params.conversation;
+
+  return { message, reply, conversation };
+}
+
+registerResponderProvider(localResponder);
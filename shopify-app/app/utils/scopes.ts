@@ -0,0 +1,78 @@
+// app/utils/scopes.ts
+//
+// Admin API access scopes each feature needs. Merchant.scopes is checked
+// against this after every auth and app/scopes_update (merchant-scopes.server.ts);
+// a feature whose scopes are missing is turned off instead of failing.
+// Optional features declare their scopes under optional_scopes in
+// shopify.app.toml: they aren't granted at install, the admin asks for them
+// when the merchant turns the feature on, and going without them doesn't
+// make the merchant insufficient_scopes.
+// Shared with the admin UI, so no server imports here.
+
+export type ScopedFeature = "order_status" | "shipping_policy_import";
+
+export type FeatureScopeRequirement = {
+  label: string;
+  scopes: string[];
+  /** Requested when the merchant turns the feature on rather than at install. */
+  optional?: boolean;
+};
+
+export const FEATURE_SCOPES: Record<ScopedFeature, FeatureScopeRequirement> = {
+  order_status: {
+    label: "Order status lookups in the chat widget",
+    scopes: ["read_orders"],
+    optional: true,
+  },
+  shipping_policy_import: { label: "Shipping policy import", scopes: ["read_legal_policies"] },
+};
+
+function scopesOf(optional: boolean): string[] {
+  const features = Object.values(FEATURE_SCOPES).filter(
+    (feature) => Boolean(feature.optional) === optional
+  );
+  return [...new Set(features.flatMap((feature) => feature.scopes))].sort();
+}
+
+/** Granted at install; `scopes` in shopify.app.toml. */
+export const REQUIRED_SCOPES: string[] = scopesOf(false);
+
+/** Asked for on demand; `optional_scopes` in shopify.app.toml. */
+export const OPTIONAL_SCOPES: string[] = scopesOf(true);
+
+/** "read_orders, write_products" or a list; trimmed, without duplicates. */
+export function parseScopes(value: string | string[] | null | undefined): string[] {
+  const list = Array.isArray(value) ? value : (value ?? "").split(",");
+  return [...new Set(list.map((scope) => scope.trim()).filter(Boolean))];
+}
+
+/** write_x grants read_x, as Shopify does. */
+export function hasScope(granted: string[], scope: string): boolean {
+  return granted.includes(scope) || granted.includes(scope.replace(/(^|_)read_/, "$1write_"));
+}
+
+export function missingScopes(granted: string[], required: string[] = REQUIRED_SCOPES): string[] {
+  return required.filter((scope) => !hasScope(granted, scope));
+}
+
+export function isFeatureAvailable(feature: ScopedFeature, granted: string[]): boolean {
+  return missingScopes(granted, FEATURE_SCOPES[feature].scopes).length === 0;
+}
+
+/** Features turned off by the granted scopes; `required` skips optional ones. */
+export function unavailableFeatures(
+  granted: string[],
+  options?: { required?: boolean }
+): ScopedFeature[] {
+  return (Object.keys(FEATURE_SCOPES) as ScopedFeature[]).filter(
+    (feature) =>
+      !(options?.required && FEATURE_SCOPES[feature].optional) &&
+      !isFeatureAvailable(feature, granted)
+  );
+}
+
+/** The scopes still to ask for before `features` can be turned on. */
+export function scopesToRequest(features: ScopedFeature[], granted: string[]): string[] {
+  const needed = features.flatMap((feature) => FEATURE_SCOPES[feature].scopes);
+  return missingScopes(granted, [...new Set(needed)]);
+}
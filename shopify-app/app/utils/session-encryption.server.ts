@@ -0,0 +1,293 @@
+// app/utils/session-encryption.server.ts
+//
+// Session.accessToken and Session.refreshToken are stored encrypted with
+// AES-256-GCM. Keys come from SESSION_ENCRYPTION_KEYS, a comma-separated list
+// of `<keyId>:<base64 32-byte key>` (e.g. from `openssl rand -base64 32`);
+// the first key encrypts, all of them decrypt. To rotate, put a new key in
+// front, run `npm run astra -- reencrypt`, then drop the old key.
+//
+// Stored form: enc:v1:<keyId>:<iv>:<tag>:<ciphertext> (base64url), with the
+// session id as additional data so a token can't be moved to another row.
+// Values without the prefix are plaintext from before encryption was enabled.
+import { createCipheriv, createDecipheriv, randomBytes } from "node:crypto";
+import type { Session as SessionRow } from "@prisma/client";
+import { Session } from "@shopify/shopify-api";
+import type { SessionStorage } from "@shopify/shopify-app-session-storage";
+
+import prisma from "../db.server";
+import { logger } from "./logger.server";
+
+const TOKEN_PREFIX = "enc:v1:";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const KEY_ID_RE = /^[A-Za-z0-9_-]{1,32}$/;
+
+export type SessionKeyring = {
+  /** Encrypts new tokens. */
+  currentKeyId: string;
+  keys: Map<string, Buffer>;
+};
+
+export class TokenEncryptionError extends Error {
+  name = "TokenEncryptionError";
+}
+
+/** Throws on a malformed value; undefined when unset. */
+export function parseSessionKeyring(raw: string | undefined): SessionKeyring | undefined {
+  const entries = raw?.split(",").map((entry) => entry.trim()).filter(Boolean) ?? [];
+  if (!entries.length) return undefined;
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of entries) {
+    const sep = entry.indexOf(":");
+    const keyId = entry.slice(0, sep);
+    const key = Buffer.from(entry.slice(sep + 1), "base64");
+
+    if (sep === -1 || !KEY_ID_RE.test(keyId) || key.length !== KEY_BYTES) {
+      throw new TokenEncryptionError(
+        "SESSION_ENCRYPTION_KEYS entries must be <keyId>:<base64 32-byte key>"
+      );
+    }
+    if (keys.has(keyId)) {
+      throw new TokenEncryptionError(`Duplicate session encryption key id: ${keyId}`);
+    }
+    keys.set(keyId, key);
+  }
+
+  return { currentKeyId: entries[0].slice(0, entries[0].indexOf(":")), keys };
+}
+
+/**
+ * Keyring from the environment. Required in production; elsewhere tokens are
+ * stored in plaintext without one.
+ */
+export function loadSessionKeyring(
+  env: NodeJS.ProcessEnv = process.env
+): SessionKeyring | undefined {
+  const keyring = parseSessionKeyring(env.SESSION_ENCRYPTION_KEYS);
+
+  if (!keyring) {
+    if (env.NODE_ENV === "production") {
+      logger.error("session_keys.missing", {
+        errorCode: "MISSING_CONFIG",
+        missingKeys: ["SESSION_ENCRYPTION_KEYS"],
+      });
+      throw new Error("Missing configuration: SESSION_ENCRYPTION_KEYS");
+    }
+    logger.warn("session_keys.disabled", { reason: "SESSION_ENCRYPTION_KEYS not set" });
+  }
+
+  return keyring;
+}
+
+export function isEncryptedToken(value: string): boolean {
+  return value.startsWith(TOKEN_PREFIX);
+}
+
+/** Key id of an encrypted token; undefined for plaintext. */
+export function tokenKeyId(value: string): string | undefined {
+  return isEncryptedToken(value) ? value.slice(TOKEN_PREFIX.length).split(":")[0] : undefined;
+}
+
+export function encryptToken(
+  plaintext: string,
+  sessionId: string,
+  keyring: SessionKeyring
+): string {
+  const key = keyring.keys.get(keyring.currentKeyId);
+  if (!key) throw new TokenEncryptionError(`Unknown encryption key: ${keyring.currentKeyId}`);
+
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(sessionId));
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+
+  return [
+    `${TOKEN_PREFIX}${keyring.currentKeyId}`,
+    iv.toString("base64url"),
+    cipher.getAuthTag().toString("base64url"),
+    ciphertext.toString("base64url"),
+  ].join(":");
+}
+
+/** Plaintext values are returned as they are. */
+export function decryptToken(
+  value: string,
+  sessionId: string,
+  keyring: SessionKeyring | undefined
+): string {
+  if (!isEncryptedToken(value)) return value;
+
+  const [keyId, iv, tag, ciphertext] = value.slice(TOKEN_PREFIX.length).split(":");
+  const key = keyring?.keys.get(keyId);
+  if (!key) throw new TokenEncryptionError(`Unknown encryption key: ${keyId}`);
+  if (!iv || !tag || ciphertext === undefined) {
+    throw new TokenEncryptionError("Malformed encrypted token");
+  }
+
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(iv, "base64url"));
+    decipher.setAAD(Buffer.from(sessionId));
+    decipher.setAuthTag(Buffer.from(tag, "base64url"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(ciphertext, "base64url")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    // GCM only reports "unable to authenticate data"; say which key failed.
+    throw new TokenEncryptionError(`Could not decrypt token with key ${keyId}`);
+  }
+}
+
+function mapTokens(session: Session, map: (token: string) => string): Session {
+  const params = session.toObject();
+  return new Session({
+    ...params,
+    accessToken: params.accessToken ? map(params.accessToken) : params.accessToken,
+    refreshToken: params.refreshToken ? map(params.refreshToken) : params.refreshToken,
+  });
+}
+
+/**
+ * Wraps the app's session storage so tokens never reach it in plaintext
+ * (when a keyring is configured). A session that can't be decrypted is
+ * logged and treated as missing, so the merchant goes through OAuth again
+ * instead of getting errors.
+ */
+export class EncryptedSessionStorage implements SessionStorage {
+  constructor(
+    private readonly storage: SessionStorage,
+    private readonly keyring: SessionKeyring | undefined
+  ) {}
+
+  async storeSession(session: Session): Promise<boolean> {
+    const keyring = this.keyring;
+    if (!keyring) return this.storage.storeSession(session);
+
+    let encrypted: Session;
+    try {
+      encrypted = mapTokens(session, (token) => encryptToken(token, session.id, keyring));
+    } catch (err: unknown) {
+      logger.error("session_tokens.encrypt_failed", {
+        errorCode: "TOKEN_ENCRYPTION_FAILED",
+        sessionId: session.id,
+        shopDomain: session.shop,
+        keyId: keyring.currentKeyId,
+        errorName: err instanceof Error ? err.name : "Error",
+      });
+      throw err;
+    }
+
+    return this.storage.storeSession(encrypted);
+  }
+
+  async loadSession(id: string): Promise<Session | undefined> {
+    const session = await this.storage.loadSession(id);
+    return session ? this.decrypt(session) : undefined;
+  }
+
+  async deleteSession(id: string): Promise<boolean> {
+    return this.storage.deleteSession(id);
+  }
+
+  async deleteSessions(ids: string[]): Promise<boolean> {
+    return this.storage.deleteSessions(ids);
+  }
+
+  async findSessionsByShop(shop: string): Promise<Session[]> {
+    const sessions = await this.storage.findSessionsByShop(shop);
+    return sessions.flatMap((session) => this.decrypt(session) ?? []);
+  }
+
+  private decrypt(session: Session): Session | undefined {
+    try {
+      return mapTokens(session, (token) => decryptToken(token, session.id, this.keyring));
+    } catch (err: unknown) {
+      logger.error("session_tokens.decrypt_failed", {
+        errorCode: "TOKEN_ENCRYPTION_FAILED",
+        sessionId: session.id,
+        shopDomain: session.shop,
+        keyId: session.accessToken ? tokenKeyId(session.accessToken) : undefined,
+        errorMessage: err instanceof Error ? err.message : String(err),
+      });
+      return undefined;
+    }
+  }
+}
+
+export type ReencryptSummary = {
+  sessions: number;
+  /** Rewritten with the current key (includes plaintext rows). */
+  reencrypted: number;
+  current: number;
+  failed: number;
+};
+
+function needsReencryption(value: string | null, keyring: SessionKeyring): boolean {
+  return Boolean(value) && tokenKeyId(value as string) !== keyring.currentKeyId;
+}
+
+/**
+ * Rewrites every stored token with the current key: plaintext rows from
+ * before encryption and rows encrypted with an older key. Rows that can't be
+ * decrypted are logged and counted as failed.
+ */
+export async function reencryptSessions(
+  keyring: SessionKeyring,
+  options?: { dryRun?: boolean }
+): Promise<ReencryptSummary> {
+  const rows = await prisma.session.findMany({
+    select: { id: true, shop: true, accessToken: true, refreshToken: true },
+    orderBy: { id: "asc" },
+  });
+  const summary: ReencryptSummary = {
+    sessions: rows.length,
+    reencrypted: 0,
+    current: 0,
+    failed: 0,
+  };
+
+  for (const row of rows) {
+    if (
+      !needsReencryption(row.accessToken, keyring) &&
+      !needsReencryption(row.refreshToken, keyring)
+    ) {
+      summary.current += 1;
+      continue;
+    }
+
+    try {
+      const reencrypt = (value: string | null) =>
+        value ? encryptToken(decryptToken(value, row.id, keyring), row.id, keyring) : value;
+      const data: Pick<SessionRow, "accessToken" | "refreshToken"> = {
+        accessToken: reencrypt(row.accessToken) as string,
+        refreshToken: reencrypt(row.refreshToken),
+      };
+
+      if (options?.dryRun) {
+        summary.reencrypted += 1;
+        continue;
+      }
+
+      // Conditional so a token refreshed meanwhile (already with the current
+      // key) isn't overwritten.
+      const { count } = await prisma.session.updateMany({
+        where: { id: row.id, accessToken: row.accessToken, refreshToken: row.refreshToken },
+        data,
+      });
+      if (count) summary.reencrypted += 1;
+      else summary.current += 1;
+    } catch (err: unknown) {
+      summary.failed += 1;
+      logger.error("session_tokens.reencrypt_failed", {
+        errorCode: "TOKEN_ENCRYPTION_FAILED",
+        sessionId: row.id,
+        shopDomain: row.shop,
+        errorMessage: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  logger.info("session_tokens.reencrypted", { ...summary, dryRun: Boolean(options?.dryRun) });
+  return summary;
+}
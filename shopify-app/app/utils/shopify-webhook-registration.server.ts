@@ -1,31 +1,45 @@
 import prisma from "../db.server";
-import { logger } from "./logger.server";
+import type { AdminGraphqlClient, AdminUserError } from "./admin-graphql.server";
+import { adminMutation, formatUserErrors, paginateConnection } from "./admin-graphql.server";
+import { buildErrorMetadata, logger } from "./logger.server";
 
-const UNINSTALL_TOPIC = "APP_UNINSTALLED";
-const UNINSTALL_CALLBACK_PATH = "/webhooks/app/uninstalled";
-
-type AdminGraphqlClient = {
-  graphql: (
-    query: string,
-    options?: { variables?: Record<string, unknown> }
-  ) => Promise<Response>;
+export type RequiredWebhook = {
+  /** Admin API WebhookSubscriptionTopic, e.g. APP_UNINSTALLED. */
+  topic: string;
+  /** Callback path on SHOPIFY_APP_URL; served by routes/webhooks.$.tsx. */
+  path: string;
 };
 
+// Subscriptions every merchant must have, registered through the Admin API.
+// Topics declared in shopify.app.toml (app/scopes_update, the compliance
+// topics) are managed by `shopify app deploy` and don't belong here: the API
+// doesn't list them, and registering them again would double deliveries.
+export const REQUIRED_WEBHOOKS: RequiredWebhook[] = [
+  { topic: "APP_UNINSTALLED", path: "/webhooks/app/uninstalled" },
+];
+
 type WebhookEndpoint = {
   __typename?: string;
   callbackUrl?: string | null;
 };
 
-type WebhookSubscription = {
+export type WebhookSubscription = {
   id: string;
   topic: string;
   createdAt: string;
   endpoint?: WebhookEndpoint | null;
 };
 
+type WebhookSubscriptionsData = {
+  webhookSubscriptions?: {
+    edges?: Array<{ cursor?: string; node?: WebhookSubscription }>;
+    pageInfo?: { hasNextPage?: boolean; endCursor?: string | null };
+  };
+};
+
 const LIST_WEBHOOKS_QUERY = `
   query WebhookSubscriptions($first: Int!, $after: String) {
-    webhookSubscriptions(first: $first, after: $after, topics: [APP_UNINSTALLED]) {
+    webhookSubscriptions(first: $first, after: $after) {
       edges {
         cursor
         node {
@@ -49,9 +63,9 @@ const LIST_WEBHOOKS_QUERY = `
 `;
 
 const CREATE_WEBHOOK_MUTATION = `
-  mutation WebhookSubscriptionCreate($callbackUrl: URL!) {
+  mutation WebhookSubscriptionCreate($topic: WebhookSubscriptionTopic!, $callbackUrl: URL!) {
     webhookSubscriptionCreate(
-      topic: APP_UNINSTALLED
+      topic: $topic
       webhookSubscription: { callbackUrl: $callbackUrl, format: JSON }
     ) {
       webhookSubscription {
@@ -85,113 +99,86 @@ const DELETE_WEBHOOK_MUTATION = `
   }
 `;
 
-function getCallbackUrl(): string {
+function getAppUrl(): string {
   const appUrl = process.env.SHOPIFY_APP_URL;
   if (!appUrl) {
     throw new Error("Missing configuration: SHOPIFY_APP_URL");
   }
 
-  return new URL(UNINSTALL_CALLBACK_PATH, appUrl).toString();
+  return appUrl;
 }
 
-async function fetchWebhookSubscriptions(
-  admin: AdminGraphqlClient
-): Promise<WebhookSubscription[]> {
-  const results: WebhookSubscription[] = [];
-  let hasNextPage = true;
-  let cursor: string | null = null;
-
-  while (hasNextPage) {
-    const response = await admin.graphql(LIST_WEBHOOKS_QUERY, {
-      variables: {
-        first: 100,
-        after: cursor,
-      },
-    });
-
-    if (!response.ok) {
-      throw new Error(
-        `Failed to fetch webhook subscriptions (status ${response.status}).`
-      );
-    }
+function getSubscriptionCallbackUrl(subscription: WebhookSubscription): string | null {
+  const endpoint = subscription.endpoint;
+  return endpoint?.__typename === "WebhookHttpEndpoint" ? endpoint?.callbackUrl ?? null : null;
+}
 
-    const payload = (await response.json()) as {
-      data?: {
-        webhookSubscriptions?: {
-          edges?: Array<{ cursor?: string; node?: WebhookSubscription }>;
-          pageInfo?: { hasNextPage?: boolean; endCursor?: string | null };
-        };
-      };
-      errors?: Array<{ message?: string }>;
-    };
+export type WebhookReconciliationPlan = {
+  keep: Array<{ required: RequiredWebhook; subscription: WebhookSubscription }>;
+  create: Array<{ required: RequiredWebhook; callbackUrl: string }>;
+  /** Duplicates, old callback URLs and topics no longer required. */
+  remove: WebhookSubscription[];
+};
 
-    if (payload.errors?.length) {
-      throw new Error(
-        `Failed to fetch webhook subscriptions: ${payload.errors
-          .map((error) => error.message)
-          .filter(Boolean)
-          .join(", ")}`
-      );
-    }
+/**
+ * Compares the shop's subscriptions with the required list. Pure, so the
+ * decisions can be tested without the Admin API.
+ */
+export function planWebhookReconciliation(
+  subscriptions: WebhookSubscription[],
+  required: RequiredWebhook[],
+  appUrl: string
+): WebhookReconciliationPlan {
+  const plan: WebhookReconciliationPlan = { keep: [], create: [], remove: [] };
+  const kept = new Set<string>();
+
+  for (const entry of required) {
+    const callbackUrl = new URL(entry.path, appUrl).toString();
+    const match = subscriptions.find(
+      (subscription) =>
+        subscription.topic === entry.topic &&
+        getSubscriptionCallbackUrl(subscription) === callbackUrl
+    );
 
-    const edges = payload.data?.webhookSubscriptions?.edges ?? [];
-    for (const edge of edges) {
-      if (edge.node) {
-        results.push(edge.node);
-      }
+    if (match) {
+      plan.keep.push({ required: entry, subscription: match });
+      kept.add(match.id);
+    } else {
+      plan.create.push({ required: entry, callbackUrl });
     }
-
-    hasNextPage = Boolean(payload.data?.webhookSubscriptions?.pageInfo?.hasNextPage);
-    cursor = payload.data?.webhookSubscriptions?.pageInfo?.endCursor ?? null;
   }
 
-  return results;
+  plan.remove = subscriptions.filter((subscription) => !kept.has(subscription.id));
+  return plan;
+}
+
+async function fetchWebhookSubscriptions(
+  admin: AdminGraphqlClient
+): Promise<WebhookSubscription[]> {
+  return paginateConnection<WebhookSubscription, WebhookSubscriptionsData>(
+    admin,
+    LIST_WEBHOOKS_QUERY,
+    { connection: (data) => data.webhookSubscriptions }
+  );
 }
 
 async function createWebhookSubscription(
   admin: AdminGraphqlClient,
+  topic: string,
   callbackUrl: string
 ): Promise<WebhookSubscription> {
-  const response = await admin.graphql(CREATE_WEBHOOK_MUTATION, {
-    variables: { callbackUrl },
+  const { payload, userErrors } = await adminMutation<{
+    webhookSubscription?: WebhookSubscription | null;
+    userErrors?: AdminUserError[];
+  }>(admin, CREATE_WEBHOOK_MUTATION, "webhookSubscriptionCreate", {
+    variables: { topic, callbackUrl },
   });
 
-  if (!response.ok) {
-    throw new Error(
-      `Failed to create webhook subscription (status ${response.status}).`
-    );
-  }
-
-  const payload = (await response.json()) as {
-    data?: {
-      webhookSubscriptionCreate?: {
-        webhookSubscription?: WebhookSubscription | null;
-        userErrors?: Array<{ field?: string[]; message?: string }>;
-      };
-    };
-    errors?: Array<{ message?: string }>;
-  };
-
-  if (payload.errors?.length) {
-    throw new Error(
-      `Failed to create webhook subscription: ${payload.errors
-        .map((error) => error.message)
-        .filter(Boolean)
-        .join(", ")}`
-    );
-  }
-
-  const userErrors = payload.data?.webhookSubscriptionCreate?.userErrors ?? [];
   if (userErrors.length) {
-    throw new Error(
-      `Failed to create webhook subscription: ${userErrors
-        .map((error) => error.message)
-        .filter(Boolean)
-        .join(", ")}`
-    );
+    throw new Error(`Failed to create webhook subscription: ${formatUserErrors(userErrors)}`);
   }
 
-  const webhook = payload.data?.webhookSubscriptionCreate?.webhookSubscription;
+  const webhook = payload?.webhookSubscription;
   if (!webhook) {
     throw new Error("Webhook subscription creation returned no webhook.");
   }
@@ -203,142 +190,157 @@ async function deleteWebhookSubscription(
   admin: AdminGraphqlClient,
   id: string
 ): Promise<void> {
-  const response = await admin.graphql(DELETE_WEBHOOK_MUTATION, {
-    variables: { id },
-  });
+  const { userErrors } = await adminMutation<{
+    deletedWebhookSubscriptionId?: string | null;
+    userErrors?: AdminUserError[];
+  }>(admin, DELETE_WEBHOOK_MUTATION, "webhookSubscriptionDelete", { variables: { id } });
 
-  if (!response.ok) {
-    throw new Error(
-      `Failed to delete webhook subscription ${id} (status ${response.status}).`
-    );
-  }
-
-  const payload = (await response.json()) as {
-    data?: {
-      webhookSubscriptionDelete?: {
-        deletedWebhookSubscriptionId?: string | null;
-        userErrors?: Array<{ field?: string[]; message?: string }>;
-      };
-    };
-    errors?: Array<{ message?: string }>;
-  };
-
-  if (payload.errors?.length) {
-    throw new Error(
-      `Failed to delete webhook subscription: ${payload.errors
-        .map((error) => error.message)
-        .filter(Boolean)
-        .join(", ")}`
-    );
-  }
-
-  const userErrors = payload.data?.webhookSubscriptionDelete?.userErrors ?? [];
   if (userErrors.length) {
-    throw new Error(
-      `Failed to delete webhook subscription: ${userErrors
-        .map((error) => error.message)
-        .filter(Boolean)
-        .join(", ")}`
-    );
+    throw new Error(`Failed to delete webhook subscription: ${formatUserErrors(userErrors)}`);
   }
 }
 
 async function persistWebhookMetadata(params: {
   merchantId: string;
-  webhook: WebhookSubscription;
-  callbackUrl: string;
+  registered: Array<{ subscription: WebhookSubscription; callbackUrl: string }>;
 }) {
+  // Rows for anything not registered right now (removed topics, old URLs)
+  // are stale.
   await prisma.merchantWebhook.deleteMany({
     where: {
       merchantId: params.merchantId,
-      topic: params.webhook.topic,
-      address: { not: params.callbackUrl },
+      NOT: params.registered.map(({ subscription, callbackUrl }) => ({
+        topic: subscription.topic,
+        address: callbackUrl,
+      })),
     },
   });
 
-  await prisma.merchantWebhook.upsert({
-    where: {
-      merchantId_topic_address: {
+  for (const { subscription, callbackUrl } of params.registered) {
+    await prisma.merchantWebhook.upsert({
+      where: {
+        merchantId_topic_address: {
+          merchantId: params.merchantId,
+          topic: subscription.topic,
+          address: callbackUrl,
+        },
+      },
+      create: {
         merchantId: params.merchantId,
-        topic: params.webhook.topic,
-        address: params.callbackUrl,
+        topic: subscription.topic,
+        address: callbackUrl,
+        webhookId: subscription.id,
+        createdAt: new Date(subscription.createdAt),
       },
-    },
-    create: {
-      merchantId: params.merchantId,
-      topic: params.webhook.topic,
-      address: params.callbackUrl,
-      webhookId: params.webhook.id,
-      createdAt: new Date(params.webhook.createdAt),
-    },
-    update: {
-      webhookId: params.webhook.id,
-      createdAt: new Date(params.webhook.createdAt),
-    },
-  });
+      update: {
+        webhookId: subscription.id,
+        createdAt: new Date(subscription.createdAt),
+      },
+    });
+  }
 }
 
-export async function ensureUninstallWebhookRegistration(params: {
+/** Read-only: what ensureWebhookRegistrations would change for this shop. */
+export async function inspectWebhookRegistrations(
+  admin: AdminGraphqlClient,
+  required: RequiredWebhook[] = REQUIRED_WEBHOOKS
+): Promise<WebhookReconciliationPlan> {
+  const subscriptions = await fetchWebhookSubscriptions(admin);
+  return planWebhookReconciliation(subscriptions, required, getAppUrl());
+}
+
+export type WebhookRegistrationResult = {
+  /** Every required topic is registered; the merchant can be "active". */
+  success: boolean;
+  missingTopics: string[];
+  created: number;
+  removed: number;
+};
+
+/**
+ * Reconciles the shop's subscriptions with REQUIRED_WEBHOOKS: creates the
+ * missing ones, deletes stale ones and records the result in MerchantWebhook.
+ * A topic that fails to register doesn't stop the others; it is reported in
+ * `missingTopics`.
+ */
+export async function ensureWebhookRegistrations(params: {
   admin: AdminGraphqlClient;
   merchantId: string;
   shopDomain: string;
-}): Promise<{ success: boolean; webhookId?: string }> {
-  const callbackUrl = getCallbackUrl();
+  required?: RequiredWebhook[];
+}): Promise<WebhookRegistrationResult> {
+  const required = params.required ?? REQUIRED_WEBHOOKS;
+  const allTopics = required.map((entry) => entry.topic);
 
   try {
     const subscriptions = await fetchWebhookSubscriptions(params.admin);
-    const matching = subscriptions.filter((subscription) => {
-      const endpoint = subscription.endpoint;
-      const callbackUrlValue =
-        endpoint?.__typename === "WebhookHttpEndpoint" ? endpoint?.callbackUrl : null;
-      return subscription.topic === UNINSTALL_TOPIC && callbackUrlValue === callbackUrl;
-    });
-    const nonMatching = subscriptions.filter((subscription) => {
-      const endpoint = subscription.endpoint;
-      const callbackUrlValue =
-        endpoint?.__typename === "WebhookHttpEndpoint" ? endpoint?.callbackUrl : null;
-      return !(
-        subscription.topic === UNINSTALL_TOPIC && callbackUrlValue === callbackUrl
-      );
-    });
-
-    let primarySubscription = matching[0];
-
-    if (!primarySubscription) {
-      primarySubscription = await createWebhookSubscription(
-        params.admin,
-        callbackUrl
-      );
-      logger.info("webhook.uninstall.created", {
-        shopDomain: params.shopDomain,
-        webhookId: primarySubscription.id,
-      });
+    const plan = planWebhookReconciliation(subscriptions, required, getAppUrl());
+
+    const registered = plan.keep.map(({ subscription }) => ({
+      subscription,
+      callbackUrl: getSubscriptionCallbackUrl(subscription) ?? "",
+    }));
+    const missingTopics: string[] = [];
+
+    for (const { required: entry, callbackUrl } of plan.create) {
+      try {
+        const subscription = await createWebhookSubscription(
+          params.admin,
+          entry.topic,
+          callbackUrl
+        );
+        registered.push({ subscription, callbackUrl });
+        logger.info("webhook.registration.created", {
+          shopDomain: params.shopDomain,
+          topic: entry.topic,
+          webhookId: subscription.id,
+        });
+      } catch (err: unknown) {
+        missingTopics.push(entry.topic);
+        logger.error("webhook.registration.create_failed", {
+          shopDomain: params.shopDomain,
+          merchantId: params.merchantId,
+          topic: entry.topic,
+          ...buildErrorMetadata(err),
+        });
+      }
     }
 
-    const duplicates = matching.slice(1);
-    const cleanupTargets = [...duplicates, ...nonMatching];
-    for (const subscription of cleanupTargets) {
-      await deleteWebhookSubscription(params.admin, subscription.id);
-      logger.info("webhook.uninstall.deleted_duplicate", {
-        shopDomain: params.shopDomain,
-        webhookId: subscription.id,
-      });
+    let removed = 0;
+    for (const subscription of plan.remove) {
+      try {
+        await deleteWebhookSubscription(params.admin, subscription.id);
+        removed += 1;
+        logger.info("webhook.registration.deleted_stale", {
+          shopDomain: params.shopDomain,
+          topic: subscription.topic,
+          webhookId: subscription.id,
+        });
+      } catch (err: unknown) {
+        // A leftover subscription only causes extra deliveries; retried next run.
+        logger.warn("webhook.registration.delete_failed", {
+          shopDomain: params.shopDomain,
+          topic: subscription.topic,
+          webhookId: subscription.id,
+          ...buildErrorMetadata(err),
+        });
+      }
     }
 
-    await persistWebhookMetadata({
-      merchantId: params.merchantId,
-      webhook: primarySubscription,
-      callbackUrl,
-    });
+    await persistWebhookMetadata({ merchantId: params.merchantId, registered });
 
-    return { success: true, webhookId: primarySubscription.id };
+    return {
+      success: missingTopics.length === 0,
+      missingTopics,
+      created: plan.create.length - missingTopics.length,
+      removed,
+    };
   } catch (err: unknown) {
-    logger.error("webhook.uninstall.registration_failed", {
+    logger.error("webhook.registration.failed", {
       shopDomain: params.shopDomain,
       merchantId: params.merchantId,
-      errorName: err instanceof Error ? err.name : "Error",
-      errorMessage: err instanceof Error ? err.message : String(err),
+      ...buildErrorMetadata(err),
     });
-    return { success: false };
+    return { success: false, missingTopics: allTopics, created: 0, removed: 0 };
   }
 }
@@ -1,15 +1,13 @@
 import crypto from "crypto";
 
-const SHOPIFY_UNINSTALL_TOPIC = "app/uninstalled";
-
 export const getShopifyWebhookTopic = (request: Request) =>
   request.headers.get("X-Shopify-Topic");
 
 export const getShopifyWebhookShopDomain = (request: Request) =>
   request.headers.get("X-Shopify-Shop-Domain");
 
-export const isExpectedUninstallTopic = (topic: string | null) =>
-  topic === SHOPIFY_UNINSTALL_TOPIC;
+export const getShopifyWebhookId = (request: Request) =>
+  request.headers.get("X-Shopify-Webhook-Id");
 
 export const readRawRequestBody = async (request: Request) => {
   const arrayBuffer = await request.clone().arrayBuffer();
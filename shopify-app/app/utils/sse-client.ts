@@ -0,0 +1,73 @@
+// app/utils/sse-client.ts
+//
+// Minimal text/event-stream reader for fetch() responses. Embedded admin pages
+// can't use EventSource: App Bridge only adds the session token to fetch().
+
+export type SseMessage = {
+  id?: string;
+  event: string;
+  data: string;
+};
+
+export function parseSseBlock(block: string): SseMessage | undefined {
+  let id: string | undefined;
+  let event = "message";
+  const data: string[] = [];
+
+  for (const line of block.split("\n")) {
+    if (!line || line.startsWith(":")) continue;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+
+    if (field === "id") id = value;
+    else if (field === "event") event = value;
+    else if (field === "data") data.push(value);
+  }
+
+  return data.length ? { id, event, data: data.join("\n") } : undefined;
+}
+
+/**
+ * Reads the stream until it ends or `signal` aborts. Resolves with the last
+ * event id seen, for the next reconnect.
+ */
+export async function readSseStream(
+  response: Response,
+  onMessage: (message: SseMessage) => void,
+  signal: AbortSignal
+): Promise<string | undefined> {
+  if (!response.body) return undefined;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let lastEventId: string | undefined;
+
+  const onAbort = () => void reader.cancel().catch(() => undefined);
+  signal.addEventListener("abort", onAbort);
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, "\n");
+      let boundary = buffer.indexOf("\n\n");
+      while (boundary !== -1) {
+        const message = parseSseBlock(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+        if (message) {
+          if (message.id) lastEventId = message.id;
+          onMessage(message);
+        }
+        boundary = buffer.indexOf("\n\n");
+      }
+    }
+  } finally {
+    signal.removeEventListener("abort", onAbort);
+  }
+
+  return lastEventId;
+}
@@ -0,0 +1,155 @@
+// app/utils/sse.server.ts
+//
+// Server-Sent Events responses: heartbeats, Last-Event-ID resume and
+// X-Request-Id on every stream.
+import { buildErrorMetadata, logger } from "./logger.server";
+import { REQUEST_ID_HEADER } from "./request-id.server";
+
+export type SseEvent = {
+  /** Only events with an id can be resumed (Last-Event-ID). */
+  id?: string;
+  event: string;
+  data: unknown;
+};
+
+// Keeps proxies/load balancers from closing idle streams.
+export const SSE_HEARTBEAT_MS = 15_000;
+// Streams end after this long; clients reconnect with Last-Event-ID.
+export const SSE_MAX_DURATION_MS = 5 * 60_000;
+// Client reconnect delay hint.
+export const SSE_RETRY_MS = 3_000;
+
+const LAST_EVENT_ID_RE = /^[A-Za-z0-9_-]{1,128}$/;
+
+export function formatSseEvent(event: SseEvent): string {
+  const lines: string[] = [];
+  if (event.id) lines.push(`id: ${event.id}`);
+  lines.push(`event: ${event.event}`);
+  // JSON never contains raw newlines, so one data line is enough.
+  lines.push(`data: ${JSON.stringify(event.data)}`);
+  return `${lines.join("\n")}\n\n`;
+}
+
+/**
+ * EventSource sends the Last-Event-ID header on automatic reconnects; clients
+ * that reconnect manually pass `last_event_id` instead.
+ */
+export function getLastEventId(request: Request): string | undefined {
+  const raw =
+    request.headers.get("Last-Event-ID") ??
+    new URL(request.url).searchParams.get("last_event_id");
+  const v = raw?.trim();
+  return v && LAST_EVENT_ID_RE.test(v) ? v : undefined;
+}
+
+export function createSseResponse(params: {
+  request: Request;
+  requestId: string;
+  /** Called once; `send` pushes live events. Returns the unsubscribe function. */
+  subscribe: (send: (event: SseEvent) => void) => () => void;
+  /** Events missed since Last-Event-ID, sent before live events. */
+  replay?: () => Promise<SseEvent[]>;
+  heartbeatMs?: number;
+  maxDurationMs?: number;
+  logContext?: Record<string, unknown>;
+}): Response {
+  const encoder = new TextEncoder();
+  const started = Date.now();
+  let cleanup: (() => void) | undefined;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      let replaying = Boolean(params.replay);
+      const buffered: SseEvent[] = [];
+      const sentIds = new Set<string>();
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          close();
+        }
+      };
+
+      const send = (event: SseEvent) => {
+        if (replaying) {
+          buffered.push(event);
+          return;
+        }
+        if (event.id) {
+          if (sentIds.has(event.id)) return;
+          sentIds.add(event.id);
+        }
+        write(formatSseEvent(event));
+      };
+
+      // Subscribe before replaying so nothing published in between is lost.
+      const unsubscribe = params.subscribe(send);
+      const heartbeat = setInterval(
+        () => write(": ping\n\n"),
+        params.heartbeatMs ?? SSE_HEARTBEAT_MS
+      );
+      const deadline = setTimeout(close, params.maxDurationMs ?? SSE_MAX_DURATION_MS);
+
+      function close() {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        clearTimeout(deadline);
+        unsubscribe();
+        params.request.signal.removeEventListener("abort", close);
+        try {
+          controller.close();
+        } catch {
+          // already closed by the client
+        }
+        logger.info("sse.stream.closed", {
+          ...params.logContext,
+          durationMs: Date.now() - started,
+        });
+      }
+
+      cleanup = close;
+      params.request.signal.addEventListener("abort", close);
+
+      write(`retry: ${SSE_RETRY_MS}\n\n`);
+      logger.info("sse.stream.opened", {
+        ...params.logContext,
+        resumed: Boolean(params.replay),
+      });
+
+      if (params.replay) {
+        params
+          .replay()
+          .catch((err: unknown) => {
+            logger.error("sse.replay_failed", {
+              ...params.logContext,
+              ...buildErrorMetadata(err),
+            });
+            return [] as SseEvent[];
+          })
+          .then((events) => {
+            replaying = false;
+            for (const event of [...events, ...buffered]) send(event);
+          });
+      }
+    },
+    cancel() {
+      cleanup?.();
+    },
+  });
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-store, no-transform",
+      Connection: "keep-alive",
+      // nginx and similar: don't buffer the stream.
+      "X-Accel-Buffering": "no",
+      [REQUEST_ID_HEADER]: params.requestId,
+    },
+  });
+}
@@ -0,0 +1,90 @@
+// app/utils/webhook-handlers.server.ts
+//
+// Topic -> handler registry served by /webhooks. A new topic needs an entry
+// here and a subscription in shopify.app.toml.
+import db from "../db.server";
+import type { ComplianceTopic } from "./compliance.server";
+import {
+  COMPLIANCE_TOPICS,
+  isComplianceTopic,
+  parseCompliancePayload,
+  recordComplianceRequest,
+} from "./compliance.server";
+import { enqueueJob } from "./jobs.server";
+import { syncMerchantScopes } from "./merchant-scopes.server";
+import type { WebhookRegistry } from "./webhook-router.server";
+import { defineWebhookHandler } from "./webhook-router.server";
+
+// The body carries nothing we need: the shop comes from the headers.
+const ignorePayload = () => ({});
+
+// Cleanup runs as a job so the 200 doesn't wait on it (see job-handlers.server.ts).
+export const appUninstalledHandler = defineWebhookHandler({
+  eventType: "webhook_uninstall",
+  parse: ignorePayload,
+  async handle({ shopDomain, webhookId, receivedAt }) {
+    const jobId = await enqueueJob("merchant.uninstalled", {
+      shopDomain,
+      webhookId,
+      receivedAt: receivedAt.toISOString(),
+    });
+    return { jobId };
+  },
+});
+
+export type ScopesUpdatePayload = { current: string[] };
+
+export const appScopesUpdateHandler = defineWebhookHandler<ScopesUpdatePayload>({
+  eventType: "webhook_other",
+  parse(payload) {
+    const current = (payload as { current?: unknown } | null | undefined)?.current;
+    return {
+      current: Array.isArray(current)
+        ? current.filter((s): s is string => typeof s === "string")
+        : [],
+    };
+  },
+  async handle({ shopDomain, payload, session }) {
+    if (session) {
+      await db.session.update({
+        where: { id: session.id },
+        data: { scope: payload.current.toString() },
+      });
+    }
+    const sync = await syncMerchantScopes({ shopDomain, scopes: payload.current });
+
+    return {
+      hadSession: Boolean(session),
+      scopeCount: payload.current.length,
+      updatedDb: Boolean(session),
+      missingScopes: sync.missingScopes,
+      statusChanged: sync.changed,
+    };
+  },
+});
+
+export const complianceHandler = defineWebhookHandler({
+  eventType: "webhook_compliance",
+  // The ComplianceRequest row is the durable record.
+  sensitive: true,
+  parse: (payload, topic) =>
+    isComplianceTopic(topic) ? parseCompliancePayload(topic, payload) : undefined,
+  async handle({ topic, payload, webhookId }) {
+    const recorded = await recordComplianceRequest({
+      topic: topic as ComplianceTopic,
+      payload,
+      webhookId,
+    });
+
+    return {
+      merchantId: recorded.merchantId ?? undefined,
+      complianceRequestId: recorded.id,
+    };
+  },
+});
+
+export const webhookHandlers: WebhookRegistry = {
+  "app/uninstalled": appUninstalledHandler,
+  "app/scopes_update": appScopesUpdateHandler,
+  ...Object.fromEntries(COMPLIANCE_TOPICS.map((topic) => [topic, complianceHandler])),
+};
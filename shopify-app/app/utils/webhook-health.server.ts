@@ -0,0 +1,122 @@
+// app/utils/webhook-health.server.ts
+//
+// Keeps installed merchants' webhook subscriptions healthy without waiting
+// for them to re-authenticate: the "webhooks.health_sweep" job reconciles
+// every active / missing_webhooks merchant and moves them between the two
+// statuses. needs_reauth merchants are left out until they authenticate;
+// insufficient_scopes ones are repaired but keep their status.
+import type { Merchant } from "@prisma/client";
+
+import prisma from "../db.server";
+import { buildErrorMetadata, logEvent, logger } from "./logger.server";
+import type { MerchantStatus } from "./merchant-lifecycle.server";
+import { transitionMerchantStatus } from "./merchant-lifecycle.server";
+import { getOfflineAdmin } from "./offline-tokens.server";
+import { ensureWebhookRegistrations } from "./shopify-webhook-registration.server";
+
+export const WEBHOOK_HEALTH_SWEEP_INTERVAL_MS = 6 * 60 * 60_000;
+const SWEPT_STATUSES: MerchantStatus[] = ["active", "missing_webhooks", "insufficient_scopes"];
+
+export type MerchantWebhookHealth = {
+  status: "active" | "missing_webhooks";
+  /** The merchant's status changed as a result. */
+  changed: boolean;
+  missingTopics: string[];
+};
+
+export type WebhookHealthSummary = {
+  merchants: number;
+  healthy: number;
+  missing: number;
+  /** missing_webhooks -> active */
+  recovered: number;
+  /** active -> missing_webhooks */
+  degraded: number;
+  /** No offline session or the reconciliation threw; status left alone. */
+  skipped: number;
+};
+
+/**
+ * Reconciles one merchant with the offline session and records the result on
+ * Merchant.status. Throws when there is no usable offline session.
+ */
+export async function reconcileMerchantWebhooks(
+  merchant: Pick<Merchant, "merchantId" | "shopDomain" | "status">
+): Promise<MerchantWebhookHealth> {
+  const { admin } = await getOfflineAdmin(merchant.shopDomain);
+  const registration = await ensureWebhookRegistrations({
+    admin,
+    merchantId: merchant.merchantId,
+    shopDomain: merchant.shopDomain,
+  });
+
+  const status = registration.success ? "active" : "missing_webhooks";
+  const from = status === "active" ? "missing_webhooks" : "active";
+
+  // Only between these two, so an uninstall that lands meanwhile isn't overwritten.
+  const { changed } = await transitionMerchantStatus({
+    merchantId: merchant.merchantId,
+    to: status,
+    reason: status === "active" ? "webhooks_restored" : "webhooks_missing",
+    from: [from],
+  });
+
+  if (changed) {
+    logger.info("merchant.webhook_status_changed", {
+      merchantId: merchant.merchantId,
+      shopDomain: merchant.shopDomain,
+      from,
+      to: status,
+      missingTopics: registration.missingTopics,
+    });
+  }
+
+  return { status, changed, missingTopics: registration.missingTopics };
+}
+
+export async function runWebhookHealthSweep(): Promise<WebhookHealthSummary> {
+  const started = Date.now();
+  const merchants = await prisma.merchant.findMany({
+    where: { status: { in: SWEPT_STATUSES } },
+    select: { merchantId: true, shopDomain: true, status: true },
+    orderBy: { merchantId: "asc" },
+  });
+
+  const summary: WebhookHealthSummary = {
+    merchants: merchants.length,
+    healthy: 0,
+    missing: 0,
+    recovered: 0,
+    degraded: 0,
+    skipped: 0,
+  };
+
+  // One at a time: each merchant costs a few Admin API calls.
+  for (const merchant of merchants) {
+    try {
+      const health = await reconcileMerchantWebhooks(merchant);
+      if (health.status === "active") summary.healthy += 1;
+      else summary.missing += 1;
+      if (health.changed) {
+        if (health.status === "active") summary.recovered += 1;
+        else summary.degraded += 1;
+      }
+    } catch (err: unknown) {
+      summary.skipped += 1;
+      logger.warn("webhooks.health_sweep.merchant_failed", {
+        merchantId: merchant.merchantId,
+        shopDomain: merchant.shopDomain,
+        ...buildErrorMetadata(err),
+      });
+    }
+  }
+
+  logEvent("Webhook health sweep completed", {
+    eventType: "webhook_health_sweep",
+    outcome: summary.missing || summary.skipped ? "failure" : "success",
+    durationMs: Date.now() - started,
+    ...summary,
+  });
+
+  return summary;
+}
@@ -0,0 +1,108 @@
+// app/utils/webhook-ledger.server.ts
+//
+// Idempotency ledger for webhook deliveries, keyed on X-Shopify-Webhook-Id.
+// Shopify retries with the same id, so a delivery whose handler already
+// succeeded is acknowledged without running its side effects again.
+import type { ProcessedWebhook } from "@prisma/client";
+
+import prisma from "../db.server";
+import { logger } from "./logger.server";
+
+// Shopify stops retrying well within this window.
+export const PROCESSED_WEBHOOK_RETENTION_MS = 7 * 24 * 60 * 60_000;
+// A "processing" row older than this belongs to a crashed run and may be retaken.
+export const WEBHOOK_PROCESSING_LEASE_MS = 5 * 60_000;
+export const PROCESSED_WEBHOOK_PRUNE_INTERVAL_MS = 60 * 60_000;
+
+export type WebhookClaim =
+  /** Run the handler, then markWebhookProcessed/markWebhookFailed. */
+  | "claimed"
+  /** Already handled: acknowledge without running it. */
+  | "duplicate"
+  /** Another delivery of the same id is running right now. */
+  | "in_progress";
+
+export async function claimWebhook(params: {
+  webhookId: string;
+  topic: string;
+  shopDomain: string;
+  /** Raw JSON body, kept for replays; omit for topics carrying personal data. */
+  payload?: string;
+  now?: Date;
+}): Promise<WebhookClaim> {
+  const { webhookId, topic, shopDomain, payload } = params;
+  const now = params.now ?? new Date();
+
+  const existing = await prisma.processedWebhook.findUnique({ where: { webhookId } });
+
+  if (!existing) {
+    try {
+      await prisma.processedWebhook.create({
+        data: { webhookId, topic, shopDomain, payload, status: "processing", receivedAt: now },
+      });
+      return "claimed";
+    } catch (err: unknown) {
+      // Lost the race against a concurrent delivery of the same id.
+      if (await prisma.processedWebhook.findUnique({ where: { webhookId } })) {
+        return "in_progress";
+      }
+      throw err;
+    }
+  }
+
+  if (existing.status === "processed") return "duplicate";
+
+  const leaseExpired = now.getTime() - existing.updatedAt.getTime() > WEBHOOK_PROCESSING_LEASE_MS;
+  if (existing.status === "processing" && !leaseExpired) return "in_progress";
+
+  // Failed (or abandoned) earlier: retake it, unless someone else just did.
+  const { count } = await prisma.processedWebhook.updateMany({
+    where: { webhookId, status: existing.status, updatedAt: existing.updatedAt },
+    data: { status: "processing", attempts: { increment: 1 } },
+  });
+  return count ? "claimed" : "in_progress";
+}
+
+/**
+ * Claims a recorded delivery for an operator replay, whatever its status,
+ * unless it is running right now.
+ */
+export async function claimWebhookReplay(
+  webhookId: string,
+  now: Date = new Date()
+): Promise<ProcessedWebhook | "unknown" | "in_progress"> {
+  const existing = await prisma.processedWebhook.findUnique({ where: { webhookId } });
+  if (!existing) return "unknown";
+
+  const leaseExpired = now.getTime() - existing.updatedAt.getTime() > WEBHOOK_PROCESSING_LEASE_MS;
+  if (existing.status === "processing" && !leaseExpired) return "in_progress";
+
+  const { count } = await prisma.processedWebhook.updateMany({
+    where: { webhookId, status: existing.status, updatedAt: existing.updatedAt },
+    data: { status: "processing", attempts: { increment: 1 } },
+  });
+  return count ? existing : "in_progress";
+}
+
+export async function markWebhookProcessed(webhookId: string): Promise<void> {
+  await prisma.processedWebhook.update({
+    where: { webhookId },
+    data: { status: "processed", processedAt: new Date() },
+  });
+}
+
+export async function markWebhookFailed(webhookId: string): Promise<void> {
+  await prisma.processedWebhook.update({
+    where: { webhookId },
+    data: { status: "failed" },
+  });
+}
+
+export async function pruneProcessedWebhooks(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.processedWebhook.deleteMany({
+    where: { receivedAt: { lt: new Date(now.getTime() - PROCESSED_WEBHOOK_RETENTION_MS) } },
+  });
+
+  if (count) logger.info("webhooks.ledger.pruned", { count });
+  return count;
+}
@@ -0,0 +1,270 @@
+// app/utils/webhook-router.server.ts
+//
+// Single entry point for Shopify webhooks. Verification, topic lookup,
+// request ids, timing and logging live here; each topic only supplies a
+// WebhookHandler in webhook-handlers.server.ts. Deliveries are deduplicated
+// on X-Shopify-Webhook-Id through the ledger in webhook-ledger.server.ts.
+import { authenticate } from "../shopify.server";
+import type { EventType, Outcome } from "./logger.server";
+import { buildErrorMetadata, logEvent } from "./logger.server";
+import { getOfflineAdmin } from "./offline-tokens.server";
+import { withRequestId, withRequestIdHeader } from "./request-id.server";
+import {
+  getShopifyWebhookHmac,
+  getShopifyWebhookId,
+  getShopifyWebhookShopDomain,
+  getShopifyWebhookTopic,
+  isValidShopifyWebhookHmac,
+  readRawRequestBody,
+} from "./shopify-webhook.server";
+import {
+  claimWebhook,
+  claimWebhookReplay,
+  markWebhookFailed,
+  markWebhookProcessed,
+} from "./webhook-ledger.server";
+
+type WebhookAuth = Awaited<ReturnType<typeof authenticate.webhook>>;
+
+export type WebhookContext<P> = {
+  requestId: string;
+  /** Header form, e.g. "app/uninstalled". */
+  topic: string;
+  shopDomain: string;
+  webhookId?: string;
+  /** When the delivery arrived (the recorded time for replays). */
+  receivedAt: Date;
+  payload: P;
+  /** Offline session, when the shop still has one. */
+  session: WebhookAuth["session"];
+  admin: WebhookAuth["admin"];
+  /** Run by `astra replay` rather than delivered by Shopify. */
+  replay?: boolean;
+};
+
+/** Extra fields for the "processed" log line; `outcome` overrides success. */
+export type WebhookResult = { outcome?: Outcome } & Record<string, unknown>;
+
+export type WebhookHandler<P = unknown> = {
+  eventType: EventType;
+  /** The body holds personal data: don't keep it in the ledger for replays. */
+  sensitive?: boolean;
+  /** Narrows the JSON body; undefined answers 400. */
+  parse(payload: unknown, topic: string): P | undefined;
+  /** Throw a Response to answer with its status; anything else is a 500 (Shopify retries). */
+  handle(ctx: WebhookContext<P>): Promise<WebhookResult | void>;
+};
+
+export type WebhookRegistry = Record<string, WebhookHandler>;
+
+/** Keeps the payload type flowing from `parse` into `handle`. */
+export function defineWebhookHandler<P>(handler: WebhookHandler<P>): WebhookHandler<P> {
+  return handler;
+}
+
+export async function dispatchWebhook(
+  request: Request,
+  registry: WebhookRegistry
+): Promise<Response> {
+  return withRequestId(request, async (requestId) => {
+    const started = Date.now();
+    const webhookId = getShopifyWebhookId(request) ?? undefined;
+    const topic = getShopifyWebhookTopic(request) ?? undefined;
+    let shopDomain = getShopifyWebhookShopDomain(request) ?? undefined;
+
+    const handler = topic ? registry[topic] : undefined;
+    const eventType: EventType = handler?.eventType ?? "webhook_other";
+
+    const respond = (status: number) =>
+      withRequestIdHeader(new Response(null, { status }), requestId);
+    const reject = (reason: string, status: number, extra?: Record<string, unknown>) => {
+      logEvent(`Webhook rejected - ${reason}`, {
+        eventType,
+        outcome: "failure",
+        shopDomain,
+        durationMs: Date.now() - started,
+        status,
+        topic,
+        webhookId,
+        ...extra,
+      });
+      return respond(status);
+    };
+
+    const rawBody = await readRawRequestBody(request);
+    if (!isValidShopifyWebhookHmac(rawBody, getShopifyWebhookHmac(request))) {
+      return reject("invalid HMAC", 401, { errorCode: "HMAC_VERIFICATION_FAILED" });
+    }
+
+    if (!topic || !handler) {
+      return reject("unexpected topic", 403);
+    }
+
+    let claimed = false;
+
+    try {
+      const auth = await authenticate.webhook(request);
+      shopDomain = auth.shop;
+
+      const payload = handler.parse(auth.payload, topic);
+      if (payload === undefined) {
+        return reject("invalid payload", 400);
+      }
+
+      if (webhookId) {
+        const claim = await claimWebhook({
+          webhookId,
+          topic,
+          shopDomain: auth.shop,
+          payload: handler.sensitive ? undefined : rawBody.toString("utf8"),
+        });
+
+        if (claim === "duplicate") {
+          logEvent("Webhook duplicate acknowledged", {
+            eventType,
+            outcome: "success",
+            shopDomain,
+            durationMs: Date.now() - started,
+            status: 200,
+            topic,
+            webhookId,
+            duplicate: true,
+          });
+          return respond(200);
+        }
+
+        // Shopify retries later; by then the running delivery has finished.
+        if (claim === "in_progress") return reject("already in progress", 409);
+
+        claimed = true;
+      }
+
+      const { outcome = "success", ...result } =
+        (await handler.handle({
+          requestId,
+          topic,
+          shopDomain: auth.shop,
+          webhookId,
+          receivedAt: new Date(started),
+          payload,
+          session: auth.session,
+          admin: auth.admin,
+        })) ?? {};
+
+      if (claimed && webhookId) await markWebhookProcessed(webhookId);
+
+      logEvent("Webhook processed", {
+        eventType,
+        outcome,
+        shopDomain,
+        durationMs: Date.now() - started,
+        status: 200,
+        topic,
+        webhookId,
+        ...result,
+      });
+
+      return respond(200);
+    } catch (err: unknown) {
+      // Let the retry run the handler again. If this write fails too, the
+      // processing lease expires and has the same effect.
+      if (claimed && webhookId) await markWebhookFailed(webhookId).catch(() => undefined);
+
+      // authenticate.webhook and handlers throw Responses for expected failures.
+      if (err instanceof Response) {
+        reject("handler response", err.status);
+        return withRequestIdHeader(err, requestId);
+      }
+
+      logEvent("Webhook failed", {
+        eventType,
+        outcome: "failure",
+        shopDomain,
+        durationMs: Date.now() - started,
+        status: 500,
+        topic,
+        webhookId,
+        ...buildErrorMetadata(err),
+      });
+
+      // 500 so Shopify retries.
+      return respond(500);
+    }
+  });
+}
+
+export type WebhookReplayResult = {
+  webhookId: string;
+  topic: string;
+  shopDomain: string;
+  result: WebhookResult;
+};
+
+/**
+ * Runs a recorded delivery's handler again from the payload kept in the
+ * ledger (operator CLI). Throws when the delivery can't be replayed.
+ */
+export async function replayWebhook(
+  webhookId: string,
+  registry: WebhookRegistry
+): Promise<WebhookReplayResult> {
+  const started = Date.now();
+  const row = await claimWebhookReplay(webhookId);
+  if (row === "unknown") throw new Error(`No recorded delivery ${webhookId}`);
+  if (row === "in_progress") throw new Error(`Delivery ${webhookId} is being processed`);
+
+  const { topic, shopDomain } = row;
+
+  try {
+    const handler = registry[topic];
+    if (!handler) throw new Error(`No handler for topic ${topic}`);
+    if (!row.payload) throw new Error(`No stored payload for ${topic} deliveries`);
+
+    const payload = handler.parse(JSON.parse(row.payload), topic);
+    if (payload === undefined) throw new Error("Stored payload no longer parses");
+
+    // Uninstalled shops have no offline session; handlers cope without one.
+    const offline = await getOfflineAdmin(shopDomain).catch(() => undefined);
+
+    const { outcome = "success", ...result } =
+      (await handler.handle({
+        requestId: `replay-${webhookId}`,
+        topic,
+        shopDomain,
+        webhookId,
+        receivedAt: row.receivedAt,
+        payload,
+        session: offline?.session,
+        admin: offline?.admin,
+        replay: true,
+      })) ?? {};
+
+    await markWebhookProcessed(webhookId);
+
+    logEvent("Webhook replayed", {
+      eventType: handler.eventType,
+      outcome,
+      shopDomain,
+      durationMs: Date.now() - started,
+      topic,
+      webhookId,
+      ...result,
+    });
+
+    return { webhookId, topic, shopDomain, result: { outcome, ...result } };
+  } catch (err: unknown) {
+    await markWebhookFailed(webhookId).catch(() => undefined);
+
+    logEvent("Webhook replay failed", {
+      eventType: registry[topic]?.eventType ?? "webhook_other",
+      outcome: "failure",
+      shopDomain,
+      durationMs: Date.now() - started,
+      topic,
+      webhookId,
+      ...buildErrorMetadata(err),
+    });
+
+    throw err;
+  }
+}
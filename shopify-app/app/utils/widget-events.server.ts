@@ -0,0 +1,53 @@
+// app/utils/widget-events.server.ts
+//
+// Anonymous storefront widget usage (opens, quick action taps) reported by
+// the widget through POST /apps/astra/events, for the dashboard.
+import prisma from "../db.server";
+import { logger } from "./logger.server";
+import type { QuickAction } from "./widget-settings";
+import { QUICK_ACTIONS } from "./widget-settings";
+
+export type WidgetEventInput =
+  | { type: "widget_open" }
+  | { type: "quick_action"; action: QuickAction };
+
+export type WidgetEventType = WidgetEventInput["type"];
+
+// Longer than the widest dashboard range (MAX_DASHBOARD_DAYS).
+export const WIDGET_EVENT_RETENTION_MS = 400 * 24 * 60 * 60_000;
+export const WIDGET_EVENT_PRUNE_INTERVAL_MS = 24 * 60 * 60_000;
+
+export function normalizeWidgetEvent(
+  raw: Record<string, unknown> | undefined
+): WidgetEventInput | undefined {
+  if (raw?.type === "widget_open") return { type: "widget_open" };
+
+  if (raw?.type === "quick_action") {
+    const action = QUICK_ACTIONS.find((a) => a.value === raw.action)?.value;
+    return action ? { type: "quick_action", action } : undefined;
+  }
+
+  return undefined;
+}
+
+export async function recordWidgetEvent(
+  merchantId: string,
+  event: WidgetEventInput
+): Promise<void> {
+  await prisma.widgetEvent.create({
+    data: {
+      merchantId,
+      type: event.type,
+      action: event.type === "quick_action" ? event.action : null,
+    },
+  });
+}
+
+export async function pruneWidgetEvents(now: Date = new Date()): Promise<number> {
+  const { count } = await prisma.widgetEvent.deleteMany({
+    where: { createdAt: { lt: new Date(now.getTime() - WIDGET_EVENT_RETENTION_MS) } },
+  });
+
+  if (count) logger.info("widget_events.pruned", { count });
+  return count;
+}
@@ -0,0 +1,76 @@
+// app/utils/widget-settings.server.ts
+import type { WidgetSettings as WidgetSettingsRow } from "@prisma/client";
+
+import prisma from "../db.server";
+import { logger } from "./logger.server";
+import { parseScopes } from "./scopes";
+import type { WidgetSettings } from "./widget-settings";
+import {
+  brandNameFromShopDomain,
+  DEFAULT_WIDGET_SETTINGS,
+  parseWidgetSettings,
+  unavailableQuickActions,
+} from "./widget-settings";
+
+type SettingsMerchant = { merchantId: string; shopDomain: string; scopes: string };
+
+function defaultsFor(merchant: SettingsMerchant): WidgetSettings {
+  // A quick action whose optional scopes weren't granted starts off; turning
+  // it on in the settings asks for them.
+  const unavailable = unavailableQuickActions(
+    DEFAULT_WIDGET_SETTINGS.quickActions,
+    parseScopes(merchant.scopes)
+  );
+  return {
+    ...DEFAULT_WIDGET_SETTINGS,
+    brandName: brandNameFromShopDomain(merchant.shopDomain),
+    quickActions: DEFAULT_WIDGET_SETTINGS.quickActions.filter(
+      (action) => !unavailable.includes(action)
+    ),
+  };
+}
+
+function fromRow(row: WidgetSettingsRow, merchant: SettingsMerchant): WidgetSettings {
+  // Re-validate: rows written by older versions may hold values we no longer accept.
+  const { settings } = parseWidgetSettings(
+    { ...row, brandName: row.brandName || undefined },
+    defaultsFor(merchant)
+  );
+  return settings;
+}
+
+/**
+ * Stored settings, or defaults (brand name derived from the shop domain,
+ * quick actions limited to the granted scopes).
+ */
+export async function getWidgetSettings(merchant: SettingsMerchant): Promise<WidgetSettings> {
+  const row = await prisma.widgetSettings.findUnique({
+    where: { merchantId: merchant.merchantId },
+  });
+
+  return row ? fromRow(row, merchant) : defaultsFor(merchant);
+}
+
+export async function saveWidgetSettings(params: {
+  merchantId: string;
+  settings: WidgetSettings;
+}): Promise<void> {
+  const data = {
+    ...params.settings,
+    quickActions: params.settings.quickActions.join(","),
+    pageTypes: params.settings.pageTypes.join(","),
+  };
+
+  await prisma.widgetSettings.upsert({
+    where: { merchantId: params.merchantId },
+    create: { merchantId: params.merchantId, ...data },
+    update: data,
+  });
+
+  logger.info("widget_settings.saved", {
+    merchantId: params.merchantId,
+    position: params.settings.position,
+    pageVisibility: params.settings.pageVisibility,
+    quickActionCount: params.settings.quickActions.length,
+  });
+}
@@ -0,0 +1,202 @@
+// app/utils/widget-settings.ts
+//
+// Storefront widget configuration shared by the server, the admin settings
+// page and the ChatWidget component (no server-only imports here).
+import type { ScopedFeature } from "./scopes";
+import { isFeatureAvailable } from "./scopes";
+
+export type QuickAction = "order_status" | "shipping_info" | "talk_to_support";
+export type WidgetPosition = "bottom-right" | "bottom-left";
+export type PageVisibility = "all" | "only" | "except";
+// Liquid `request.page_type` values the merchant can target.
+export type PageType =
+  | "index"
+  | "product"
+  | "collection"
+  | "cart"
+  | "search"
+  | "page"
+  | "blog"
+  | "article";
+
+export type WidgetSettings = {
+  brandName: string;
+  greeting: string;
+  brandColor: string;
+  /** Text/icon color on top of brandColor (launcher, shopper bubbles). */
+  textColor: string;
+  position: WidgetPosition;
+  /** Enabled quick actions, in display order. */
+  quickActions: QuickAction[];
+  pageVisibility: PageVisibility;
+  pageTypes: PageType[];
+};
+
+export const QUICK_ACTIONS: Array<{
+  value: QuickAction;
+  label: string;
+  /** Needs this feature's access scopes (scopes.ts). */
+  feature?: ScopedFeature;
+}> = [
+  { value: "order_status", label: "Order status", feature: "order_status" },
+  { value: "shipping_info", label: "Shipping info" },
+  { value: "talk_to_support", label: "Talk to support" },
+];
+
+export const PAGE_TYPES: Array<{ value: PageType; label: string }> = [
+  { value: "index", label: "Home page" },
+  { value: "product", label: "Product pages" },
+  { value: "collection", label: "Collection pages" },
+  { value: "cart", label: "Cart" },
+  { value: "search", label: "Search results" },
+  { value: "page", label: "Content pages" },
+  { value: "blog", label: "Blogs" },
+  { value: "article", label: "Blog posts" },
+];
+
+const POSITIONS: WidgetPosition[] = ["bottom-right", "bottom-left"];
+const PAGE_VISIBILITIES: PageVisibility[] = ["all", "only", "except"];
+
+export const MAX_BRAND_NAME_LENGTH = 60;
+export const MAX_GREETING_LENGTH = 200;
+
+const HEX_COLOR_RE = /^#[0-9a-f]{6}$/i;
+
+// brandName is filled in per shop (see getWidgetSettings).
+export const DEFAULT_WIDGET_SETTINGS: WidgetSettings = {
+  brandName: "",
+  greeting: "Hi there! 👋 How can we help you today?",
+  brandColor: "#4f46e5",
+  textColor: "#ffffff",
+  position: "bottom-right",
+  quickActions: ["order_status", "shipping_info", "talk_to_support"],
+  pageVisibility: "all",
+  pageTypes: [],
+};
+
+function pickList<T extends string>(raw: unknown, allowed: readonly T[]): T[] | undefined {
+  const items =
+    typeof raw === "string" ? raw.split(",") : Array.isArray(raw) ? raw : undefined;
+  if (!items) return undefined;
+
+  const picked: T[] = [];
+  for (const item of items) {
+    const v = typeof item === "string" ? item.trim() : "";
+    if (allowed.includes(v as T) && !picked.includes(v as T)) picked.push(v as T);
+  }
+  return picked;
+}
+
+function pickText(raw: unknown, max: number): string | undefined {
+  if (typeof raw !== "string") return undefined;
+  const v = raw.trim();
+  return v.length <= max ? v : undefined;
+}
+
+/**
+ * Validates settings field by field. Lists may be arrays or comma-separated
+ * strings (form posts, database rows). Returns the field names that were
+ * rejected so forms can point at them.
+ */
+export function parseWidgetSettings(
+  raw: Record<string, unknown>,
+  base: WidgetSettings = DEFAULT_WIDGET_SETTINGS
+): { settings: WidgetSettings; invalid: Array<keyof WidgetSettings> } {
+  const invalid: Array<keyof WidgetSettings> = [];
+  const settings: WidgetSettings = { ...base };
+
+  const take = <K extends keyof WidgetSettings>(
+    key: K,
+    value: WidgetSettings[K] | undefined
+  ) => {
+    if (raw[key] === undefined || raw[key] === null) return;
+    if (value === undefined) invalid.push(key);
+    else settings[key] = value;
+  };
+
+  take("brandName", pickText(raw.brandName, MAX_BRAND_NAME_LENGTH));
+  const greeting = pickText(raw.greeting, MAX_GREETING_LENGTH);
+  take("greeting", greeting ? greeting : undefined);
+  take(
+    "brandColor",
+    typeof raw.brandColor === "string" && HEX_COLOR_RE.test(raw.brandColor)
+      ? raw.brandColor.toLowerCase()
+      : undefined
+  );
+  take(
+    "textColor",
+    typeof raw.textColor === "string" && HEX_COLOR_RE.test(raw.textColor)
+      ? raw.textColor.toLowerCase()
+      : undefined
+  );
+  take(
+    "position",
+    POSITIONS.includes(raw.position as WidgetPosition)
+      ? (raw.position as WidgetPosition)
+      : undefined
+  );
+  take(
+    "quickActions",
+    pickList(
+      raw.quickActions,
+      QUICK_ACTIONS.map((a) => a.value)
+    )
+  );
+  take(
+    "pageVisibility",
+    PAGE_VISIBILITIES.includes(raw.pageVisibility as PageVisibility)
+      ? (raw.pageVisibility as PageVisibility)
+      : undefined
+  );
+  take(
+    "pageTypes",
+    pickList(
+      raw.pageTypes,
+      PAGE_TYPES.map((p) => p.value)
+    )
+  );
+
+  return { settings, invalid };
+}
+
+/** "demo.myshopify.com" -> "demo"; the brand name until the merchant sets one. */
+export function brandNameFromShopDomain(shopDomain: string): string {
+  return shopDomain.replace(/\.myshopify\.com$/i, "");
+}
+
+/**
+ * Whether the widget renders on a storefront page (Liquid `request.page_type`).
+ */
+export function isWidgetVisibleOnPage(settings: WidgetSettings, pageType: string): boolean {
+  if (settings.pageVisibility === "all") return true;
+
+  const listed = settings.pageTypes.includes(pageType as PageType);
+  return settings.pageVisibility === "only" ? listed : !listed;
+}
+
+/**
+ * The quick actions that can't work with the granted scopes; the storefront
+ * doesn't show them.
+ */
+export function unavailableQuickActions(actions: QuickAction[], granted: string[]): QuickAction[] {
+  return actions.filter((action) => {
+    const feature = QUICK_ACTIONS.find((a) => a.value === action)?.feature;
+    return feature !== undefined && !isFeatureAvailable(feature, granted);
+  });
+}
+
+/**
+ * Quick actions turned on since `saved` that can't work with the granted
+ * scopes; saving the settings asks for their scopes. Actions that were
+ * already on don't prompt again.
+ */
+export function quickActionsNeedingScopes(
+  saved: QuickAction[],
+  next: QuickAction[],
+  granted: string[]
+): QuickAction[] {
+  return unavailableQuickActions(
+    next.filter((action) => !saved.includes(action)),
+    granted
+  );
+}
@@ -1,6 +1,79 @@
 (function () {
   const widgets = document.querySelectorAll("[data-astra-chat-widget]");
 
+  // Storefront requests go through the Shopify App Proxy (see shopify.app.toml).
+  const API_BASE = "/apps/astra";
+  const STORAGE_PREFIX = "astra-chat:";
+  // New messages are pushed over SSE; polling is the fallback when the
+  // stream can't be opened (no EventSource, or a proxy that buffers).
+  const POLL_INTERVAL_MS = 5000;
+
+  const storage = {
+    get(key) {
+      try {
+        return window.localStorage.getItem(STORAGE_PREFIX + key);
+      } catch (e) {
+        return null;
+      }
+    },
+    set(key, value) {
+      try {
+        window.localStorage.setItem(STORAGE_PREFIX + key, value);
+      } catch (e) {
+        // storage can be blocked (private mode / cookie settings); chat still works per page
+      }
+    },
+    remove(key) {
+      try {
+        window.localStorage.removeItem(STORAGE_PREFIX + key);
+      } catch (e) {
+        // ignore
+      }
+    },
+  };
+
+  const getVisitorId = () => {
+    let visitorId = storage.get("visitor-id");
+    if (!visitorId) {
+      visitorId =
+        window.crypto && typeof window.crypto.randomUUID === "function"
+          ? window.crypto.randomUUID()
+          : `v-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+      storage.set("visitor-id", visitorId);
+    }
+    return visitorId;
+  };
+
+  const requestJson = async (path, options = {}) => {
+    const res = await fetch(`${API_BASE}${path}`, {
+      method: options.method || "GET",
+      headers: options.body
+        ? { Accept: "application/json", "Content-Type": "application/json" }
+        : { Accept: "application/json" },
+      body: options.body ? JSON.stringify(options.body) : undefined,
+      credentials: "same-origin",
+    });
+
+    if (!res.ok) {
+      const error = new Error(`Request failed (${res.status})`);
+      error.status = res.status;
+      throw error;
+    }
+
+    return res.json();
+  };
+
+  // Usage counts for the merchant's dashboard; failures are ignored.
+  const trackEvent = (event) => {
+    fetch(`${API_BASE}/events`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(event),
+      credentials: "same-origin",
+      keepalive: true,
+    }).catch(() => {});
+  };
+
   const getCookieBannerOffset = () => {
     const banner = document.querySelector(
       "[data-cookie-banner], #cookie-banner, .cookie-banner, .CookieBanner"
@@ -24,25 +97,439 @@
     });
   };
 
+  const isVisibleOnPage = (settings, pageType) => {
+    if (settings.pageVisibility === "all") return true;
+    const listed = settings.pageTypes.indexOf(pageType) !== -1;
+    return settings.pageVisibility === "only" ? listed : !listed;
+  };
+
+  // Returns false when the widget shouldn't render on this page.
+  const applySettings = (widget, settings) => {
+    if (!isVisibleOnPage(settings, widget.getAttribute("data-page-type") || "")) {
+      return false;
+    }
+
+    const setText = (selector, text) => {
+      const el = widget.querySelector(selector);
+      if (el instanceof HTMLElement && text) el.textContent = text;
+    };
+    setText(".astra-chat-brand-name", settings.brandName);
+    setText(".astra-chat-greeting", settings.greeting);
+
+    widget.style.setProperty("--astra-chat-brand", settings.brandColor);
+    widget.style.setProperty("--astra-chat-brand-text", settings.textColor);
+    widget.classList.toggle("is-left", settings.position === "bottom-left");
+
+    const actionBar = widget.querySelector(".astra-chat-quick-actions");
+    if (actionBar instanceof HTMLElement) {
+      const buttons = Array.from(actionBar.querySelectorAll("[data-quick-action]"));
+      buttons.forEach((button) => {
+        button.hidden = true;
+      });
+      settings.quickActions.forEach((action) => {
+        const button = buttons.find((b) => b.getAttribute("data-quick-action") === action);
+        if (!button) return;
+        button.hidden = false;
+        actionBar.appendChild(button);
+      });
+      actionBar.hidden = settings.quickActions.length === 0;
+    }
+
+    return true;
+  };
+
+  // Online only during business hours with someone from the team signed in.
+  const applyAvailability = (widget, availability) => {
+    const away = availability.status !== "online";
+    widget.classList.toggle("is-away", away);
+
+    const text = widget.querySelector(".astra-chat-status-text");
+    if (text instanceof HTMLElement) text.textContent = away ? "We're away" : "We are online";
+    widget.querySelectorAll(".astra-chat-status, .astra-chat-launcher-dot").forEach((el) => {
+      el.hidden = false;
+    });
+  };
+
+  const fetchAvailability = () =>
+    requestJson("/availability")
+      .then((data) => data.availability)
+      .catch(() => null);
+
   const initWidget = (widget) => {
     const panel = widget.querySelector(".astra-chat-panel");
     const launcher = widget.querySelector(".astra-chat-launcher");
     const closeButton = widget.querySelector(".astra-chat-close");
     const input = widget.querySelector(".astra-chat-input");
+    const sendButton = widget.querySelector(".astra-chat-send");
+    const messageList = widget.querySelector(".astra-chat-messages");
+    const orderForm = widget.querySelector(".astra-chat-order-form");
+    const offlineForm = widget.querySelector(".astra-chat-offline-form");
+    const quickActions = widget.querySelectorAll("[data-quick-action]");
 
     if (!(panel instanceof HTMLElement) || !(launcher instanceof HTMLElement)) {
       return;
     }
 
+    const visitorId = getVisitorId();
+    const renderedIds = new Set();
+    let conversationId = storage.get("conversation-id");
+    let lastMessageId = null;
+    let historyLoaded = false;
+    let sending = false;
+    let pollTimer = null;
+    let stream = null;
+
+    const renderMessage = (message, link) => {
+      if (!(messageList instanceof HTMLElement) || renderedIds.has(message.id)) {
+        return;
+      }
+      renderedIds.add(message.id);
+      if (!message.id.startsWith("local-")) lastMessageId = message.id;
+
+      const item = document.createElement("div");
+      item.className = `astra-chat-message is-${message.role}`;
+      item.textContent = message.body;
+      if (link && /^https?:\/\//i.test(link.href)) {
+        const anchor = document.createElement("a");
+        anchor.href = link.href;
+        anchor.target = "_blank";
+        anchor.rel = "noopener noreferrer";
+        anchor.textContent = link.label;
+        item.appendChild(document.createTextNode(" "));
+        item.appendChild(anchor);
+      }
+      messageList.appendChild(item);
+      messageList.scrollTop = messageList.scrollHeight;
+    };
+
+    const renderLocalMessage = (body, link) => {
+      renderMessage(
+        { id: `local-${Date.now()}-${renderedIds.size}`, role: "bot", body },
+        link
+      );
+    };
+
+    const stopLiveUpdates = () => {
+      if (stream) {
+        stream.close();
+        stream = null;
+      }
+      if (pollTimer) {
+        window.clearInterval(pollTimer);
+        pollTimer = null;
+      }
+    };
+
+    const startPolling = () => {
+      if (!pollTimer) pollTimer = window.setInterval(loadMessages, POLL_INTERVAL_MS);
+    };
+
+    const startLiveUpdates = () => {
+      if (!conversationId || stream || pollTimer || !panel.classList.contains("is-open")) {
+        return;
+      }
+      if (typeof window.EventSource !== "function") {
+        startPolling();
+        return;
+      }
+
+      const params = new URLSearchParams({ visitor_id: visitorId });
+      if (lastMessageId) params.set("last_event_id", lastMessageId);
+      const source = new EventSource(
+        `${API_BASE}/conversations/${encodeURIComponent(conversationId)}/stream?${params.toString()}`
+      );
+      source.addEventListener("message", (event) => {
+        try {
+          renderMessage(JSON.parse(event.data));
+        } catch (error) {
+          // ignore malformed events
+        }
+      });
+      source.addEventListener("error", () => {
+        // CONNECTING means the browser is retrying on its own (with Last-Event-ID).
+        if (source.readyState !== EventSource.CLOSED || stream !== source) return;
+        stream = null;
+        startPolling();
+      });
+      stream = source;
+    };
+
+    const resetConversation = () => {
+      stopLiveUpdates();
+      conversationId = null;
+      lastMessageId = null;
+      storage.remove("conversation-id");
+    };
+
+    const ensureConversation = async () => {
+      if (conversationId) return conversationId;
+
+      const data = await requestJson("/conversations", {
+        method: "POST",
+        body: { visitorId },
+      });
+      conversationId = data.conversation.id;
+      storage.set("conversation-id", conversationId);
+      startLiveUpdates();
+      return conversationId;
+    };
+
+    const loadMessages = async () => {
+      if (!conversationId) return;
+
+      const params = new URLSearchParams({ visitor_id: visitorId });
+      if (lastMessageId) params.set("after", lastMessageId);
+
+      try {
+        const data = await requestJson(
+          `/conversations/${encodeURIComponent(conversationId)}/messages?${params.toString()}`
+        );
+        data.messages.forEach(renderMessage);
+      } catch (error) {
+        if (error.status === 404) resetConversation();
+      }
+    };
+
+    const postMessage = async (body) => {
+      const id = await ensureConversation();
+      return requestJson(`/conversations/${encodeURIComponent(id)}/messages`, {
+        method: "POST",
+        body: { visitorId, body },
+      });
+    };
+
+    const sendMessage = async () => {
+      if (!(input instanceof HTMLInputElement) || sending) return;
+
+      const body = input.value.trim();
+      if (!body) return;
+
+      sending = true;
+      input.value = "";
+      try {
+        let data;
+        try {
+          data = await postMessage(body);
+        } catch (error) {
+          // Stored conversation was closed or no longer exists: start a fresh one.
+          if (error.status !== 404 && error.status !== 409) throw error;
+          resetConversation();
+          data = await postMessage(body);
+        }
+        renderMessage(data.message);
+        if (data.reply) renderMessage(data.reply);
+        // The bot handed off but nobody is around: offer to follow up by email.
+        if (
+          data.conversation.status === "handoff" &&
+          widget.classList.contains("is-away") &&
+          offlineForm instanceof HTMLFormElement
+        ) {
+          showForm(offlineForm, true);
+        }
+      } catch (error) {
+        input.value = body;
+      } finally {
+        sending = false;
+      }
+    };
+
+    const setFormError = (form, text) => {
+      const error = form.querySelector(".astra-chat-form-error");
+      if (!(error instanceof HTMLElement)) return;
+      error.textContent = text || "";
+      error.hidden = !text;
+    };
+
+    const showForm = (form, visible) => {
+      if (!(form instanceof HTMLFormElement)) return;
+      form.hidden = !visible;
+      setFormError(form, "");
+      if (visible) {
+        const firstInput = form.querySelector("input, textarea");
+        if (firstInput instanceof HTMLElement) firstInput.focus();
+      }
+    };
+
+    const renderOrderResult = (data) => {
+      const tracked = data.found
+        ? data.order.fulfillments.find((fulfillment) => fulfillment.trackingUrl)
+        : null;
+      const link = tracked ? { href: tracked.trackingUrl, label: "Track package" } : null;
+
+      if (data.message) {
+        renderMessage(data.message, link);
+      } else if (data.found) {
+        renderLocalMessage(`Order ${data.order.name}`, link);
+      } else {
+        renderLocalMessage("We couldn't find an order matching those details.");
+      }
+    };
+
+    const submitOrderForm = async (event) => {
+      event.preventDefault();
+      if (!(orderForm instanceof HTMLFormElement)) return;
+
+      const formData = new FormData(orderForm);
+      const submit = orderForm.querySelector(".astra-chat-form-submit");
+      if (submit instanceof HTMLButtonElement) submit.disabled = true;
+      setFormError(orderForm, "");
+
+      try {
+        const id = await ensureConversation();
+        const data = await requestJson("/order-status", {
+          method: "POST",
+          body: {
+            visitorId,
+            conversationId: id,
+            orderNumber: formData.get("orderNumber"),
+            verifier: formData.get("verifier"),
+          },
+        });
+        renderOrderResult(data);
+        orderForm.reset();
+        showForm(orderForm, false);
+      } catch (error) {
+        if (error.status === 429) {
+          setFormError(orderForm, "Too many attempts. Please try again later.");
+        } else if (error.status === 400) {
+          setFormError(
+            orderForm,
+            "Enter your order number and the email or postal code used for the order."
+          );
+        } else {
+          setFormError(orderForm, "Something went wrong. Please try again.");
+        }
+      } finally {
+        if (submit instanceof HTMLButtonElement) submit.disabled = false;
+      }
+    };
+
+    const submitOfflineForm = async (event) => {
+      event.preventDefault();
+      if (!(offlineForm instanceof HTMLFormElement)) return;
+
+      const formData = new FormData(offlineForm);
+      const submit = offlineForm.querySelector(".astra-chat-form-submit");
+      if (submit instanceof HTMLButtonElement) submit.disabled = true;
+      setFormError(offlineForm, "");
+
+      const postOfflineMessage = async () => {
+        const id = await ensureConversation();
+        return requestJson(`/conversations/${encodeURIComponent(id)}/offline-message`, {
+          method: "POST",
+          body: {
+            visitorId,
+            name: formData.get("name"),
+            email: formData.get("email"),
+            body: formData.get("body"),
+          },
+        });
+      };
+
+      try {
+        let data;
+        try {
+          data = await postOfflineMessage();
+        } catch (error) {
+          if (error.status !== 404 && error.status !== 409) throw error;
+          resetConversation();
+          data = await postOfflineMessage();
+        }
+        renderMessage(data.message);
+        if (data.reply) renderMessage(data.reply);
+        offlineForm.reset();
+        showForm(offlineForm, false);
+      } catch (error) {
+        setFormError(
+          offlineForm,
+          error.status === 400
+            ? "Enter a valid email address and a message."
+            : "Something went wrong. Please try again."
+        );
+      } finally {
+        if (submit instanceof HTMLButtonElement) submit.disabled = false;
+      }
+    };
+
+    const talkToSupport = async () => {
+      // Nobody can answer live: collect contact details instead.
+      if (widget.classList.contains("is-away") && offlineForm instanceof HTMLFormElement) {
+        showForm(offlineForm, true);
+        return;
+      }
+
+
+      const requestHandoff = async () => {
+        const id = await ensureConversation();
+        return requestJson(`/conversations/${encodeURIComponent(id)}/handoff`, {
+          method: "POST",
+          body: { visitorId },
+        });
+      };
+
+      try {
+        let data;
+        try {
+          data = await requestHandoff();
+        } catch (error) {
+          if (error.status !== 404) throw error;
+          resetConversation();
+          data = await requestHandoff();
+        }
+        if (data.conversation.status === "closed") {
+          resetConversation();
+          data = await requestHandoff();
+        }
+        if (data.message) renderMessage(data.message);
+      } catch (error) {
+        renderLocalMessage("Couldn't reach the team right now. Please try again.");
+      }
+    };
+
+    const showShippingInfo = async () => {
+      try {
+        const data = await requestJson("/shipping-info");
+        const entries = data.policies.concat(data.faqs);
+        if (!entries.length) {
+          renderLocalMessage(
+            "Shipping details aren't available here yet. Tap \"Talk to support\" and we'll help."
+          );
+          return;
+        }
+        data.policies.forEach((policy) => renderLocalMessage(policy.body));
+        data.faqs.forEach((faq) => renderLocalMessage(`${faq.title}\n${faq.body}`));
+      } catch (error) {
+        renderLocalMessage("Couldn't load shipping info. Please try again.");
+      }
+    };
+
+    const quickActionHandlers = {
+      order_status: () => showForm(orderForm, true),
+      shipping_info: showShippingInfo,
+      talk_to_support: talkToSupport,
+    };
+
     const openChat = () => {
+      trackEvent({ type: "widget_open" });
       panel.classList.add("is-open");
       launcher.classList.add("is-hidden");
       if (input instanceof HTMLElement) {
         input.focus();
       }
+      // Presence changes while the page is open; refresh it with every open.
+      fetchAvailability().then((availability) => {
+        if (availability) applyAvailability(widget, availability);
+      });
+      if (!historyLoaded) {
+        historyLoaded = true;
+        loadMessages().then(startLiveUpdates);
+      } else {
+        startLiveUpdates();
+      }
     };
 
     const closeChat = () => {
+      stopLiveUpdates();
       panel.classList.remove("is-open");
       launcher.classList.remove("is-hidden");
       launcher.focus();
@@ -52,10 +539,63 @@
     if (closeButton instanceof HTMLElement) {
       closeButton.addEventListener("click", closeChat);
     }
+    if (sendButton instanceof HTMLElement) {
+      sendButton.addEventListener("click", sendMessage);
+    }
+    quickActions.forEach((button) => {
+      button.addEventListener("click", () => {
+        const action = button.getAttribute("data-quick-action");
+        const handler = quickActionHandlers[action];
+        if (handler) {
+          trackEvent({ type: "quick_action", action });
+          handler();
+        }
+      });
+    });
+    if (orderForm instanceof HTMLFormElement) {
+      orderForm.addEventListener("submit", submitOrderForm);
+      const cancel = orderForm.querySelector(".astra-chat-form-cancel");
+      if (cancel instanceof HTMLElement) {
+        cancel.addEventListener("click", () => showForm(orderForm, false));
+      }
+    }
+    if (offlineForm instanceof HTMLFormElement) {
+      offlineForm.addEventListener("submit", submitOfflineForm);
+      const cancel = offlineForm.querySelector(".astra-chat-form-cancel");
+      if (cancel instanceof HTMLElement) {
+        cancel.addEventListener("click", () => showForm(offlineForm, false));
+      }
+    }
+    if (input instanceof HTMLInputElement) {
+      input.addEventListener("keydown", (event) => {
+        if (event.key === "Enter") {
+          event.preventDefault();
+          sendMessage();
+        }
+      });
+    }
   };
 
+  // One settings request per page; on failure the Liquid markup is shown as is.
+  const settingsRequest = widgets.length
+    ? requestJson("/settings")
+        .then((data) => data.settings)
+        .catch(() => null)
+    : Promise.resolve(null);
+  const availabilityRequest = widgets.length ? fetchAvailability() : Promise.resolve(null);
+
   widgets.forEach((widget) => {
-    initWidget(widget);
+    settingsRequest.then((settings) => {
+      if (settings && !applySettings(widget, settings)) {
+        widget.remove();
+        return;
+      }
+      widget.hidden = false;
+      initWidget(widget);
+      availabilityRequest.then((availability) => {
+        if (availability) applyAvailability(widget, availability);
+      });
+    });
   });
 
   updateBottomOffset();
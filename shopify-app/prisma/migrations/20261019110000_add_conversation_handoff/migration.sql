@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN "assignedAt" DATETIME;
+ALTER TABLE "Conversation" ADD COLUMN "assignedTo" TEXT;
+ALTER TABLE "Conversation" ADD COLUMN "closedAt" DATETIME;
+ALTER TABLE "Conversation" ADD COLUMN "handoffAt" DATETIME;
+
+-- CreateIndex
+CREATE INDEX "Conversation_merchantId_status_idx" ON "Conversation"("merchantId", "status");
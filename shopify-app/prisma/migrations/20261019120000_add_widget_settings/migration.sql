@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "WidgetSettings" (
+    "merchantId" TEXT NOT NULL PRIMARY KEY,
+    "brandName" TEXT NOT NULL,
+    "greeting" TEXT NOT NULL,
+    "brandColor" TEXT NOT NULL,
+    "textColor" TEXT NOT NULL,
+    "position" TEXT NOT NULL,
+    "showOnlineIndicator" BOOLEAN NOT NULL,
+    "quickActions" TEXT NOT NULL,
+    "pageVisibility" TEXT NOT NULL,
+    "pageTypes" TEXT NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "WidgetSettings_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant" ("merchantId") ON DELETE RESTRICT ON UPDATE CASCADE
+);
@@ -0,0 +1,63 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN "contactName" TEXT;
+ALTER TABLE "Conversation" ADD COLUMN "contactEmail" TEXT;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_WidgetSettings" (
+    "merchantId" TEXT NOT NULL PRIMARY KEY,
+    "brandName" TEXT NOT NULL,
+    "greeting" TEXT NOT NULL,
+    "brandColor" TEXT NOT NULL,
+    "textColor" TEXT NOT NULL,
+    "position" TEXT NOT NULL,
+    "quickActions" TEXT NOT NULL,
+    "pageVisibility" TEXT NOT NULL,
+    "pageTypes" TEXT NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "WidgetSettings_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant" ("merchantId") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+INSERT INTO "new_WidgetSettings" ("brandColor", "brandName", "greeting", "merchantId", "pageTypes", "pageVisibility", "position", "quickActions", "textColor", "updatedAt") SELECT "brandColor", "brandName", "greeting", "merchantId", "pageTypes", "pageVisibility", "position", "quickActions", "textColor", "updatedAt" FROM "WidgetSettings";
+DROP TABLE "WidgetSettings";
+ALTER TABLE "new_WidgetSettings" RENAME TO "WidgetSettings";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateTable
+CREATE TABLE "BusinessHours" (
+    "merchantId" TEXT NOT NULL PRIMARY KEY,
+    "enabled" BOOLEAN NOT NULL DEFAULT false,
+    "timezone" TEXT NOT NULL DEFAULT 'UTC',
+    "weeklyHours" TEXT NOT NULL,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "BusinessHours_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant" ("merchantId") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "HolidayException" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "merchantId" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "opens" TEXT,
+    "closes" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "HolidayException_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant" ("merchantId") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "AgentPresence" (
+    "merchantId" TEXT NOT NULL,
+    "staffId" TEXT NOT NULL,
+    "lastSeenAt" DATETIME NOT NULL,
+
+    PRIMARY KEY ("merchantId", "staffId"),
+    CONSTRAINT "AgentPresence_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant" ("merchantId") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "HolidayException_merchantId_date_key" ON "HolidayException"("merchantId", "date");
+
+-- CreateIndex
+CREATE INDEX "AgentPresence_merchantId_lastSeenAt_idx" ON "AgentPresence"("merchantId", "lastSeenAt");
@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "Merchant" ADD COLUMN "notificationEmail" TEXT;
+
+-- CreateTable
+CREATE TABLE "FollowUp" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "merchantId" TEXT NOT NULL,
+    "conversationId" TEXT NOT NULL,
+    "name" TEXT,
+    "email" TEXT NOT NULL,
+    "question" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    "resolvedAt" DATETIME,
+    "resolvedBy" TEXT,
+    CONSTRAINT "FollowUp_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant" ("merchantId") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "FollowUp_conversationId_fkey" FOREIGN KEY ("conversationId") REFERENCES "Conversation" ("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "OutboundNotification" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "merchantId" TEXT NOT NULL,
+    "followUpId" TEXT,
+    "kind" TEXT NOT NULL,
+    "recipient" TEXT NOT NULL,
+    "subject" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "nextAttemptAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "sentAt" DATETIME,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "OutboundNotification_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant" ("merchantId") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "OutboundNotification_followUpId_fkey" FOREIGN KEY ("followUpId") REFERENCES "FollowUp" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FollowUp_conversationId_key" ON "FollowUp"("conversationId");
+
+-- CreateIndex
+CREATE INDEX "FollowUp_merchantId_status_idx" ON "FollowUp"("merchantId", "status");
+
+-- CreateIndex
+CREATE INDEX "OutboundNotification_status_nextAttemptAt_idx" ON "OutboundNotification"("status", "nextAttemptAt");
+
+-- CreateIndex
+CREATE INDEX "OutboundNotification_followUpId_idx" ON "OutboundNotification"("followUpId");
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "ComplianceRequest" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "topic" TEXT NOT NULL,
+    "shopDomain" TEXT NOT NULL,
+    "merchantId" TEXT,
+    "webhookId" TEXT,
+    "customerId" TEXT,
+    "customerEmail" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "runAfter" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "result" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" DATETIME
+);
+
+-- CreateIndex
+CREATE INDEX "ComplianceRequest_status_runAfter_idx" ON "ComplianceRequest"("status", "runAfter");
+
+-- CreateIndex
+CREATE INDEX "ComplianceRequest_shopDomain_idx" ON "ComplianceRequest"("shopDomain");
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "ProcessedWebhook" ADD COLUMN "payload" TEXT;
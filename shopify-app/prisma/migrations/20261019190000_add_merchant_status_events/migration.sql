@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "MerchantStatusEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "merchantId" TEXT NOT NULL,
+    "fromStatus" TEXT,
+    "toStatus" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "requestId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "MerchantStatusEvent_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant" ("merchantId") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "MerchantStatusEvent_merchantId_createdAt_idx" ON "MerchantStatusEvent"("merchantId", "createdAt");
+
+-- Seed each existing merchant's timeline with its current status.
+INSERT INTO "MerchantStatusEvent" ("id", "merchantId", "fromStatus", "toStatus", "reason", "createdAt")
+SELECT 'backfill_' || "merchantId", "merchantId", NULL, "status", 'backfill',
+       COALESCE("statusUpdatedAt", "installedAt")
+FROM "Merchant";
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "Conversation" ADD COLUMN "archivedAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "MerchantSettingsArchive" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "merchantId" TEXT NOT NULL,
+    "data" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "MerchantSettingsArchive_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant" ("merchantId") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_Merchant" (
+    "merchantId" TEXT NOT NULL PRIMARY KEY,
+    "shopDomain" TEXT NOT NULL,
+    "firstInstalledAt" DATETIME NOT NULL,
+    "lastInstalledAt" DATETIME NOT NULL,
+    "installCount" INTEGER NOT NULL DEFAULT 1,
+    "scopes" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "statusUpdatedAt" DATETIME,
+    "notificationEmail" TEXT
+);
+-- installedAt was overwritten on every auth, so it is the best guess for both.
+INSERT INTO "new_Merchant" ("firstInstalledAt", "lastInstalledAt", "merchantId", "notificationEmail", "scopes", "shopDomain", "status", "statusUpdatedAt") SELECT "installedAt", "installedAt", "merchantId", "notificationEmail", "scopes", "shopDomain", "status", "statusUpdatedAt" FROM "Merchant";
+DROP TABLE "Merchant";
+ALTER TABLE "new_Merchant" RENAME TO "Merchant";
+CREATE UNIQUE INDEX "Merchant_shopDomain_key" ON "Merchant"("shopDomain");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE INDEX "MerchantSettingsArchive_merchantId_idx" ON "MerchantSettingsArchive"("merchantId");
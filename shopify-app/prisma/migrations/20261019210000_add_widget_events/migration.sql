@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "WidgetEvent" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "merchantId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "action" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "WidgetEvent_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "Merchant" ("merchantId") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "WidgetEvent_merchantId_type_createdAt_idx" ON "WidgetEvent"("merchantId", "type", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "WidgetEvent_createdAt_idx" ON "WidgetEvent"("createdAt");
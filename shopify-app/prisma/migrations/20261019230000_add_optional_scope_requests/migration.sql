@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Merchant" ADD COLUMN "declinedScopes" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "Merchant" ADD COLUMN "scopesRequestedAt" DATETIME;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "OutboundNotification" ADD COLUMN "customerId" TEXT;
+ALTER TABLE "OutboundNotification" ADD COLUMN "customerEmail" TEXT;
+
+-- CreateIndex
+CREATE INDEX "OutboundNotification_merchantId_kind_idx" ON "OutboundNotification"("merchantId", "kind");
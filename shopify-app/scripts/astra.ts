@@ -0,0 +1,17 @@
+/* eslint-disable no-console */
+// Operator CLI: `npm run astra -- <command> [options]` (`help` lists them).
+// Commands that call Shopify need the app's environment (SHOPIFY_API_KEY, ...).
+import prisma from "../app/db.server";
+import { runCli } from "../app/utils/operator-cli.server";
+import { operatorCommands } from "../app/utils/operator-commands.server";
+
+runCli("astra", process.argv.slice(2), operatorCommands, {
+  out: (text) => console.log(text),
+  err: (text) => console.error(text),
+})
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,24 @@
+/* eslint-disable no-console */
+// Runs background jobs outside the web server. Start the web server with
+// JOB_WORKER=external so only this process claims jobs.
+import prisma from "../app/db.server";
+import { jobHandlers } from "../app/utils/job-handlers.server";
+import { startJobWorker } from "../app/utils/jobs.server";
+
+const concurrency = Number(process.env.JOB_WORKER_CONCURRENCY) || undefined;
+
+const worker = startJobWorker({ registry: jobHandlers, concurrency });
+
+// setTimeout in the worker is unref'd; keep the process alive until a signal.
+const keepAlive = setInterval(() => {}, 60_000);
+
+async function shutdown(signal: string) {
+  console.log(`Received ${signal}, waiting for running jobs...`);
+  clearInterval(keepAlive);
+  await worker.stop();
+  await prisma.$disconnect();
+  process.exit(0);
+}
+
+process.on("SIGINT", () => void shutdown("SIGINT"));
+process.on("SIGTERM", () => void shutdown("SIGTERM"));
@@ -0,0 +1,203 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+
+import type { AdminConnection, AdminGraphqlClient } from "../app/utils/admin-graphql.server";
+import {
+  adminGraphql,
+  AdminGraphqlError,
+  adminMutation,
+  formatUserErrors,
+  graphqlOperationName,
+  paginateConnection,
+  throttleDelayMs,
+} from "../app/utils/admin-graphql.server";
+
+const SHOP_QUERY = "query ShopName { shop { name } }";
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+const cost = (requested: number, available: number) => ({
+  requestedQueryCost: requested,
+  actualQueryCost: requested,
+  throttleStatus: { maximumAvailable: 1000, currentlyAvailable: available, restoreRate: 50 },
+});
+
+function fakeAdmin(...responses: Array<Response | Error>) {
+  const graphql = vi.fn<AdminGraphqlClient["graphql"]>(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error("No more responses");
+    if (next instanceof Error) throw next;
+    return next;
+  });
+  return { graphql } satisfies AdminGraphqlClient;
+}
+
+function loggedRequests() {
+  return [...vi.mocked(console.log).mock.calls, ...vi.mocked(console.warn).mock.calls]
+    .map(([line]) => JSON.parse(String(line)))
+    .filter((entry) => entry.message === "admin_graphql.request");
+}
+
+describe("admin graphql client", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("names operations and computes the wait for the cost bucket", () => {
+    expect(graphqlOperationName(SHOP_QUERY)).toBe("ShopName");
+    expect(graphqlOperationName("mutation WebhookDelete($id: ID!) { x }")).toBe("WebhookDelete");
+    expect(graphqlOperationName("{ shop { name } }")).toBe("anonymous");
+
+    expect(throttleDelayMs(cost(150, 50))).toBe(2000);
+    expect(throttleDelayMs(cost(10, 500))).toBe(0);
+    expect(throttleDelayMs(undefined)).toBeUndefined();
+  });
+
+  it("returns the data and logs the query cost", async () => {
+    const admin = fakeAdmin(
+      json({ data: { shop: { name: "Demo" } }, extensions: { cost: cost(1, 999) } })
+    );
+
+    const result = await adminGraphql<{ shop: { name: string } }>(admin, SHOP_QUERY);
+
+    expect(result.data.shop.name).toBe("Demo");
+    expect(loggedRequests()).toEqual([
+      expect.objectContaining({
+        operation: "ShopName",
+        attempt: 1,
+        outcome: "success",
+        requestedQueryCost: 1,
+        actualQueryCost: 1,
+        availableCost: 999,
+      }),
+    ]);
+  });
+
+  it("waits for the bucket to refill after THROTTLED", async () => {
+    const admin = fakeAdmin(
+      json({
+        errors: [{ message: "Throttled", extensions: { code: "THROTTLED" } }],
+        extensions: { cost: cost(150, 50) },
+      }),
+      json({ data: { shop: { name: "Demo" } } })
+    );
+    const started = Date.now();
+
+    const pending = adminGraphql(admin, SHOP_QUERY);
+    await vi.runAllTimersAsync();
+    await pending;
+
+    expect(admin.graphql).toHaveBeenCalledTimes(2);
+    expect(Date.now() - started).toBe(2000);
+    expect(loggedRequests().map((entry) => entry.outcome)).toEqual(["retry", "success"]);
+  });
+
+  it("retries 5xx and thrown transient errors with backoff", async () => {
+    const throttled = Object.assign(new Error("Shopify is throttling requests"), {
+      response: { code: 429, retryAfter: 3 },
+    });
+    const admin = fakeAdmin(
+      json({}, 502),
+      throttled,
+      new TypeError("fetch failed"),
+      json({ data: { shop: { name: "Demo" } } })
+    );
+    const started = Date.now();
+
+    const pending = adminGraphql(admin, SHOP_QUERY);
+    await vi.runAllTimersAsync();
+    await pending;
+
+    expect(admin.graphql).toHaveBeenCalledTimes(4);
+    // 500ms backoff, Retry-After 3s, then 2s backoff.
+    expect(Date.now() - started).toBe(5500);
+  });
+
+  it("throws without retrying errors a retry won't fix, and after the last attempt", async () => {
+    const invalid = fakeAdmin(json({ errors: [{ message: "Field 'nope' doesn't exist" }] }));
+    const error = await adminGraphql(invalid, SHOP_QUERY).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(AdminGraphqlError);
+    expect(error).toMatchObject({
+      message: "ShopName failed: Field 'nope' doesn't exist",
+      details: { retriable: false },
+    });
+    expect(invalid.graphql).toHaveBeenCalledTimes(1);
+
+    const down = fakeAdmin(json({}, 503), json({}, 503));
+    const pending = adminGraphql(down, SHOP_QUERY, { maxAttempts: 2 }).catch(
+      (err: unknown) => err
+    );
+    await vi.runAllTimersAsync();
+
+    expect(await pending).toMatchObject({ details: { status: 503, retriable: true } });
+    expect(loggedRequests().at(-1)).toMatchObject({ outcome: "failure", attempt: 2 });
+  });
+
+  it("passes a thrown Response through for the embedded auth flow", async () => {
+    const reauth = new Response(null, { status: 401 });
+    const admin = { graphql: vi.fn(async () => Promise.reject(reauth)) };
+
+    await expect(adminGraphql(admin, SHOP_QUERY)).rejects.toBe(reauth);
+    expect(admin.graphql).toHaveBeenCalledTimes(1);
+  });
+
+  it("returns mutation userErrors instead of throwing", async () => {
+    const admin = fakeAdmin(
+      json({
+        data: {
+          webhookSubscriptionCreate: {
+            webhookSubscription: null,
+            userErrors: [{ field: ["callbackUrl"], message: "Address is invalid" }],
+          },
+        },
+      })
+    );
+
+    const { payload, userErrors } = await adminMutation(
+      admin,
+      "mutation WebhookCreate { webhookSubscriptionCreate { userErrors { field message } } }",
+      "webhookSubscriptionCreate"
+    );
+
+    expect(payload).toMatchObject({ webhookSubscription: null });
+    expect(formatUserErrors(userErrors)).toBe("callbackUrl: Address is invalid");
+  });
+
+  it("paginates connections with edges or nodes", async () => {
+    const admin = fakeAdmin(
+      json({
+        data: {
+          items: {
+            edges: [{ node: { id: "1" } }, { node: { id: "2" } }],
+            pageInfo: { hasNextPage: true, endCursor: "c2" },
+          },
+        },
+      }),
+      json({
+        data: {
+          items: { nodes: [{ id: "3" }], pageInfo: { hasNextPage: false, endCursor: "c3" } },
+        },
+      })
+    );
+
+    type Item = { id: string };
+    const items = await paginateConnection<Item, { items: AdminConnection<Item> }>(
+      admin,
+      "query Items($first: Int!, $after: String) { items { id } }",
+      { connection: (data) => data.items, variables: { query: "x" }, pageSize: 2 }
+    );
+
+    expect(items.map((item) => item.id)).toEqual(["1", "2", "3"]);
+    expect(admin.graphql.mock.calls.map(([, options]) => options?.variables)).toEqual([
+      { query: "x", first: 2, after: null },
+      { query: "x", first: 2, after: "c2" },
+    ]);
+  });
+});
@@ -0,0 +1,77 @@
+import crypto from "crypto";
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../app/db.server", () => ({ default: {} }));
+
+import {
+  APP_PROXY_MAX_AGE_SECONDS,
+  computeAppProxySignature,
+  isFreshAppProxyTimestamp,
+  isValidAppProxySignature,
+} from "../app/utils/app-proxy.server";
+
+const SECRET = "hush";
+
+// Example from Shopify's app proxy docs (secret "hush").
+const DOCS_QUERY =
+  "extra=1&extra=2&shop=shop-name.myshopify.com&logged_in_customer_id=1&path_prefix=%2Fapps%2Fawesome_reviews&timestamp=1317327555";
+const DOCS_SIGNATURE = "4c68c8624d737112c91818c11017d24d334b524cb5c2b8ba08daa056f7395ddb";
+
+function signed(query: string, secret = SECRET): URLSearchParams {
+  const params = new URLSearchParams(query);
+  params.set("signature", computeAppProxySignature(params, secret));
+  return params;
+}
+
+describe("app proxy signature", () => {
+  it("matches Shopify's documented example", () => {
+    const params = new URLSearchParams(DOCS_QUERY);
+    expect(computeAppProxySignature(params, SECRET)).toBe(DOCS_SIGNATURE);
+
+    params.set("signature", DOCS_SIGNATURE);
+    expect(isValidAppProxySignature(params, SECRET)).toBe(true);
+  });
+
+  it("rejects a missing, tampered or wrong-secret signature", () => {
+    expect(isValidAppProxySignature(new URLSearchParams(DOCS_QUERY), SECRET)).toBe(false);
+
+    const tampered = signed(DOCS_QUERY);
+    tampered.set("shop", "other-shop.myshopify.com");
+    expect(isValidAppProxySignature(tampered, SECRET)).toBe(false);
+
+    expect(isValidAppProxySignature(signed(DOCS_QUERY, "other"), SECRET)).toBe(false);
+    expect(isValidAppProxySignature(signed(DOCS_QUERY), undefined)).toBe(false);
+  });
+
+  it("rejects non-hex signatures without throwing", () => {
+    const params = new URLSearchParams(DOCS_QUERY);
+    params.set("signature", "not-hex!");
+    expect(isValidAppProxySignature(params, SECRET)).toBe(false);
+  });
+
+  it("is independent of parameter order", () => {
+    const a = new URLSearchParams("b=2&a=1&shop=x.myshopify.com");
+    const b = new URLSearchParams("shop=x.myshopify.com&a=1&b=2");
+    expect(computeAppProxySignature(a, SECRET)).toBe(computeAppProxySignature(b, SECRET));
+    expect(computeAppProxySignature(a, SECRET)).toBe(
+      crypto.createHmac("sha256", SECRET).update("a=1b=2shop=x.myshopify.com").digest("hex")
+    );
+  });
+});
+
+describe("app proxy timestamp", () => {
+  const now = 1_700_000_000_000;
+
+  it("accepts timestamps within the allowed window", () => {
+    const params = new URLSearchParams({ timestamp: String(now / 1000 - 10) });
+    expect(isFreshAppProxyTimestamp(params, now)).toBe(true);
+  });
+
+  it("rejects stale or missing timestamps", () => {
+    const stale = new URLSearchParams({
+      timestamp: String(now / 1000 - APP_PROXY_MAX_AGE_SECONDS - 1),
+    });
+    expect(isFreshAppProxyTimestamp(stale, now)).toBe(false);
+    expect(isFreshAppProxyTimestamp(new URLSearchParams(), now)).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+
+import type { BusinessHoursConfig, HolidayView } from "../app/utils/availability";
+import {
+  computeAvailability,
+  DEFAULT_BUSINESS_HOURS,
+  normalizeHolidayInput,
+  parseTimeOfDay,
+  parseWeeklyHours,
+  zonedTimeParts,
+} from "../app/utils/availability";
+
+// Monday 2026-10-19, 14:30 UTC (10:30 in New York, 23:30 in Tokyo).
+const MONDAY_AFTERNOON_UTC = new Date("2026-10-19T14:30:00Z");
+
+const config = (overrides: Partial<BusinessHoursConfig> = {}): BusinessHoursConfig => ({
+  ...DEFAULT_BUSINESS_HOURS,
+  enabled: true,
+  ...overrides,
+});
+
+describe("business hours parsing", () => {
+  it("parseTimeOfDay accepts HH:MM up to 24:00", () => {
+    expect(parseTimeOfDay("09:30")).toBe(570);
+    expect(parseTimeOfDay("24:00")).toBe(1440);
+    expect(parseTimeOfDay("24:30")).toBeUndefined();
+    expect(parseTimeOfDay("9:30")).toBeUndefined();
+    expect(parseTimeOfDay(930)).toBeUndefined();
+  });
+
+  it("parseWeeklyHours requires every day and open before close", () => {
+    const hours = { ...DEFAULT_BUSINESS_HOURS.weeklyHours };
+    expect(parseWeeklyHours(JSON.stringify(hours))).toEqual(hours);
+    expect(parseWeeklyHours({ ...hours, sat: "closed" })?.sat).toBeNull();
+
+    const missingSunday: Record<string, unknown> = { ...hours };
+    delete missingSunday.sun;
+    expect(parseWeeklyHours(missingSunday)).toBeUndefined();
+    expect(parseWeeklyHours({ ...hours, mon: { open: "17:00", close: "09:00" } })).toBeUndefined();
+    expect(parseWeeklyHours("not json")).toBeUndefined();
+  });
+
+  it("normalizeHolidayInput treats empty times as closed all day", () => {
+    expect(normalizeHolidayInput({ date: "2026-12-25", label: " Christmas " })).toEqual({
+      date: "2026-12-25",
+      label: "Christmas",
+      hours: null,
+    });
+    expect(
+      normalizeHolidayInput({ date: "2026-12-24", label: "Eve", open: "09:00", close: "12:00" })
+    ).toEqual({ date: "2026-12-24", label: "Eve", hours: { open: "09:00", close: "12:00" } });
+    expect(normalizeHolidayInput({ date: "2026-13-01", label: "Bad" })).toBeUndefined();
+    expect(
+      normalizeHolidayInput({ date: "2026-12-24", label: "Eve", open: "09:00", close: "" })
+    ).toBeUndefined();
+  });
+});
+
+describe("availability", () => {
+  it("zonedTimeParts uses the business timezone", () => {
+    expect(zonedTimeParts(MONDAY_AFTERNOON_UTC, "America/New_York")).toEqual({
+      date: "2026-10-19",
+      weekday: "mon",
+      minutes: 10 * 60 + 30,
+    });
+    expect(zonedTimeParts(MONDAY_AFTERNOON_UTC, "Asia/Tokyo")).toEqual({
+      date: "2026-10-19",
+      weekday: "mon",
+      minutes: 23 * 60 + 30,
+    });
+  });
+
+  it("is online within hours with an agent signed in", () => {
+    const availability = computeAvailability({
+      config: config({ timezone: "America/New_York" }),
+      holidays: [],
+      agentsOnline: 1,
+      now: MONDAY_AFTERNOON_UTC,
+    });
+    expect(availability).toMatchObject({ status: "online", reason: "open", withinHours: true });
+  });
+
+  it("is away outside hours, on holidays and without agents", () => {
+    const away = (
+      overrides: Partial<BusinessHoursConfig>,
+      holidays: HolidayView[] = [],
+      agentsOnline = 1
+    ) =>
+      computeAvailability({
+        config: config(overrides),
+        holidays,
+        agentsOnline,
+        now: MONDAY_AFTERNOON_UTC,
+      }).reason;
+
+    expect(away({ timezone: "Asia/Tokyo" })).toBe("outside_hours");
+    expect(
+      away({ timezone: "America/New_York" }, [
+        { id: "h1", date: "2026-10-19", label: "Closed", hours: null },
+      ])
+    ).toBe("holiday");
+    expect(away({ timezone: "America/New_York" }, [], 0)).toBe("no_agents");
+  });
+
+  it("holiday special hours replace the weekday's hours", () => {
+    const availability = computeAvailability({
+      config: config({ timezone: "Asia/Tokyo" }),
+      holidays: [
+        { id: "h1", date: "2026-10-19", label: "Late", hours: { open: "20:00", close: "24:00" } },
+      ],
+      agentsOnline: 1,
+      now: MONDAY_AFTERNOON_UTC,
+    });
+    expect(availability.status).toBe("online");
+  });
+
+  it("ignores hours when they're turned off", () => {
+    const availability = computeAvailability({
+      config: { ...DEFAULT_BUSINESS_HOURS, timezone: "Asia/Tokyo" },
+      holidays: [],
+      agentsOnline: 2,
+      now: MONDAY_AFTERNOON_UTC,
+    });
+    expect(availability).toMatchObject({ status: "online", agentsOnline: 2 });
+  });
+});
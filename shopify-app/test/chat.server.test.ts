@@ -0,0 +1,108 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../app/db.server", () => ({ default: {} }));
+
+import type { Conversation } from "@prisma/client";
+
+import { MAX_MESSAGE_LENGTH } from "../app/utils/chat";
+import {
+  DEFAULT_MESSAGE_PAGE_SIZE,
+  assertAgentCanReply,
+  normalizeContact,
+  normalizeInboxFilter,
+  normalizeMessageBody,
+  normalizePageSize,
+  normalizeVisitorId,
+} from "../app/utils/chat.server";
+
+describe("chat input helpers", () => {
+  it("normalizeMessageBody trims and rejects blank input", () => {
+    expect(normalizeMessageBody("  hello  ")).toBe("hello");
+    expect(normalizeMessageBody("   ")).toBeUndefined();
+    expect(normalizeMessageBody(undefined)).toBeUndefined();
+    expect(normalizeMessageBody(42)).toBeUndefined();
+  });
+
+  it("normalizeMessageBody rejects oversized messages", () => {
+    expect(normalizeMessageBody("a".repeat(MAX_MESSAGE_LENGTH))).toHaveLength(
+      MAX_MESSAGE_LENGTH
+    );
+    expect(normalizeMessageBody("a".repeat(MAX_MESSAGE_LENGTH + 1))).toBeUndefined();
+  });
+
+  it("normalizeVisitorId accepts uuids and rejects unsafe values", () => {
+    const id = "2feb21ca-d583-4d96-888c-e0af91f64305";
+    expect(normalizeVisitorId(id)).toBe(id);
+    expect(normalizeVisitorId("short")).toBeUndefined();
+    expect(normalizeVisitorId("<script>alert(1)</script>")).toBeUndefined();
+    expect(normalizeVisitorId(null)).toBeUndefined();
+  });
+
+  it("normalizeContact requires an email and trims the optional name", () => {
+    expect(normalizeContact({ name: " Ada ", email: " Ada@Example.com " })).toEqual({
+      name: "Ada",
+      email: "ada@example.com",
+    });
+    expect(normalizeContact({ name: "", email: "a@b.co" })).toEqual({
+      name: null,
+      email: "a@b.co",
+    });
+    expect(normalizeContact({ name: "Ada", email: "not-an-email" })).toBeUndefined();
+    expect(normalizeContact({ name: "x".repeat(101), email: "a@b.co" })).toBeUndefined();
+    expect(normalizeContact({ name: undefined, email: undefined })).toBeUndefined();
+  });
+
+  it("normalizePageSize falls back to the default and caps large values", () => {
+    expect(normalizePageSize(null)).toBe(DEFAULT_MESSAGE_PAGE_SIZE);
+    expect(normalizePageSize("abc")).toBe(DEFAULT_MESSAGE_PAGE_SIZE);
+    expect(normalizePageSize("-5")).toBe(DEFAULT_MESSAGE_PAGE_SIZE);
+    expect(normalizePageSize("10")).toBe(10);
+    expect(normalizePageSize("5000")).toBe(100);
+  });
+});
+
+describe("agent inbox helpers", () => {
+  const conversation = (overrides: Partial<Conversation>): Conversation => ({
+    id: "c1",
+    merchantId: "1",
+    status: "handoff",
+    customerId: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastMessageAt: null,
+    handoffAt: new Date(),
+    assignedTo: null,
+    assignedAt: null,
+    closedAt: null,
+    contactName: null,
+    contactEmail: null,
+    archivedAt: null,
+    ...overrides,
+  });
+
+  it("normalizeInboxFilter defaults to open conversations", () => {
+    expect(normalizeInboxFilter("handoff")).toBe("handoff");
+    expect(normalizeInboxFilter("closed")).toBe("closed");
+    expect(normalizeInboxFilter("bogus")).toBe("open");
+    expect(normalizeInboxFilter(null)).toBe("open");
+  });
+
+  it("assertAgentCanReply allows unclaimed and own conversations", () => {
+    expect(() => assertAgentCanReply(conversation({}), "42")).not.toThrow();
+    expect(() => assertAgentCanReply(conversation({ assignedTo: "42" }), "42")).not.toThrow();
+  });
+
+  it("assertAgentCanReply rejects closed or someone else's conversations", () => {
+    const rejects = (c: Conversation) => {
+      try {
+        assertAgentCanReply(c, "42");
+      } catch (err: unknown) {
+        return err instanceof Response ? err.status : -1;
+      }
+      return 0;
+    };
+
+    expect(rejects(conversation({ status: "closed" }))).toBe(409);
+    expect(rejects(conversation({ assignedTo: "7" }))).toBe(409);
+  });
+});
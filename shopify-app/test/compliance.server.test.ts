@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from "vitest";
+
+type NotificationRow = {
+  id: string;
+  merchantId: string;
+  kind: string;
+  customerId: string | null;
+  customerEmail: string | null;
+};
+
+type NotificationWhere = {
+  merchantId?: string;
+  kind?: string;
+  OR?: Array<Partial<NotificationRow>>;
+  id?: { in: string[] };
+  followUp?: unknown;
+};
+
+const db = vi.hoisted(() => ({ notifications: [] as NotificationRow[] }));
+
+vi.mock("../app/db.server", () => {
+  const matches = (n: NotificationRow, where: NotificationWhere) =>
+    !where.followUp &&
+    !where.id &&
+    n.merchantId === where.merchantId &&
+    n.kind === where.kind &&
+    (where.OR ?? []).some((or) =>
+      Object.entries(or).every(([key, value]) => n[key as keyof NotificationRow] === value)
+    );
+
+  return {
+    default: {
+      $transaction: (ops: Array<Promise<unknown>>) => Promise.all(ops),
+      conversation: {
+        findMany: async () => [],
+        deleteMany: async () => ({ count: 0 }),
+      },
+      followUp: { deleteMany: async () => ({ count: 0 }) },
+      outboundNotification: {
+        deleteMany: async ({ where }: { where: NotificationWhere }) => {
+          const before = db.notifications.length;
+          db.notifications = db.notifications.filter((n) => !matches(n, where));
+          return { count: before - db.notifications.length };
+        },
+      },
+    },
+  };
+});
+vi.mock("../app/utils/offline-tokens.server", () => ({ getOfflineAdmin: vi.fn() }));
+
+import {
+  formatCustomerExportEmail,
+  isComplianceTopic,
+  parseCompliancePayload,
+  redactCustomerData,
+} from "../app/utils/compliance.server";
+
+describe("compliance webhooks", () => {
+  it("accepts only the mandatory topics", () => {
+    expect(isComplianceTopic("customers/data_request")).toBe(true);
+    expect(isComplianceTopic("shop/redact")).toBe(true);
+    expect(isComplianceTopic("app/uninstalled")).toBe(false);
+    expect(isComplianceTopic(null)).toBe(false);
+  });
+
+  it("parses customer payloads", () => {
+    const payload = parseCompliancePayload("customers/redact", {
+      shop_id: 954889,
+      shop_domain: "demo.myshopify.com",
+      customer: { id: 191167, email: " John@Example.com ", phone: "555-625-1199" },
+      orders_to_redact: [299938],
+    });
+
+    expect(payload).toEqual({
+      shopDomain: "demo.myshopify.com",
+      shopId: "954889",
+      customerId: "191167",
+      customerEmail: "john@example.com",
+    });
+  });
+
+  it("ignores customer fields on shop/redact and rejects payloads without a shop", () => {
+    expect(
+      parseCompliancePayload("shop/redact", {
+        shop_id: 954889,
+        shop_domain: "demo.myshopify.com",
+        customer: { id: 1 },
+      })
+    ).toEqual({ shopDomain: "demo.myshopify.com", shopId: "954889" });
+
+    expect(parseCompliancePayload("customers/data_request", { customer: { id: 1 } })).toBe(
+      undefined
+    );
+    expect(parseCompliancePayload("customers/data_request", "nope")).toBe(undefined);
+  });
+
+  it("formats the export as JSON for the merchant", () => {
+    const email = formatCustomerExportEmail({
+      to: "owner@shop.example",
+      shopDomain: "demo.myshopify.com",
+      data: { customerId: "191167", conversations: [], followUps: [] },
+    });
+
+    expect(email.subject).toBe("Customer data request for demo.myshopify.com");
+    expect(email.text).toContain('"customerId": "191167"');
+  });
+
+  it("deletes exports sent for earlier data requests on customers/redact", async () => {
+    const exportFor = (id: string, customerId: string | null, customerEmail: string | null) => ({
+      id,
+      merchantId: "1",
+      kind: "data_request_export",
+      customerId,
+      customerEmail,
+    });
+    db.notifications = [
+      exportFor("by-id", "191167", null),
+      exportFor("by-email", null, "john@example.com"),
+      exportFor("other-customer", "42", "jane@example.com"),
+    ];
+
+    const result = await redactCustomerData({
+      merchantId: "1",
+      customer: { customerId: "191167", customerEmail: "john@example.com" },
+    });
+
+    expect(result).toEqual({ conversations: 0, exports: 2 });
+    expect(db.notifications.map((n) => n.id)).toEqual(["other-customer"]);
+  });
+});
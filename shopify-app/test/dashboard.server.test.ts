@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from "vitest";
+
+type ConversationRow = {
+  createdAt: Date;
+  handoffAt: Date | null;
+  agentReplyAt?: Date;
+};
+
+const db = vi.hoisted(() => ({
+  conversations: [] as ConversationRow[],
+  opens: 0,
+  quickActions: [] as Array<{ action: string | null; count: number }>,
+}));
+
+vi.mock("../app/db.server", () => ({
+  default: {
+    conversation: {
+      findMany: async ({ where }: { where: { handoffAt?: unknown } }) =>
+        db.conversations
+          .filter((c) => !where.handoffAt || c.handoffAt)
+          .map((c) => ({
+            createdAt: c.createdAt,
+            handoffAt: c.handoffAt,
+            messages: c.agentReplyAt ? [{ createdAt: c.agentReplyAt }] : [],
+          })),
+    },
+    widgetEvent: {
+      count: async () => db.opens,
+      groupBy: async () =>
+        db.quickActions.map((row) => ({ action: row.action, _count: { _all: row.count } })),
+    },
+  },
+}));
+
+vi.mock("../app/utils/availability.server", () => ({
+  getBusinessHours: async () => ({ timezone: "America/New_York" }),
+}));
+
+import {
+  countByDay,
+  getDashboardMetrics,
+  resolveMerchantDashboardRange,
+  startOfZonedDay,
+} from "../app/utils/dashboard.server";
+import { normalizeWidgetEvent } from "../app/utils/widget-events.server";
+
+describe("dashboard aggregates", () => {
+  it("startOfZonedDay finds local midnight, across DST changes", () => {
+    expect(startOfZonedDay("2026-10-19", "America/New_York").toISOString()).toBe(
+      "2026-10-19T04:00:00.000Z"
+    );
+    // New York falls back on 2026-11-01.
+    expect(startOfZonedDay("2026-11-02", "America/New_York").toISOString()).toBe(
+      "2026-11-02T05:00:00.000Z"
+    );
+    expect(startOfZonedDay("2026-10-19", "UTC").toISOString()).toBe("2026-10-19T00:00:00.000Z");
+  });
+
+  it("countByDay buckets by local date and fills empty days", () => {
+    const counts = countByDay(
+      [
+        new Date("2026-10-18T03:00:00Z"), // 17th in New York
+        new Date("2026-10-18T15:00:00Z"),
+        new Date("2026-10-19T23:00:00Z"),
+      ],
+      { from: "2026-10-17", to: "2026-10-20" },
+      "America/New_York"
+    );
+
+    expect(counts).toEqual([
+      { date: "2026-10-17", count: 1 },
+      { date: "2026-10-18", count: 1 },
+      { date: "2026-10-19", count: 1 },
+      { date: "2026-10-20", count: 0 },
+    ]);
+  });
+
+  it("resolves the range against the merchant's today", async () => {
+    const { range, timezone } = await resolveMerchantDashboardRange(
+      "1",
+      new URLSearchParams("range=7d"),
+      new Date("2026-10-20T02:00:00Z") // still the 19th in New York
+    );
+
+    expect(timezone).toBe("America/New_York");
+    expect(range).toEqual({ from: "2026-10-13", to: "2026-10-19", preset: "7d" });
+  });
+
+  it("computes rates, the median first response and top quick actions", async () => {
+    const at = (iso: string) => new Date(iso);
+    db.conversations = [
+      { createdAt: at("2026-10-18T15:00:00Z"), handoffAt: null },
+      { createdAt: at("2026-10-18T16:00:00Z"), handoffAt: null },
+      {
+        createdAt: at("2026-10-19T15:00:00Z"),
+        handoffAt: at("2026-10-19T15:01:00Z"),
+        agentReplyAt: at("2026-10-19T15:03:00Z"),
+      },
+      {
+        createdAt: at("2026-10-19T16:00:00Z"),
+        handoffAt: at("2026-10-19T16:00:00Z"),
+        agentReplyAt: at("2026-10-19T16:10:00Z"),
+      },
+      { createdAt: at("2026-10-19T17:00:00Z"), handoffAt: at("2026-10-19T17:00:00Z") },
+    ];
+    db.opens = 12;
+    db.quickActions = [
+      { action: "shipping_info", count: 2 },
+      { action: "order_status", count: 5 },
+    ];
+
+    const metrics = await getDashboardMetrics({
+      merchantId: "1",
+      range: { from: "2026-10-18", to: "2026-10-19", preset: null },
+      timezone: "UTC",
+    });
+
+    expect(metrics).toMatchObject({
+      conversations: 5,
+      conversationsByDay: [
+        { date: "2026-10-18", count: 2 },
+        { date: "2026-10-19", count: 3 },
+      ],
+      botResolved: 2,
+      handedOff: 3,
+      medianFirstResponseMs: 6 * 60_000,
+      widgetOpens: 12,
+      topQuickActions: [
+        { action: "order_status", count: 5 },
+        { action: "shipping_info", count: 2 },
+      ],
+    });
+  });
+});
+
+describe("widget events", () => {
+  it("accepts opens and known quick actions only", () => {
+    expect(normalizeWidgetEvent({ type: "widget_open" })).toEqual({ type: "widget_open" });
+    expect(normalizeWidgetEvent({ type: "quick_action", action: "order_status" })).toEqual({
+      type: "quick_action",
+      action: "order_status",
+    });
+    expect(normalizeWidgetEvent({ type: "quick_action", action: "refund" })).toBeUndefined();
+    expect(normalizeWidgetEvent({ type: "page_view" })).toBeUndefined();
+    expect(normalizeWidgetEvent(undefined)).toBeUndefined();
+  });
+});
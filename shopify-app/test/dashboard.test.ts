@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  addDays,
+  formatDuration,
+  formatRate,
+  groupDailyCounts,
+  listDates,
+  median,
+  resolveDashboardRange,
+} from "../app/utils/dashboard";
+
+const TODAY = "2026-10-19";
+
+describe("dashboard ranges", () => {
+  it("defaults to the last 30 days, today included", () => {
+    expect(resolveDashboardRange({}, TODAY)).toEqual({
+      from: "2026-09-20",
+      to: TODAY,
+      preset: "30d",
+    });
+    expect(resolveDashboardRange({ range: "7d" }, TODAY)).toMatchObject({ from: "2026-10-13" });
+    expect(resolveDashboardRange({ range: "1y" }, TODAY)).toMatchObject({ preset: "30d" });
+  });
+
+  it("accepts a valid custom range", () => {
+    expect(resolveDashboardRange({ from: "2026-01-01", to: "2026-01-31" }, TODAY)).toEqual({
+      from: "2026-01-01",
+      to: "2026-01-31",
+      preset: null,
+    });
+  });
+
+  it("rejects reversed, future, too long or impossible custom ranges", () => {
+    for (const [from, to] of [
+      ["2026-02-01", "2026-01-01"],
+      ["2026-10-01", "2026-10-20"],
+      ["2024-01-01", "2026-01-01"],
+      ["2026-02-01", "2026-02-31"],
+    ]) {
+      expect(resolveDashboardRange({ from, to, range: "7d" }, TODAY).preset).toBe("7d");
+    }
+  });
+
+  it("walks calendar days across month ends", () => {
+    expect(addDays("2026-02-28", 1)).toBe("2026-03-01");
+    expect(listDates("2026-12-30", "2027-01-02")).toEqual([
+      "2026-12-30",
+      "2026-12-31",
+      "2027-01-01",
+      "2027-01-02",
+    ]);
+  });
+});
+
+describe("dashboard formatting", () => {
+  it("median handles odd, even and empty inputs", () => {
+    expect(median([5, 1, 3])).toBe(3);
+    expect(median([4, 1, 3, 2])).toBe(2.5);
+    expect(median([])).toBeNull();
+  });
+
+  it("formatDuration picks a readable unit", () => {
+    expect(formatDuration(45_000)).toBe("45s");
+    expect(formatDuration(12 * 60_000)).toBe("12m");
+    expect(formatDuration(185 * 60_000)).toBe("3h 5m");
+    expect(formatDuration(52 * 3600_000)).toBe("2d 4h");
+  });
+
+  it("formatRate rounds and guards against an empty total", () => {
+    expect(formatRate(1, 3)).toBe("33%");
+    expect(formatRate(0, 0)).toBe("–");
+  });
+
+  it("groupDailyCounts sums weeks dated by their first day", () => {
+    const days = listDates("2026-10-01", "2026-10-09").map((date) => ({ date, count: 1 }));
+    expect(groupDailyCounts(days, 7)).toEqual([
+      { date: "2026-10-01", count: 7 },
+      { date: "2026-10-08", count: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../app/db.server", () => ({ default: {} }));
+
+import {
+  buildFollowUpAlertEmail,
+  buildFollowUpReplyEmail,
+  normalizeFollowUpStatus,
+} from "../app/utils/follow-ups.server";
+
+const followUp = {
+  name: "Ada",
+  email: "ada@example.com",
+  question: "Do you ship to Canada?\nAnd how long does it take?",
+};
+
+describe("follow-up emails", () => {
+  it("alerts the merchant with the question and a link back", () => {
+    const email = buildFollowUpAlertEmail({
+      to: "owner@shop.example",
+      followUp,
+      followUpsUrl: "https://app.example.com/app/follow-ups?shop=demo.myshopify.com",
+    });
+
+    expect(email.to).toBe("owner@shop.example");
+    expect(email.subject).toBe("New question from Ada");
+    expect(email.text).toContain("Ada <ada@example.com>");
+    expect(email.text).toContain(followUp.question);
+    expect(email.text).toContain("/app/follow-ups?shop=demo.myshopify.com");
+  });
+
+  it("replies to the shopper and quotes their question", () => {
+    const email = buildFollowUpReplyEmail({
+      brandName: "Demo Store",
+      followUp: { ...followUp, name: null },
+      reply: "Yes, in 5-7 days.",
+    });
+
+    expect(email.to).toBe("ada@example.com");
+    expect(email.subject).toBe("Re: your question to Demo Store");
+    expect(email.text.startsWith("Hi,\n\nYes, in 5-7 days.")).toBe(true);
+    expect(email.text).toContain("> Do you ship to Canada?\n> And how long does it take?");
+  });
+
+  it("normalizeFollowUpStatus defaults to pending", () => {
+    expect(normalizeFollowUpStatus("resolved")).toBe("resolved");
+    expect(normalizeFollowUpStatus("bogus")).toBe("pending");
+    expect(normalizeFollowUpStatus(null)).toBe("pending");
+  });
+});
@@ -0,0 +1,97 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+
+type MerchantRow = {
+  merchantId: string;
+  shopDomain: string;
+  status: string;
+  lastInstalledAt: Date;
+  lastAuthorizedAt: Date | null;
+  statusUpdatedAt: Date | null;
+};
+
+const SHOP = "demo.myshopify.com";
+
+const db = vi.hoisted(() => ({
+  merchant: undefined as MerchantRow | undefined,
+  sessions: 0,
+}));
+
+vi.mock("../app/db.server", () => {
+  const client = {
+    $transaction: async (fn: (tx: unknown) => Promise<unknown>) => fn(client),
+    merchant: {
+      findUnique: async () => db.merchant ?? null,
+    },
+    session: {
+      deleteMany: async () => {
+        const count = db.sessions;
+        db.sessions = 0;
+        return { count };
+      },
+    },
+  };
+  return { default: client };
+});
+
+vi.mock("../app/utils/offline-tokens.server", () => ({ getOfflineAdmin: vi.fn() }));
+vi.mock("../app/utils/merchant-lifecycle.server", () => ({
+  transitionMerchantStatus: async (transition: { to: string }) => {
+    const changed = db.merchant!.status !== transition.to;
+    db.merchant!.status = transition.to;
+    return { changed };
+  },
+}));
+
+import { jobHandlers } from "../app/utils/job-handlers.server";
+
+const uninstalled = jobHandlers["merchant.uninstalled"];
+const ctx = { jobId: "job-1", attempt: 1, isLastAttempt: false };
+
+describe("merchant.uninstalled job", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    db.sessions = 2;
+    db.merchant = {
+      merchantId: "1",
+      shopDomain: SHOP,
+      status: "active",
+      lastInstalledAt: new Date("2026-10-01T10:00:00Z"),
+      lastAuthorizedAt: new Date("2026-10-01T10:00:00Z"),
+      statusUpdatedAt: new Date("2026-10-01T10:00:00Z"),
+    };
+  });
+
+  it("marks the merchant uninstalled and deletes its sessions", async () => {
+    await uninstalled.run({ shopDomain: SHOP, receivedAt: "2026-10-02T10:00:00.000Z" }, ctx);
+
+    expect(db.merchant!.status).toBe("uninstalled");
+    expect(db.sessions).toBe(0);
+  });
+
+  it("leaves a merchant that reinstalled after the webhook arrived alone", async () => {
+    // Reinstalled before the job ran: still active, so only the OAuth time moves.
+    db.merchant!.lastAuthorizedAt = new Date("2026-10-02T10:05:00Z");
+
+    await uninstalled.run({ shopDomain: SHOP, receivedAt: "2026-10-02T10:00:00.000Z" }, ctx);
+
+    expect(db.merchant!.status).toBe("active");
+    expect(db.sessions).toBe(2);
+  });
+
+  it("still cleans up when only the status changed after the webhook arrived", async () => {
+    db.merchant!.status = "needs_reauth";
+    db.merchant!.statusUpdatedAt = new Date("2026-10-02T10:05:00Z");
+
+    await uninstalled.run({ shopDomain: SHOP, receivedAt: "2026-10-02T10:00:00.000Z" }, ctx);
+
+    expect(db.merchant!.status).toBe("uninstalled");
+    expect(db.sessions).toBe(0);
+  });
+
+  it("still runs jobs queued before receivedAt was recorded", async () => {
+    await uninstalled.run({ shopDomain: SHOP }, ctx);
+
+    expect(db.merchant!.status).toBe("uninstalled");
+    expect(db.sessions).toBe(0);
+  });
+});
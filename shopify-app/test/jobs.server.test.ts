@@ -0,0 +1,217 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+
+type Row = {
+  id: string;
+  type: string;
+  payload: string;
+  status: string;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lockedAt: Date | null;
+  lockedBy: string | null;
+  lastError: string | null;
+  completedAt: Date | null;
+};
+
+// Just enough of prisma.job for the queue.
+const db = vi.hoisted(() => ({ rows: [] as Row[] }));
+
+vi.mock("../app/db.server", () => ({
+  default: {
+    job: {
+      create: async ({ data }: { data: Partial<Row> }) => {
+        const row = {
+          id: `j${db.rows.length + 1}`,
+          status: "pending",
+          attempts: 0,
+          maxAttempts: 5,
+          runAt: new Date(0),
+          lockedAt: null,
+          lockedBy: null,
+          lastError: null,
+          completedAt: null,
+          ...data,
+        } as Row;
+        db.rows.push(row);
+        return row;
+      },
+      findMany: async ({
+        where,
+        take,
+      }: {
+        where: { status: string; runAt?: { lte: Date }; lockedAt?: { lt: Date } };
+        take?: number;
+      }) =>
+        db.rows
+          .filter(
+            (r) =>
+              r.status === where.status &&
+              (!where.runAt || r.runAt <= where.runAt.lte) &&
+              (!where.lockedAt || (r.lockedAt !== null && r.lockedAt < where.lockedAt.lt))
+          )
+          .sort((a, b) => a.runAt.getTime() - b.runAt.getTime())
+          .slice(0, take)
+          .map((r) => ({ ...r })),
+      count: async ({ where }: { where: { type: string; status: string | { in: string[] } } }) =>
+        db.rows.filter(
+          (r) =>
+            r.type === where.type &&
+            (typeof where.status === "string"
+              ? r.status === where.status
+              : where.status.in.includes(r.status))
+        ).length,
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { id: string; status: string };
+        data: Omit<Partial<Row>, "attempts"> & { attempts?: { increment: number } | number };
+      }) => {
+        const row = db.rows.find((r) => r.id === where.id && r.status === where.status);
+        if (!row) return { count: 0 };
+        const { attempts, ...rest } = data;
+        Object.assign(row, rest);
+        if (typeof attempts === "number") row.attempts = attempts;
+        else if (attempts) row.attempts += attempts.increment;
+        return { count: 1 };
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<Row> }) =>
+        Object.assign(db.rows.find((r) => r.id === where.id)!, data),
+    },
+  },
+}));
+
+import type { JobRegistry } from "../app/utils/jobs.server";
+import {
+  enqueueJob,
+  ensureRecurringJobs,
+  JOB_LOCK_TIMEOUT_MS,
+  jobRetryDelayMs,
+  retryDeadJob,
+  runDueJobs,
+  runsJobsInProcess,
+} from "../app/utils/jobs.server";
+
+const uninstalled = vi.fn();
+const register = vi.fn();
+const compliance = vi.fn();
+const sweep = vi.fn();
+
+const registry: JobRegistry = {
+  "merchant.uninstalled": { run: uninstalled },
+  "webhooks.register": { concurrency: 1, run: register },
+  "compliance.request": { run: compliance },
+  "webhooks.health_sweep": { every: 6 * 3600_000, run: sweep },
+  "widget_events.prune": { run: vi.fn() },
+  "notifications.deliver": { run: vi.fn() },
+  "webhooks.ledger_prune": { run: vi.fn() },
+};
+
+const now = new Date("2026-10-19T12:00:00Z");
+
+describe("job queue", () => {
+  beforeEach(() => {
+    db.rows = [];
+    for (const fn of [uninstalled, register, compliance, sweep]) fn.mockReset();
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("backs off exponentially up to an hour", () => {
+    expect(jobRetryDelayMs(1)).toBe(30_000);
+    expect(jobRetryDelayMs(3)).toBe(120_000);
+    expect(jobRetryDelayMs(20)).toBe(60 * 60_000);
+  });
+
+  it("runs in the web server unless JOB_WORKER=external", () => {
+    expect(runsJobsInProcess({})).toBe(true);
+    expect(runsJobsInProcess({ JOB_WORKER: "External" })).toBe(false);
+  });
+
+  it("runs due jobs with their payload and leaves future ones", async () => {
+    await enqueueJob("merchant.uninstalled", { shopDomain: "demo.myshopify.com" }, { runAt: now });
+    await enqueueJob(
+      "compliance.request",
+      { complianceRequestId: "c1" },
+      { runAt: new Date(now.getTime() + 60_000) }
+    );
+
+    expect(await runDueJobs({ registry, now })).toMatchObject({ completed: 1 });
+    expect(uninstalled).toHaveBeenCalledWith(
+      { shopDomain: "demo.myshopify.com" },
+      { jobId: "j1", attempt: 1, isLastAttempt: false }
+    );
+    expect(compliance).not.toHaveBeenCalled();
+    expect(db.rows[0]).toMatchObject({ status: "completed", lockedAt: null });
+    expect(db.rows[1]).toMatchObject({ status: "pending", attempts: 0 });
+  });
+
+  it("retries with backoff, then dead-letters the job", async () => {
+    compliance.mockRejectedValue(new Error("Shopify is down"));
+    await enqueueJob(
+      "compliance.request",
+      { complianceRequestId: "c1" },
+      { runAt: now, maxAttempts: 2 }
+    );
+
+    expect(await runDueJobs({ registry, now })).toMatchObject({ pending: 1 });
+    expect(db.rows[0]).toMatchObject({
+      status: "pending",
+      attempts: 1,
+      lastError: "Shopify is down",
+    });
+    expect(db.rows[0].runAt.getTime()).toBeGreaterThan(now.getTime());
+
+    await runDueJobs({ registry, now: new Date(now.getTime() + 3600_000) });
+    expect(db.rows[0]).toMatchObject({ status: "dead", attempts: 2 });
+    expect(compliance).toHaveBeenLastCalledWith(
+      { complianceRequestId: "c1" },
+      { jobId: "j1", attempt: 2, isLastAttempt: true }
+    );
+
+    expect(await retryDeadJob("j1")).toBe(true);
+    expect(db.rows[0]).toMatchObject({ status: "pending", attempts: 0, lastError: null });
+  });
+
+  it("respects per-type concurrency limits", async () => {
+    for (const shopDomain of ["a.myshopify.com", "b.myshopify.com"]) {
+      await enqueueJob("webhooks.register", { shopDomain }, { runAt: now });
+    }
+    db.rows[0].status = "running";
+    db.rows[0].lockedAt = now;
+
+    expect(await runDueJobs({ registry, now })).toMatchObject({ completed: 0 });
+    expect(register).not.toHaveBeenCalled();
+  });
+
+  it("schedules recurring jobs once and again after each run", async () => {
+    await ensureRecurringJobs(registry, now);
+    await ensureRecurringJobs(registry, now);
+    expect(db.rows).toHaveLength(1);
+    expect(db.rows[0]).toMatchObject({ type: "webhooks.health_sweep", payload: "{}" });
+
+    await runDueJobs({ registry, now });
+    expect(sweep).toHaveBeenCalledTimes(1);
+    expect(db.rows).toHaveLength(2);
+    expect(db.rows[1]).toMatchObject({ type: "webhooks.health_sweep", status: "pending" });
+    expect(db.rows[1].runAt.getTime()).toBe(now.getTime() + 6 * 3600_000);
+  });
+
+  it("retries jobs whose worker went away", async () => {
+    await enqueueJob("merchant.uninstalled", { shopDomain: "demo.myshopify.com" }, { runAt: now });
+    Object.assign(db.rows[0], {
+      status: "running",
+      attempts: 1,
+      lockedAt: now,
+      lockedBy: "gone:1",
+    });
+
+    const later = new Date(now.getTime() + JOB_LOCK_TIMEOUT_MS + 1);
+    await runDueJobs({ registry, now: later });
+    expect(db.rows[0]).toMatchObject({ status: "pending", lastError: "Job lock expired" });
+
+    await runDueJobs({ registry, now: new Date(later.getTime() + 3600_000) });
+    expect(db.rows[0]).toMatchObject({ status: "completed", attempts: 2 });
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../app/db.server", () => ({ default: {} }));
+
+import type { KnowledgeEntryView } from "../app/utils/knowledge.server";
+import {
+  matchKnowledgeEntry,
+  normalizeKnowledgeInput,
+  stripHtml,
+} from "../app/utils/knowledge.server";
+
+function entry(id: string, kind: "policy" | "faq", title: string, body: string): KnowledgeEntryView {
+  return { id, kind, title, body, source: "manual" };
+}
+
+const ENTRIES: KnowledgeEntryView[] = [
+  entry("p1", "policy", "Shipping policy", "We ship worldwide within 3-5 business days."),
+  entry("f1", "faq", "Do you ship internationally?", "Yes, to over 40 countries."),
+  entry("f2", "faq", "How much is express delivery?", "Express delivery costs $15."),
+];
+
+describe("knowledge", () => {
+  it("normalizes admin input", () => {
+    expect(normalizeKnowledgeInput({ kind: "faq", title: "  Q ", body: " A " })).toEqual({
+      kind: "faq",
+      title: "Q",
+      body: "A",
+    });
+    expect(normalizeKnowledgeInput({ kind: "faq", title: "", body: "A" })).toBeUndefined();
+    expect(normalizeKnowledgeInput({ kind: "other", title: "Q", body: "A" })).toBeUndefined();
+    expect(normalizeKnowledgeInput({ kind: "faq", title: "Q", body: null })).toBeUndefined();
+  });
+
+  it("strips policy HTML to plain text", () => {
+    expect(
+      stripHtml("<p>Orders ship in <strong>2 days</strong>.</p><ul><li>UK &amp; EU</li></ul>")
+    ).toBe("Orders ship in 2 days.\n- UK & EU");
+    expect(stripHtml("<script>alert(1)</script>Free returns")).toBe("Free returns");
+  });
+
+  it("matches the closest FAQ by shared word stems", () => {
+    expect(matchKnowledgeEntry("can you deliver express?", ENTRIES)?.id).toBe("f2");
+    expect(matchKnowledgeEntry("international shipping", ENTRIES)?.id).toBe("f1");
+  });
+
+  it("ignores policies and weak matches", () => {
+    expect(matchKnowledgeEntry("business days", ENTRIES)).toBeUndefined();
+    expect(matchKnowledgeEntry("hello", ENTRIES)).toBeUndefined();
+  });
+});
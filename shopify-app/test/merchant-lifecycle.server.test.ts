@@ -0,0 +1,151 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+
+type MerchantRow = { merchantId: string; status: string; statusUpdatedAt?: Date };
+type EventRow = {
+  id: string;
+  merchantId: string;
+  fromStatus: string | null;
+  toStatus: string;
+  reason: string;
+  requestId?: string;
+  createdAt: Date;
+};
+
+const db = vi.hoisted(() => ({ merchants: [] as MerchantRow[], events: [] as EventRow[] }));
+
+vi.mock("../app/db.server", () => {
+  const client = {
+    $transaction: async (fn: (tx: unknown) => Promise<unknown>) => fn(client),
+    merchant: {
+      findUnique: async ({ where }: { where: { merchantId: string } }) =>
+        db.merchants.find((m) => m.merchantId === where.merchantId) ?? null,
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { merchantId: string; status: string };
+        data: { status: string; statusUpdatedAt: Date };
+      }) => {
+        const row = db.merchants.find(
+          (m) => m.merchantId === where.merchantId && m.status === where.status
+        );
+        if (row) Object.assign(row, data);
+        return { count: row ? 1 : 0 };
+      },
+    },
+    merchantStatusEvent: {
+      create: async ({ data }: { data: Omit<EventRow, "id"> }) => {
+        const row = { id: `e${db.events.length + 1}`, ...data };
+        db.events.push(row);
+        return row;
+      },
+      findMany: async ({ where }: { where: { merchantId: string } }) =>
+        db.events
+          .filter((e) => e.merchantId === where.merchantId)
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+    },
+  };
+  return { default: client };
+});
+
+import {
+  canTransitionMerchant,
+  getMerchantTimeline,
+  InvalidMerchantTransitionError,
+  transitionMerchantStatus,
+} from "../app/utils/merchant-lifecycle.server";
+import { runWithRequestId } from "../app/utils/request-id.server";
+
+describe("merchant lifecycle", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    db.merchants = [
+      { merchantId: "1", status: "active" },
+      { merchantId: "2", status: "uninstalled" },
+      { merchantId: "3", status: "suspended" },
+    ];
+    db.events = [];
+  });
+
+  it("allows only the transitions of the state machine", () => {
+    expect(canTransitionMerchant("active", "uninstalled")).toBe(true);
+    expect(canTransitionMerchant("missing_webhooks", "active")).toBe(true);
+    expect(canTransitionMerchant("uninstalled", "active")).toBe(true);
+    expect(canTransitionMerchant("active", "needs_reauth")).toBe(true);
+    expect(canTransitionMerchant("needs_reauth", "missing_webhooks")).toBe(true);
+    expect(canTransitionMerchant("uninstalled", "needs_reauth")).toBe(false);
+    expect(canTransitionMerchant("active", "insufficient_scopes")).toBe(true);
+    expect(canTransitionMerchant("insufficient_scopes", "active")).toBe(true);
+    expect(canTransitionMerchant("needs_reauth", "insufficient_scopes")).toBe(true);
+    expect(canTransitionMerchant("active", "active")).toBe(false);
+    expect(canTransitionMerchant("suspended", "active")).toBe(false);
+    expect(canTransitionMerchant("toString", "active")).toBe(false);
+  });
+
+  it("updates the status and records the event with the request id", async () => {
+    const result = await runWithRequestId("req-1", () =>
+      transitionMerchantStatus({ merchantId: "1", to: "uninstalled", reason: "app_uninstalled" })
+    );
+
+    expect(result).toEqual({ changed: true, from: "active", to: "uninstalled" });
+    expect(db.merchants[0].status).toBe("uninstalled");
+    expect(db.events).toEqual([
+      expect.objectContaining({
+        merchantId: "1",
+        fromStatus: "active",
+        toStatus: "uninstalled",
+        reason: "app_uninstalled",
+        requestId: "req-1",
+      }),
+    ]);
+  });
+
+  it("is a no-op for the same status, a missing merchant or a non-matching from", async () => {
+    await expect(
+      transitionMerchantStatus({ merchantId: "1", to: "active", reason: "webhooks_restored" })
+    ).resolves.toMatchObject({ changed: false, from: "active" });
+    await expect(
+      transitionMerchantStatus({ merchantId: "9", to: "active", reason: "install" })
+    ).resolves.toMatchObject({ changed: false, from: null });
+    await expect(
+      transitionMerchantStatus({
+        merchantId: "2",
+        to: "missing_webhooks",
+        reason: "webhooks_missing",
+        from: ["active"],
+      })
+    ).resolves.toMatchObject({ changed: false, from: "uninstalled" });
+
+    expect(db.merchants.map((m) => m.status)).toEqual(["active", "uninstalled", "suspended"]);
+    expect(db.events).toEqual([]);
+  });
+
+  it("rejects transitions out of an unknown status", async () => {
+    await expect(
+      transitionMerchantStatus({ merchantId: "3", to: "active", reason: "reinstall" })
+    ).rejects.toBeInstanceOf(InvalidMerchantTransitionError);
+    expect(db.events).toEqual([]);
+  });
+
+  it("returns the timeline oldest first", async () => {
+    vi.useFakeTimers();
+    try {
+      vi.setSystemTime(new Date("2026-10-01T00:00:00Z"));
+      await transitionMerchantStatus({
+        merchantId: "1",
+        to: "uninstalled",
+        reason: "app_uninstalled",
+      });
+      vi.setSystemTime(new Date("2026-10-05T00:00:00Z"));
+      await transitionMerchantStatus({ merchantId: "1", to: "active", reason: "reinstall" });
+    } finally {
+      vi.useRealTimers();
+    }
+
+    const timeline = await getMerchantTimeline("1");
+    expect(timeline.map((e) => [e.fromStatus, e.toStatus, e.reason])).toEqual([
+      ["active", "uninstalled", "app_uninstalled"],
+      ["uninstalled", "active", "reinstall"],
+    ]);
+  });
+});
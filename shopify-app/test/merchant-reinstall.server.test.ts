@@ -0,0 +1,123 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+import type { Prisma } from "@prisma/client";
+
+import {
+  applyReinstallDataPolicy,
+  getReinstallDataPolicy,
+} from "../app/utils/merchant-reinstall.server";
+
+type ConversationRow = {
+  id: string;
+  status: string;
+  closedAt: Date | null;
+  archivedAt: Date | null;
+};
+
+function fakeTx(rows: { conversations: ConversationRow[]; knowledge: string[] }) {
+  const archives: Array<{ merchantId: string; data: string }> = [];
+  const matches = (
+    c: ConversationRow,
+    where: { archivedAt: null; status?: { not: string } }
+  ) => c.archivedAt === null && (!where.status || c.status !== where.status.not);
+
+  const tx = {
+    widgetSettings: {
+      findUnique: async () => ({ merchantId: "1", brandName: "Acme" }),
+      deleteMany: async () => ({ count: 1 }),
+    },
+    businessHours: {
+      findUnique: async () => null,
+      deleteMany: async () => ({ count: 0 }),
+    },
+    holidayException: {
+      findMany: async () => [],
+      deleteMany: async () => ({ count: 0 }),
+    },
+    knowledgeEntry: {
+      findMany: async () => rows.knowledge.map((question) => ({ question })),
+      deleteMany: async () => {
+        const count = rows.knowledge.length;
+        rows.knowledge = [];
+        return { count };
+      },
+    },
+    merchantSettingsArchive: {
+      create: async ({ data }: { data: { merchantId: string; data: string } }) => {
+        archives.push(data);
+        return data;
+      },
+    },
+    conversation: {
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { archivedAt: null; status?: { not: string } };
+        data: Partial<ConversationRow>;
+      }) => {
+        const hit = rows.conversations.filter((c) => matches(c, where));
+        hit.forEach((c) => Object.assign(c, data));
+        return { count: hit.length };
+      },
+    },
+  };
+
+  return { tx: tx as unknown as Prisma.TransactionClient, archives };
+}
+
+describe("reinstall data policy", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+  let rows: { conversations: ConversationRow[]; knowledge: string[] };
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    rows = {
+      conversations: [
+        { id: "c1", status: "open", closedAt: null, archivedAt: null },
+        { id: "c2", status: "closed", closedAt: new Date("2026-09-01"), archivedAt: null },
+      ],
+      knowledge: ["Shipping?"],
+    };
+  });
+
+  it("reads REINSTALL_DATA_POLICY, defaulting to restore", () => {
+    expect(getReinstallDataPolicy({})).toBe("restore");
+    expect(getReinstallDataPolicy({ REINSTALL_DATA_POLICY: " Archive " })).toBe("archive");
+    expect(getReinstallDataPolicy({ REINSTALL_DATA_POLICY: "wipe" })).toBe("restore");
+  });
+
+  it("restore leaves the merchant's data alone", async () => {
+    const { tx, archives } = fakeTx(rows);
+
+    await expect(applyReinstallDataPolicy(tx, "1", "restore", now)).resolves.toEqual({
+      policy: "restore",
+      conversationsArchived: 0,
+      settingsArchived: false,
+    });
+    expect(archives).toEqual([]);
+    expect(rows.conversations.every((c) => c.archivedAt === null)).toBe(true);
+  });
+
+  it("archive closes and archives conversations and sets the settings aside", async () => {
+    const { tx, archives } = fakeTx(rows);
+
+    await expect(applyReinstallDataPolicy(tx, "1", "archive", now)).resolves.toEqual({
+      policy: "archive",
+      conversationsArchived: 2,
+      settingsArchived: true,
+    });
+
+    expect(rows.conversations).toEqual([
+      { id: "c1", status: "closed", closedAt: now, archivedAt: now },
+      { id: "c2", status: "closed", closedAt: new Date("2026-09-01"), archivedAt: now },
+    ]);
+    expect(rows.knowledge).toEqual([]);
+    expect(archives).toHaveLength(1);
+    expect(JSON.parse(archives[0].data)).toEqual({
+      widget: { merchantId: "1", brandName: "Acme" },
+      businessHours: null,
+      holidays: [],
+      knowledge: [{ question: "Shipping?" }],
+    });
+  });
+});
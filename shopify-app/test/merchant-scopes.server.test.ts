@@ -0,0 +1,123 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+
+type MerchantRow = {
+  merchantId: string;
+  shopDomain: string;
+  status: string;
+  scopes: string;
+  declinedScopes: string;
+  scopesRequestedAt?: Date;
+};
+
+const SHOP = "demo.myshopify.com";
+
+const db = vi.hoisted(() => ({
+  merchant: undefined as MerchantRow | undefined,
+  transitions: [] as Array<{ to: string; reason: string; from?: string[] }>,
+}));
+
+vi.mock("../app/db.server", () => {
+  const client = {
+    $transaction: async (fn: (tx: unknown) => Promise<unknown>) => fn(client),
+    merchant: {
+      findUnique: async () => db.merchant ?? null,
+      update: async ({ data }: { data: Partial<MerchantRow> }) => Object.assign(db.merchant!, data),
+    },
+  };
+  return { default: client };
+});
+
+vi.mock("../app/utils/merchant-lifecycle.server", () => ({
+  transitionMerchantStatus: async (transition: { to: string; reason: string; from: string[] }) => {
+    db.transitions.push(transition);
+    const changed = Boolean(db.merchant && transition.from.includes(db.merchant.status));
+    if (changed) db.merchant!.status = transition.to;
+    return { changed };
+  },
+}));
+
+import { recordScopeRequest, syncMerchantScopes } from "../app/utils/merchant-scopes.server";
+
+describe("merchant scope sync", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    db.transitions = [];
+    db.merchant = {
+      merchantId: "1",
+      shopDomain: SHOP,
+      status: "active",
+      scopes: "read_legal_policies,read_orders,write_products",
+      declinedScopes: "",
+    };
+  });
+
+  it("moves the merchant to insufficient_scopes when a required scope is revoked", async () => {
+    const result = await syncMerchantScopes({
+      shopDomain: SHOP,
+      scopes: ["read_orders", "write_products"],
+    });
+
+    expect(result).toEqual({
+      found: true,
+      missingScopes: ["read_legal_policies"],
+      unavailableFeatures: ["shipping_policy_import"],
+      changed: true,
+    });
+    expect(db.merchant).toMatchObject({
+      status: "insufficient_scopes",
+      scopes: "read_orders,write_products",
+    });
+    expect(db.transitions[0]).toMatchObject({ reason: "scopes_missing" });
+  });
+
+  it("brings the merchant back once the scopes are granted again", async () => {
+    db.merchant!.status = "insufficient_scopes";
+
+    const result = await syncMerchantScopes({
+      shopDomain: SHOP,
+      scopes: "read_legal_policies,write_orders",
+    });
+
+    expect(result).toMatchObject({ missingScopes: [], unavailableFeatures: [], changed: true });
+    expect(db.merchant?.status).toBe("active");
+    expect(db.transitions[0]).toMatchObject({ reason: "scopes_granted" });
+  });
+
+  it("leaves needs_reauth and uninstalled merchants alone", async () => {
+    db.merchant!.status = "needs_reauth";
+    expect(await syncMerchantScopes({ shopDomain: SHOP, scopes: "" })).toMatchObject({
+      found: true,
+      changed: false,
+    });
+    expect(db.merchant?.status).toBe("needs_reauth");
+
+    db.merchant!.status = "uninstalled";
+    db.transitions = [];
+    expect(await syncMerchantScopes({ shopDomain: SHOP, scopes: "" })).toMatchObject({
+      found: false,
+    });
+    expect(db.transitions).toEqual([]);
+  });
+
+  it("records declined optional scopes without changing the status", async () => {
+    db.merchant!.scopes = "read_legal_policies,write_products";
+
+    const outcome = await recordScopeRequest({
+      shopDomain: SHOP,
+      requested: ["read_orders"],
+      granted: ["read_legal_policies", "write_products"],
+    });
+
+    expect(outcome).toEqual({ granted: [], declined: ["read_orders"] });
+    expect(db.merchant).toMatchObject({ status: "active", declinedScopes: "read_orders" });
+    expect(db.merchant?.scopesRequestedAt).toBeInstanceOf(Date);
+
+    // Granting it later, e.g. from the app listing, clears the decline.
+    await syncMerchantScopes({
+      shopDomain: SHOP,
+      scopes: "read_legal_policies,read_orders,write_products",
+    });
+    expect(db.merchant?.declinedScopes).toBe("");
+  });
+});
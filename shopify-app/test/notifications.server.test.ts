@@ -0,0 +1,129 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+
+type Row = {
+  id: string;
+  merchantId: string;
+  followUpId: string | null;
+  kind: string;
+  recipient: string;
+  subject: string;
+  body: string;
+  status: string;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: Date;
+  sentAt: Date | null;
+  createdAt: Date;
+};
+
+// Just enough of prisma.outboundNotification for the queue.
+const db = vi.hoisted(() => ({ rows: [] as Row[] }));
+
+vi.mock("../app/db.server", () => ({
+  default: {
+    outboundNotification: {
+      create: async ({ data }: { data: Partial<Row> }) => {
+        const row: Row = {
+          id: `n${db.rows.length + 1}`,
+          followUpId: null,
+          status: "pending",
+          attempts: 0,
+          lastError: null,
+          nextAttemptAt: new Date(0),
+          sentAt: null,
+          createdAt: new Date(0),
+          ...data,
+        } as Row;
+        db.rows.push(row);
+        return row;
+      },
+      findMany: async ({
+        where,
+        take,
+      }: {
+        where: { status: string; nextAttemptAt: { lte: Date } };
+        take: number;
+      }) =>
+        db.rows
+          .filter((r) => r.status === where.status && r.nextAttemptAt <= where.nextAttemptAt.lte)
+          .slice(0, take)
+          .map((r) => ({ ...r })),
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { id: string; status: string; attempts: number };
+        data: Partial<Row>;
+      }) => {
+        const row = db.rows.find(
+          (r) => r.id === where.id && r.status === where.status && r.attempts === where.attempts
+        );
+        if (row) Object.assign(row, data);
+        return { count: row ? 1 : 0 };
+      },
+      update: async ({ where, data }: { where: { id: string }; data: Partial<Row> }) => {
+        const row = db.rows.find((r) => r.id === where.id);
+        Object.assign(row!, data);
+        return row;
+      },
+    },
+  },
+}));
+
+import {
+  createMemoryTransport,
+  deliverDueNotifications,
+  enqueueNotification,
+  MAX_NOTIFICATION_ATTEMPTS,
+  notificationRetryDelayMs,
+} from "../app/utils/notifications.server";
+
+const email = { to: "shopper@example.com", subject: "Hi", text: "Hello" };
+
+describe("notification queue", () => {
+  beforeEach(() => {
+    db.rows = [];
+  });
+
+  it("backs off exponentially up to an hour", () => {
+    expect(notificationRetryDelayMs(1)).toBe(60_000);
+    expect(notificationRetryDelayMs(3)).toBe(240_000);
+    expect(notificationRetryDelayMs(20)).toBe(60 * 60_000);
+  });
+
+  it("delivers due messages through the transport", async () => {
+    const transport = createMemoryTransport();
+    await enqueueNotification({ merchantId: "1", kind: "follow_up_reply", email });
+
+    const result = await deliverDueNotifications({ transport, now: new Date(1000) });
+
+    expect(result).toEqual({ sent: 1, failed: 0 });
+    expect(transport.sent).toEqual([email]);
+    expect(db.rows[0]).toMatchObject({ status: "sent", attempts: 1 });
+  });
+
+  it("reschedules failures and gives up after the last attempt", async () => {
+    const transport = createMemoryTransport();
+    await enqueueNotification({ merchantId: "1", kind: "follow_up_alert", email });
+
+    transport.fail(1);
+    const now = new Date(1000);
+    await deliverDueNotifications({ transport, now });
+    expect(db.rows[0]).toMatchObject({ status: "pending", attempts: 1 });
+    expect(db.rows[0].nextAttemptAt.getTime()).toBe(now.getTime() + 60_000);
+
+    // Not due yet: nothing is sent.
+    expect(await deliverDueNotifications({ transport, now })).toEqual({ sent: 0, failed: 0 });
+
+    transport.fail(MAX_NOTIFICATION_ATTEMPTS);
+    for (let i = 1; i < MAX_NOTIFICATION_ATTEMPTS; i++) {
+      await deliverDueNotifications({ transport, now: new Date(now.getTime() + i * 3600_000) });
+    }
+    expect(db.rows[0]).toMatchObject({
+      status: "failed",
+      attempts: MAX_NOTIFICATION_ATTEMPTS,
+      lastError: "Simulated transport failure",
+    });
+    expect(transport.sent).toEqual([]);
+  });
+});
@@ -0,0 +1,245 @@
+import { afterEach, beforeEach, describe, it, expect, vi } from "vitest";
+import { Session } from "@shopify/shopify-api";
+
+type MerchantRow = {
+  merchantId: string;
+  shopDomain: string;
+  status: string;
+  tokenRefreshLeaseUntil: Date | null;
+};
+
+const SHOP = "demo.myshopify.com";
+
+const db = vi.hoisted(() => ({
+  merchant: undefined as MerchantRow | undefined,
+  sessions: new Map<string, Session>(),
+  transitions: [] as unknown[],
+}));
+
+vi.mock("../app/db.server", () => ({
+  default: {
+    merchant: {
+      findUnique: async () => db.merchant ?? null,
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { OR?: unknown };
+        data: { tokenRefreshLeaseUntil: Date | null };
+      }) => {
+        const merchant = db.merchant;
+        const lease = merchant?.tokenRefreshLeaseUntil;
+        if (!merchant || (where.OR && lease && lease.getTime() >= Date.now())) {
+          return { count: 0 };
+        }
+        merchant.tokenRefreshLeaseUntil = data.tokenRefreshLeaseUntil;
+        return { count: 1 };
+      },
+    },
+  },
+}));
+
+vi.mock("../app/shopify.server", () => ({
+  sessionStorage: {
+    loadSession: async (id: string) => db.sessions.get(id),
+    storeSession: async (session: Session) => Boolean(db.sessions.set(session.id, session)),
+  },
+  unauthenticated: {
+    admin: async (shop: string) => ({ admin: {}, session: db.sessions.get(`offline_${shop}`) }),
+  },
+}));
+
+vi.mock("../app/utils/merchant-lifecycle.server", () => ({
+  transitionMerchantStatus: async (transition: { to: string }) => {
+    db.transitions.push(transition);
+    if (db.merchant) db.merchant.status = transition.to;
+    return { changed: true };
+  },
+}));
+
+import {
+  getOfflineAdmin,
+  getOfflineSession,
+  OfflineTokenError,
+  TOKEN_REFRESH_LEASE_MS,
+} from "../app/utils/offline-tokens.server";
+
+const minutes = (n: number) => new Date(Date.now() + n * 60_000);
+
+function storeOffline(accessToken: string, expires: Date, refreshToken = "shprt_1") {
+  db.sessions.set(
+    `offline_${SHOP}`,
+    new Session({
+      id: `offline_${SHOP}`,
+      shop: SHOP,
+      state: "",
+      isOnline: false,
+      scope: "read_orders",
+      accessToken,
+      expires,
+      refreshToken,
+      refreshTokenExpires: minutes(60 * 24),
+    })
+  );
+}
+
+function tokenResponse(accessToken: string, refreshToken?: string) {
+  return new Response(
+    JSON.stringify({
+      access_token: accessToken,
+      scope: "read_orders",
+      expires_in: 3600,
+      ...(refreshToken ? { refresh_token: refreshToken, refresh_token_expires_in: 7_776_000 } : {}),
+    }),
+    { status: 200, headers: { "Content-Type": "application/json" } }
+  );
+}
+
+describe("offline token manager", () => {
+  const fetchMock = vi.fn();
+
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.stubGlobal("fetch", fetchMock);
+    fetchMock.mockReset();
+    db.sessions.clear();
+    db.transitions = [];
+    db.merchant = {
+      merchantId: "1",
+      shopDomain: SHOP,
+      status: "active",
+      tokenRefreshLeaseUntil: null,
+    };
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it("returns a token that is not close to expiring as it is", async () => {
+    storeOffline("shpat_1", minutes(30));
+
+    expect((await getOfflineSession(SHOP)).accessToken).toBe("shpat_1");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("refreshes ahead of expiry, once for concurrent callers", async () => {
+    storeOffline("shpat_1", minutes(5));
+    fetchMock.mockImplementation(async () => tokenResponse("shpat_2", "shprt_2"));
+
+    const sessions = await Promise.all([
+      getOfflineSession(SHOP),
+      getOfflineSession(SHOP),
+      getOfflineAdmin(SHOP),
+    ]);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe(`https://${SHOP}/admin/oauth/access_token`);
+    expect(JSON.parse(init.body)).toMatchObject({
+      grant_type: "refresh_token",
+      refresh_token: "shprt_1",
+    });
+
+    expect(sessions[0].accessToken).toBe("shpat_2");
+    expect(sessions[1]).toBe(sessions[0]);
+    expect(sessions[2].session?.accessToken).toBe("shpat_2");
+    expect(db.sessions.get(`offline_${SHOP}`)?.refreshToken).toBe("shprt_2");
+    expect(db.merchant?.tokenRefreshLeaseUntil).toBeNull();
+  });
+
+  it("waits for the refresh of a process holding the lease", async () => {
+    storeOffline("shpat_1", minutes(5));
+    db.merchant!.tokenRefreshLeaseUntil = minutes(0.5);
+    setTimeout(() => storeOffline("shpat_other", minutes(60), "shprt_other"), 100);
+
+    expect((await getOfflineSession(SHOP)).accessToken).toBe("shpat_other");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("takes over the lease when the holder never finishes its refresh", async () => {
+    vi.useFakeTimers();
+    storeOffline("shpat_1", minutes(5));
+    // Taken a few seconds ago by a process that died mid-refresh.
+    db.merchant!.tokenRefreshLeaseUntil = new Date(Date.now() + TOKEN_REFRESH_LEASE_MS - 5000);
+    fetchMock.mockImplementation(async () => tokenResponse("shpat_2", "shprt_2"));
+
+    const session = getOfflineSession(SHOP);
+    await vi.advanceTimersByTimeAsync(TOKEN_REFRESH_LEASE_MS + 1000);
+
+    expect((await session).accessToken).toBe("shpat_2");
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(db.merchant?.tokenRefreshLeaseUntil).toBeNull();
+  });
+
+  it("doesn't refresh when another waiter took over the lease first", async () => {
+    vi.useFakeTimers();
+    storeOffline("shpat_1", minutes(-1));
+    db.merchant!.tokenRefreshLeaseUntil = minutes(0.5);
+    setTimeout(() => {
+      db.merchant!.tokenRefreshLeaseUntil = minutes(1);
+    }, TOKEN_REFRESH_LEASE_MS - 1000);
+
+    const session = getOfflineSession(SHOP).catch((err: unknown) => err);
+    await vi.advanceTimersByTimeAsync(TOKEN_REFRESH_LEASE_MS + 1000);
+
+    expect(await session).toMatchObject({ code: "refresh_failed" });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("keeps the refresh token when Shopify doesn't send a new one", async () => {
+    storeOffline("shpat_1", minutes(5));
+    const refreshTokenExpires = db.sessions.get(`offline_${SHOP}`)?.refreshTokenExpires;
+    fetchMock.mockImplementation(async () => tokenResponse("shpat_2"));
+
+    const session = await getOfflineSession(SHOP);
+
+    expect(session.accessToken).toBe("shpat_2");
+    expect(session.refreshToken).toBe("shprt_1");
+    expect(session.refreshTokenExpires).toEqual(refreshTokenExpires);
+  });
+
+  it("marks the merchant needs_reauth when Shopify rejects the refresh", async () => {
+    storeOffline("shpat_1", minutes(5));
+    fetchMock.mockResolvedValue(new Response("{}", { status: 401 }));
+
+    await expect(getOfflineSession(SHOP)).rejects.toMatchObject({
+      name: "OfflineTokenError",
+      code: "reauth_required",
+    });
+    expect(db.transitions).toEqual([
+      {
+        merchantId: "1",
+        to: "needs_reauth",
+        reason: "token_refresh_failed",
+        from: ["active", "missing_webhooks", "insufficient_scopes"],
+      },
+    ]);
+
+    // No further refresh attempts until the merchant authenticates again.
+    await expect(getOfflineSession(SHOP)).rejects.toMatchObject({ code: "reauth_required" });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps a still-valid token through a transient failure", async () => {
+    storeOffline("shpat_1", minutes(5));
+    fetchMock.mockResolvedValue(new Response("{}", { status: 503 }));
+
+    expect((await getOfflineSession(SHOP)).accessToken).toBe("shpat_1");
+
+    storeOffline("shpat_1", minutes(-1));
+    await expect(getOfflineSession(SHOP)).rejects.toMatchObject({ code: "refresh_failed" });
+    expect(db.transitions).toEqual([]);
+    expect(db.merchant?.status).toBe("active");
+  });
+
+  it("reports a shop without an offline session", async () => {
+    const error = await getOfflineSession(SHOP).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(OfflineTokenError);
+    expect(error).toMatchObject({ code: "no_session" });
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+
+import type { CliCommand } from "../app/utils/operator-cli.server";
+import {
+  EXIT_FAILURE,
+  EXIT_OK,
+  EXIT_USAGE,
+  formatTable,
+  parseCliArgs,
+  printResult,
+  requirePositional,
+  runCli,
+} from "../app/utils/operator-cli.server";
+
+function captureIO() {
+  const io = { stdout: [] as string[], stderr: [] as string[] };
+  return {
+    io,
+    cli: { out: (t: string) => io.stdout.push(t), err: (t: string) => io.stderr.push(t) },
+  };
+}
+
+const shopCommand: CliCommand = {
+  name: "shop",
+  usage: "<shop> [--fail]",
+  summary: "Test command",
+  async run(args, io) {
+    const shop = requirePositional(args, 0, "shop");
+    if (shop === "boom.myshopify.com") throw new Error("Database is locked");
+    printResult(io, args, { shop }, [{ shop }]);
+    return args.flags.fail ? EXIT_FAILURE : EXIT_OK;
+  },
+};
+
+describe("operator CLI", () => {
+  it("parses positionals, boolean flags and --key=value", () => {
+    expect(parseCliArgs(["demo.myshopify.com", "--json", "--status=active", "--out="])).toEqual({
+      positionals: ["demo.myshopify.com"],
+      flags: { json: true, status: "active", out: "" },
+    });
+  });
+
+  it("formats aligned tables", () => {
+    const table = formatTable([
+      { shop: "a.myshopify.com", status: "active", at: new Date("2026-10-19T00:00:00Z") },
+      { shop: "bb.myshopify.com", status: null, at: null },
+    ]);
+
+    expect(table.split("\n")).toEqual([
+      "shop              status  at",
+      "----------------  ------  ------------------------",
+      "a.myshopify.com   active  2026-10-19T00:00:00.000Z",
+      "bb.myshopify.com",
+    ]);
+    expect(formatTable([])).toBe("(none)");
+  });
+
+  it("prints JSON with --json and returns the command's exit code", async () => {
+    const { io, cli } = captureIO();
+
+    const json = ["shop", "demo.myshopify.com", "--json"];
+    expect(await runCli("astra", json, [shopCommand], cli)).toBe(EXIT_OK);
+    expect(JSON.parse(io.stdout[0])).toEqual({ shop: "demo.myshopify.com" });
+
+    const failing = ["shop", "demo.myshopify.com", "--fail"];
+    expect(await runCli("astra", failing, [shopCommand], cli)).toBe(EXIT_FAILURE);
+  });
+
+  it("exits 2 on usage errors and 1 on failures", async () => {
+    const { io, cli } = captureIO();
+
+    expect(await runCli("astra", [], [shopCommand], cli)).toBe(EXIT_USAGE);
+    expect(await runCli("astra", ["nope"], [shopCommand], cli)).toBe(EXIT_USAGE);
+    expect(await runCli("astra", ["shop"], [shopCommand], cli)).toBe(EXIT_USAGE);
+    expect(io.stderr.at(-1)).toBe("Missing <shop>\n\nUsage: astra shop <shop> [--fail]");
+
+    expect(await runCli("astra", ["shop", "boom.myshopify.com"], [shopCommand], cli)).toBe(
+      EXIT_FAILURE
+    );
+    expect(io.stderr.at(-1)).toBe("Error: Database is locked");
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach } from "vitest";
+
+import { getClientIp } from "../app/utils/http.server";
+import {
+  ORDER_LOOKUP_MAX_ATTEMPTS,
+  consumeOrderLookupAttempt,
+  consumeOrderLookupAttempts,
+  orderLookupAttemptCount,
+  orderLookupLimitKeys,
+  ORDER_LOOKUP_WINDOW_MS,
+  formatOrderStatusSummary,
+  lookupOrderStatus,
+  normalizeOrderNumber,
+  parseOrderVerifier,
+  resetOrderLookupAttempts,
+} from "../app/utils/order-lookup.server";
+
+const ORDER = {
+  id: "gid://shopify/Order/1",
+  name: "#1001",
+  email: "Shopper@Example.com",
+  createdAt: "2026-01-01T00:00:00Z",
+  cancelledAt: null,
+  displayFinancialStatus: "PAID",
+  displayFulfillmentStatus: "FULFILLED",
+  shippingAddress: { zip: "sw1a 1aa" },
+  billingAddress: null,
+  fulfillments: [
+    {
+      status: "SUCCESS",
+      displayStatus: "IN_TRANSIT",
+      trackingInfo: [{ company: "UPS", number: "1Z999", url: "https://ups.example/1Z999" }],
+    },
+  ],
+};
+
+function adminReturning(nodes: unknown[]) {
+  return {
+    graphql: async () =>
+      new Response(JSON.stringify({ data: { orders: { edges: nodes.map((node) => ({ node })) } } }), {
+        status: 200,
+      }),
+  };
+}
+
+describe("order lookup input", () => {
+  it("normalizeOrderNumber strips # and whitespace", () => {
+    expect(normalizeOrderNumber(" #1001 ")).toBe("1001");
+    expect(normalizeOrderNumber("1001")).toBe("1001");
+    expect(normalizeOrderNumber("10 01")).toBeUndefined();
+    expect(normalizeOrderNumber('1001" OR name:*')).toBeUndefined();
+  });
+
+  it("parseOrderVerifier distinguishes emails from postal codes", () => {
+    expect(parseOrderVerifier(" Shopper@Example.com ")).toEqual({
+      kind: "email",
+      value: "shopper@example.com",
+    });
+    expect(parseOrderVerifier("sw1a 1aa")).toEqual({ kind: "postal_code", value: "SW1A1AA" });
+    expect(parseOrderVerifier("not@valid")).toBeUndefined();
+    expect(parseOrderVerifier("")).toBeUndefined();
+  });
+});
+
+describe("lookupOrderStatus", () => {
+  it("returns status and tracking when the verifier matches", async () => {
+    const result = await lookupOrderStatus({
+      admin: adminReturning([ORDER]),
+      merchantId: "1",
+      orderNumber: "1001",
+      verifier: { kind: "postal_code", value: "SW1A1AA" },
+    });
+
+    expect(result.found).toBe(true);
+    if (result.found) {
+      expect(result.order.fulfillments[0]?.trackingNumber).toBe("1Z999");
+      expect(JSON.stringify(result.order)).not.toContain("Shopper@Example.com");
+    }
+  });
+
+  it("treats a wrong verifier exactly like an unknown order", async () => {
+    const wrong = await lookupOrderStatus({
+      admin: adminReturning([ORDER]),
+      merchantId: "1",
+      orderNumber: "1001",
+      verifier: { kind: "email", value: "someone@else.com" },
+    });
+    const missing = await lookupOrderStatus({
+      admin: adminReturning([]),
+      merchantId: "1",
+      orderNumber: "1001",
+      verifier: { kind: "email", value: "shopper@example.com" },
+    });
+
+    expect(wrong).toEqual({ found: false });
+    expect(missing).toEqual({ found: false });
+  });
+
+  it("ignores fuzzy search hits with a different order name", async () => {
+    const result = await lookupOrderStatus({
+      admin: adminReturning([{ ...ORDER, name: "#10010" }]),
+      merchantId: "1",
+      orderNumber: "1001",
+      verifier: { kind: "email", value: "shopper@example.com" },
+    });
+    expect(result.found).toBe(false);
+  });
+});
+
+describe("order lookup helpers", () => {
+  beforeEach(() => {
+    resetOrderLookupAttempts();
+  });
+
+  it("limits attempts per key within the window", () => {
+    const now = 1_000;
+    for (let i = 0; i < ORDER_LOOKUP_MAX_ATTEMPTS; i++) {
+      expect(consumeOrderLookupAttempt("shop:visitor", now)).toBe(true);
+    }
+    expect(consumeOrderLookupAttempt("shop:visitor", now)).toBe(false);
+    expect(consumeOrderLookupAttempt("shop:other", now)).toBe(true);
+  });
+
+  it("limits guesses per order number and per client, whatever the visitor id", () => {
+    const now = 1_000;
+    const guess = (orderNumber: string, clientIp?: string) =>
+      consumeOrderLookupAttempts(
+        orderLookupLimitKeys({ merchantId: "1", orderNumber, clientIp }),
+        now
+      );
+
+    for (let i = 0; i < ORDER_LOOKUP_MAX_ATTEMPTS; i++) {
+      expect(guess("1001", `10.0.0.${i}`)).toBe(true);
+    }
+    expect(guess("1001", "10.0.0.99")).toBe(false);
+
+    for (let i = 0; i < ORDER_LOOKUP_MAX_ATTEMPTS; i++) {
+      expect(guess(`20${i}`, "10.0.1.1")).toBe(true);
+    }
+    expect(guess("3000", "10.0.1.1")).toBe(false);
+  });
+
+  it("keys clients on the address our proxy saw, not a spoofed X-Forwarded-For", () => {
+    const keysFor = (forwardedFor: string, hops?: number) =>
+      orderLookupLimitKeys({
+        merchantId: "1",
+        orderNumber: "1001",
+        clientIp: getClientIp(
+          new Request("https://app.example.com", {
+            headers: { "X-Forwarded-For": forwardedFor },
+          }),
+          hops
+        ),
+      });
+
+    expect(keysFor("1.1.1.1, 203.0.113.7", 1)).toEqual(keysFor("9.9.9.9, 203.0.113.7", 1));
+    expect(keysFor("1.1.1.1, 203.0.113.7", 1)).toContain("1:ip:203.0.113.7");
+    expect(keysFor("1.1.1.1, 203.0.113.7, 10.0.0.2", 2)).toContain("1:ip:203.0.113.7");
+  });
+
+  it("forgets expired attempts", () => {
+    consumeOrderLookupAttempt("shop:a", 0);
+    consumeOrderLookupAttempt("shop:b", 0);
+    expect(orderLookupAttemptCount()).toBe(2);
+
+    consumeOrderLookupAttempt("shop:c", ORDER_LOOKUP_WINDOW_MS);
+    expect(orderLookupAttemptCount()).toBe(1);
+  });
+
+  it("formats a summary without personal data", () => {
+    expect(
+      formatOrderStatusSummary({
+        name: "#1001",
+        createdAt: ORDER.createdAt,
+        cancelled: false,
+        financialStatus: "PAID",
+        fulfillmentStatus: "FULFILLED",
+        fulfillments: [
+          {
+            status: "IN_TRANSIT",
+            trackingCompany: "UPS",
+            trackingNumber: "1Z999",
+            trackingUrl: null,
+            estimatedDeliveryAt: null,
+            deliveredAt: null,
+          },
+        ],
+      })
+    ).toBe("Order #1001 is fulfilled - tracking UPS 1Z999.");
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from "vitest";
+
+import { createMemoryPubSub, getPubSub, setPubSub } from "../app/utils/pubsub.server";
+
+describe("memory pubsub", () => {
+  it("delivers to subscribers of the channel only", async () => {
+    const pubsub = createMemoryPubSub();
+    const a = vi.fn();
+    const b = vi.fn();
+    pubsub.subscribe("conversation:a", a);
+    pubsub.subscribe("conversation:b", b);
+
+    await pubsub.publish("conversation:a", { n: 1 });
+
+    expect(a).toHaveBeenCalledWith({ n: 1 });
+    expect(b).not.toHaveBeenCalled();
+  });
+
+  it("stops delivering after unsubscribe", async () => {
+    const pubsub = createMemoryPubSub();
+    const listener = vi.fn();
+    const unsubscribe = pubsub.subscribe("c", listener);
+
+    unsubscribe();
+    await pubsub.publish("c", "x");
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it("keeps notifying when one listener throws", async () => {
+    const pubsub = createMemoryPubSub();
+    const ok = vi.fn();
+    pubsub.subscribe("c", () => {
+      throw new Error("boom");
+    });
+    pubsub.subscribe("c", ok);
+
+    await pubsub.publish("c", "x");
+
+    expect(ok).toHaveBeenCalledWith("x");
+  });
+
+  it("can be swapped for another implementation", () => {
+    const custom = createMemoryPubSub();
+    setPubSub(custom);
+    expect(getPubSub()).toBe(custom);
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../app/db.server", () => ({ default: {} }));
+
+import type { KnowledgeEntryView } from "../app/utils/knowledge.server";
+import type { ResponderInput, ResponderTurn } from "../app/utils/responder.server";
+import {
+  generateReply,
+  getResponderProvider,
+  registerResponderProvider,
+} from "../app/utils/responder.server";
+import { localResponder, renderTemplate } from "../app/utils/responder-local.server";
+
+function input(history: ResponderTurn[], knowledge?: KnowledgeEntryView[]): ResponderInput {
+  return {
+    history,
+    merchant: {
+      merchantId: "1",
+      shopDomain: "demo.myshopify.com",
+      brandName: "Demo",
+      knowledge,
+    },
+  };
+}
+
+const SHIPPING_KNOWLEDGE: KnowledgeEntryView[] = [
+  {
+    id: "p1",
+    kind: "policy",
+    title: "Shipping policy",
+    body: "Orders ship within 2 business days.",
+    source: "shopify_policy",
+  },
+  {
+    id: "f1",
+    kind: "faq",
+    title: "Do you offer gift wrapping?",
+    body: "Yes, gift wrapping is free at checkout.",
+    source: "manual",
+  },
+];
+
+describe("local responder", () => {
+  it("answers known intents from the latest customer message", async () => {
+    const reply = await localResponder.respond(
+      input([{ role: "customer", body: "Where is my order?" }])
+    );
+    expect(reply.intent).toBe("order_status");
+    expect(reply.handoff).toBe(false);
+    expect(reply.provider).toBe("local");
+  });
+
+  it("is deterministic", async () => {
+    const history: ResponderTurn[] = [{ role: "customer", body: "hello" }];
+    const a = await localResponder.respond(input(history));
+    const b = await localResponder.respond(input(history));
+    expect(a).toEqual(b);
+    expect(a.body).toContain("Demo");
+  });
+
+  it("requests a handoff when the shopper asks for a human", async () => {
+    const reply = await localResponder.respond(
+      input([{ role: "customer", body: "Can I talk to a human please" }])
+    );
+    expect(reply.intent).toBe("handoff");
+    expect(reply.handoff).toBe(true);
+  });
+
+  it("hands off after repeated fallbacks", async () => {
+    const first = await localResponder.respond(input([{ role: "customer", body: "qwerty" }]));
+    expect(first.intent).toBe("fallback");
+    expect(first.handoff).toBe(false);
+
+    const third = await localResponder.respond(
+      input([
+        { role: "customer", body: "qwerty" },
+        { role: "bot", body: first.body },
+        { role: "customer", body: "asdf" },
+        { role: "bot", body: first.body },
+        { role: "customer", body: "zxcv" },
+      ])
+    );
+    expect(third.intent).toBe("fallback");
+    expect(third.handoff).toBe(true);
+  });
+
+  it("answers shipping questions from merchant knowledge", async () => {
+    const reply = await localResponder.respond(
+      input([{ role: "customer", body: "How fast is shipping?" }], SHIPPING_KNOWLEDGE)
+    );
+    expect(reply.intent).toBe("shipping");
+    expect(reply.body).toBe("Orders ship within 2 business days.");
+
+    const withoutKnowledge = await localResponder.respond(
+      input([{ role: "customer", body: "How fast is shipping?" }])
+    );
+    expect(withoutKnowledge.body).toContain("Shipping info");
+  });
+
+  it("answers matching FAQs before falling back", async () => {
+    const reply = await localResponder.respond(
+      input([{ role: "customer", body: "is gift wrapping possible" }], SHIPPING_KNOWLEDGE)
+    );
+    expect(reply.intent).toBe("knowledge");
+    expect(reply.body).toContain("gift wrapping is free");
+  });
+
+  it("renderTemplate leaves unknown placeholders untouched", () => {
+    expect(renderTemplate("{brandName} {other}", { brandName: "Demo" })).toBe(
+      "Demo {other}"
+    );
+  });
+});
+
+describe("responder registry", () => {
+  it("falls back to the local provider for unknown names", () => {
+    expect(getResponderProvider("does-not-exist").name).toBe("local");
+    expect(getResponderProvider(undefined).name).toBe("local");
+  });
+
+  it("falls back to the local provider when a remote provider fails", async () => {
+    registerResponderProvider({
+      name: "broken",
+      respond: async () => {
+        throw new Error("upstream unavailable");
+      },
+    });
+
+    const reply = await generateReply(input([{ role: "customer", body: "hi" }]), {
+      provider: "broken",
+    });
+    expect(reply.provider).toBe("local");
+    expect(reply.intent).toBe("greeting");
+  });
+});
@@ -0,0 +1,64 @@
+import { readFileSync } from "node:fs";
+import { describe, it, expect } from "vitest";
+
+import {
+  hasScope,
+  isFeatureAvailable,
+  missingScopes,
+  OPTIONAL_SCOPES,
+  parseScopes,
+  REQUIRED_SCOPES,
+  scopesToRequest,
+  unavailableFeatures,
+} from "../app/utils/scopes";
+
+describe("scope requirements", () => {
+  it("parses comma-separated and list scopes", () => {
+    expect(parseScopes(" read_orders,write_products,,read_orders ")).toEqual([
+      "read_orders",
+      "write_products",
+    ]);
+    expect(parseScopes(["read_orders", " "])).toEqual(["read_orders"]);
+    expect(parseScopes(null)).toEqual([]);
+  });
+
+  it("treats a write scope as granting the read scope", () => {
+    expect(hasScope(["write_orders"], "read_orders")).toBe(true);
+    expect(hasScope(["read_orders"], "write_orders")).toBe(false);
+    expect(hasScope(["unauthenticated_write_checkouts"], "unauthenticated_read_checkouts")).toBe(
+      true
+    );
+  });
+
+  it("lists the missing scopes and the features they turn off", () => {
+    const granted = ["write_products"];
+
+    expect(missingScopes(granted)).toEqual(["read_legal_policies"]);
+    expect(isFeatureAvailable("shipping_policy_import", granted)).toBe(false);
+    expect(unavailableFeatures(granted)).toEqual(["order_status", "shipping_policy_import"]);
+    expect(unavailableFeatures(granted, { required: true })).toEqual(["shipping_policy_import"]);
+  });
+
+  it("keeps optional scopes out of the required ones until a feature is turned on", () => {
+    const granted = ["read_legal_policies", "write_products"];
+
+    expect(OPTIONAL_SCOPES).toEqual(["read_orders"]);
+    expect(missingScopes(granted)).toEqual([]);
+    expect(isFeatureAvailable("order_status", granted)).toBe(false);
+    expect(scopesToRequest(["order_status", "shipping_policy_import"], granted)).toEqual([
+      "read_orders",
+    ]);
+    expect(scopesToRequest(["order_status"], [...granted, "write_orders"])).toEqual([]);
+  });
+
+  it("matches the scopes the app asks for in shopify.app.toml", () => {
+    const toml = readFileSync(new URL("../shopify.app.toml", import.meta.url), "utf8");
+    const required = parseScopes(toml.match(/^scopes\s*=\s*"([^"]*)"/m)?.[1]);
+    const optional = parseScopes(
+      toml.match(/^optional_scopes\s*=\s*\[([^\]]*)\]/m)?.[1].replace(/"/g, "")
+    );
+
+    expect(missingScopes(required, REQUIRED_SCOPES)).toEqual([]);
+    expect(missingScopes(optional, OPTIONAL_SCOPES)).toEqual([]);
+  });
+});
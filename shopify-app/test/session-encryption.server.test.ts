@@ -0,0 +1,175 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+import { Session } from "@shopify/shopify-api";
+import type { SessionStorage } from "@shopify/shopify-app-session-storage";
+
+type Row = { id: string; shop: string; accessToken: string; refreshToken: string | null };
+
+const db = vi.hoisted(() => ({ rows: [] as Row[] }));
+
+vi.mock("../app/db.server", () => ({
+  default: {
+    session: {
+      findMany: async () => db.rows.map((row) => ({ ...row })),
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: Row;
+        data: Pick<Row, "accessToken" | "refreshToken">;
+      }) => {
+        const row = db.rows.find(
+          (r) =>
+            r.id === where.id &&
+            r.accessToken === where.accessToken &&
+            r.refreshToken === where.refreshToken
+        );
+        if (row) Object.assign(row, data);
+        return { count: row ? 1 : 0 };
+      },
+    },
+  },
+}));
+
+import {
+  decryptToken,
+  EncryptedSessionStorage,
+  encryptToken,
+  isEncryptedToken,
+  parseSessionKeyring,
+  reencryptSessions,
+  tokenKeyId,
+} from "../app/utils/session-encryption.server";
+
+const KEY_1 = Buffer.alloc(32, 1).toString("base64");
+const KEY_2 = Buffer.alloc(32, 2).toString("base64");
+const keyring = (raw: string) => parseSessionKeyring(raw)!;
+
+function memoryStorage(): SessionStorage & { stored: Map<string, Session> } {
+  const stored = new Map<string, Session>();
+  return {
+    stored,
+    storeSession: async (session) => Boolean(stored.set(session.id, session)),
+    loadSession: async (id) => stored.get(id),
+    deleteSession: async (id) => stored.delete(id),
+    deleteSessions: async (ids) => ids.every((id) => stored.delete(id)),
+    findSessionsByShop: async (shop) => [...stored.values()].filter((s) => s.shop === shop),
+  };
+}
+
+const offlineSession = () =>
+  new Session({
+    id: "offline_demo.myshopify.com",
+    shop: "demo.myshopify.com",
+    state: "state",
+    isOnline: false,
+    accessToken: "shpat_secret",
+    refreshToken: "shprt_secret",
+  });
+
+describe("session token encryption", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  it("parses the keyring, first key current", () => {
+    const parsed = keyring(`k2:${KEY_2}, k1:${KEY_1}`);
+    expect(parsed.currentKeyId).toBe("k2");
+    expect([...parsed.keys.keys()]).toEqual(["k2", "k1"]);
+
+    expect(parseSessionKeyring(undefined)).toBeUndefined();
+    expect(parseSessionKeyring(" ")).toBeUndefined();
+    expect(() => parseSessionKeyring("k1:short")).toThrow(/32-byte/);
+    expect(() => parseSessionKeyring(KEY_1)).toThrow(/32-byte/);
+    expect(() => parseSessionKeyring(`k1:${KEY_1},k1:${KEY_2}`)).toThrow(/Duplicate/);
+  });
+
+  it("round-trips, tags the key id and binds tokens to the session id", () => {
+    const ring = keyring(`k1:${KEY_1}`);
+    const encrypted = encryptToken("shpat_secret", "offline_a", ring);
+
+    expect(isEncryptedToken(encrypted)).toBe(true);
+    expect(encrypted).not.toContain("shpat_secret");
+    expect(tokenKeyId(encrypted)).toBe("k1");
+    expect(decryptToken(encrypted, "offline_a", ring)).toBe("shpat_secret");
+    expect(() => decryptToken(encrypted, "offline_b", ring)).toThrow(/key k1/);
+    expect(decryptToken("shpat_plain", "offline_a", ring)).toBe("shpat_plain");
+  });
+
+  it("decrypts with older keys after a rotation", () => {
+    const old = encryptToken("shpat_secret", "offline_a", keyring(`k1:${KEY_1}`));
+
+    expect(decryptToken(old, "offline_a", keyring(`k2:${KEY_2},k1:${KEY_1}`))).toBe(
+      "shpat_secret"
+    );
+    expect(() => decryptToken(old, "offline_a", keyring(`k2:${KEY_2}`))).toThrow(/Unknown/);
+  });
+
+  it("stores ciphertext and loads plaintext through the wrapper", async () => {
+    const inner = memoryStorage();
+    const storage = new EncryptedSessionStorage(inner, keyring(`k1:${KEY_1}`));
+
+    await storage.storeSession(offlineSession());
+
+    const raw = inner.stored.get("offline_demo.myshopify.com")!;
+    expect(tokenKeyId(raw.accessToken!)).toBe("k1");
+    expect(tokenKeyId(raw.refreshToken!)).toBe("k1");
+
+    const loaded = await storage.loadSession("offline_demo.myshopify.com");
+    expect(loaded?.accessToken).toBe("shpat_secret");
+    expect(loaded?.refreshToken).toBe("shprt_secret");
+    expect((await storage.findSessionsByShop("demo.myshopify.com"))[0].accessToken).toBe(
+      "shpat_secret"
+    );
+  });
+
+  it("treats sessions it can't decrypt as missing and logs the error code", async () => {
+    const inner = memoryStorage();
+    await new EncryptedSessionStorage(inner, keyring(`k1:${KEY_1}`)).storeSession(
+      offlineSession()
+    );
+    const storage = new EncryptedSessionStorage(inner, keyring(`k2:${KEY_2}`));
+
+    expect(await storage.loadSession("offline_demo.myshopify.com")).toBeUndefined();
+    expect(await storage.findSessionsByShop("demo.myshopify.com")).toEqual([]);
+    expect(JSON.parse(String(vi.mocked(console.error).mock.calls[0]?.[0]))).toMatchObject({
+      message: "session_tokens.decrypt_failed",
+      errorCode: "TOKEN_ENCRYPTION_FAILED",
+      keyId: "k1",
+    });
+  });
+
+  it("reencrypts plaintext and old-key rows with the current key", async () => {
+    const old = keyring(`k1:${KEY_1}`);
+    const ring = keyring(`k2:${KEY_2},k1:${KEY_1}`);
+    db.rows = [
+      { id: "a", shop: "a.myshopify.com", accessToken: "shpat_a", refreshToken: null },
+      {
+        id: "b",
+        shop: "b.myshopify.com",
+        accessToken: encryptToken("shpat_b", "b", old),
+        refreshToken: encryptToken("shprt_b", "b", old),
+      },
+      {
+        id: "c",
+        shop: "c.myshopify.com",
+        accessToken: encryptToken("shpat_c", "c", ring),
+        refreshToken: null,
+      },
+      { id: "d", shop: "d.myshopify.com", accessToken: "enc:v1:k0:x:y:z", refreshToken: null },
+    ];
+
+    expect(await reencryptSessions(ring, { dryRun: true })).toEqual({
+      sessions: 4,
+      reencrypted: 2,
+      current: 1,
+      failed: 1,
+    });
+    expect(db.rows[0].accessToken).toBe("shpat_a");
+
+    expect(await reencryptSessions(ring)).toMatchObject({ reencrypted: 2, failed: 1 });
+    expect(db.rows.map((r) => tokenKeyId(r.accessToken))).toEqual(["k2", "k2", "k2", "k0"]);
+    expect(decryptToken(db.rows[1].refreshToken!, "b", ring)).toBe("shprt_b");
+    expect(decryptToken(db.rows[0].accessToken, "a", ring)).toBe("shpat_a");
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../app/db.server", () => ({ default: {} }));
+
+import type { WebhookSubscription } from "../app/utils/shopify-webhook-registration.server";
+import { planWebhookReconciliation } from "../app/utils/shopify-webhook-registration.server";
+
+const APP_URL = "https://app.example.com";
+
+const required = [
+  { topic: "APP_UNINSTALLED", path: "/webhooks/app/uninstalled" },
+  { topic: "ORDERS_CREATE", path: "/webhooks/orders/create" },
+];
+
+function subscription(id: string, topic: string, callbackUrl: string): WebhookSubscription {
+  return {
+    id,
+    topic,
+    createdAt: "2026-10-01T00:00:00Z",
+    endpoint: { __typename: "WebhookHttpEndpoint", callbackUrl },
+  };
+}
+
+describe("webhook reconciliation plan", () => {
+  it("creates every required topic on a fresh shop", () => {
+    const plan = planWebhookReconciliation([], required, APP_URL);
+
+    expect(plan.keep).toEqual([]);
+    expect(plan.remove).toEqual([]);
+    expect(plan.create.map((c) => c.callbackUrl)).toEqual([
+      "https://app.example.com/webhooks/app/uninstalled",
+      "https://app.example.com/webhooks/orders/create",
+    ]);
+  });
+
+  it("keeps matching subscriptions and only creates what's missing", () => {
+    const existing = subscription("1", "APP_UNINSTALLED", `${APP_URL}/webhooks/app/uninstalled`);
+    const plan = planWebhookReconciliation([existing], required, APP_URL);
+
+    expect(plan.keep).toEqual([{ required: required[0], subscription: existing }]);
+    expect(plan.create.map((c) => c.required.topic)).toEqual(["ORDERS_CREATE"]);
+    expect(plan.remove).toEqual([]);
+  });
+
+  it("removes duplicates, old callback URLs and topics no longer required", () => {
+    const current = subscription("1", "APP_UNINSTALLED", `${APP_URL}/webhooks/app/uninstalled`);
+    const duplicate = subscription("2", "APP_UNINSTALLED", `${APP_URL}/webhooks/app/uninstalled`);
+    const oldTunnel = subscription(
+      "3",
+      "ORDERS_CREATE",
+      "https://old.trycloudflare.com/webhooks/orders/create"
+    );
+    const dropped = subscription("4", "PRODUCTS_UPDATE", `${APP_URL}/webhooks/products/update`);
+
+    const plan = planWebhookReconciliation(
+      [current, duplicate, oldTunnel, dropped],
+      required,
+      APP_URL
+    );
+
+    expect(plan.keep.map((k) => k.subscription.id)).toEqual(["1"]);
+    expect(plan.create.map((c) => c.required.topic)).toEqual(["ORDERS_CREATE"]);
+    expect(plan.remove.map((s) => s.id)).toEqual(["2", "3", "4"]);
+  });
+});
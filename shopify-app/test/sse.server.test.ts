@@ -0,0 +1,73 @@
+import { describe, it, expect } from "vitest";
+
+import type { SseEvent } from "../app/utils/sse.server";
+import { createSseResponse, formatSseEvent, getLastEventId } from "../app/utils/sse.server";
+import type { SseMessage } from "../app/utils/sse-client";
+import { parseSseBlock, readSseStream } from "../app/utils/sse-client";
+
+describe("sse", () => {
+  it("formats events with optional ids", () => {
+    expect(formatSseEvent({ id: "m1", event: "message", data: { a: 1 } })).toBe(
+      'id: m1\nevent: message\ndata: {"a":1}\n\n'
+    );
+    expect(formatSseEvent({ event: "conversation", data: "x" })).toBe(
+      'event: conversation\ndata: "x"\n\n'
+    );
+  });
+
+  it("reads Last-Event-ID from the header or query and rejects unsafe values", () => {
+    expect(
+      getLastEventId(new Request("https://a.test/s", { headers: { "Last-Event-ID": "m1" } }))
+    ).toBe("m1");
+    expect(getLastEventId(new Request("https://a.test/s?last_event_id=m2"))).toBe("m2");
+    expect(getLastEventId(new Request("https://a.test/s?last_event_id=%3Cx%3E"))).toBeUndefined();
+  });
+
+  it("parses event blocks, ignoring comments", () => {
+    expect(parseSseBlock(": ping")).toBeUndefined();
+    expect(parseSseBlock("id: 1\nevent: message\ndata: {}")).toEqual({
+      id: "1",
+      event: "message",
+      data: "{}",
+    });
+  });
+
+  it("replays missed events before live ones, without duplicates", async () => {
+    const controller = new AbortController();
+    let send: ((event: SseEvent) => void) | undefined;
+
+    const response = createSseResponse({
+      request: new Request("https://a.test/s", { signal: controller.signal }),
+      requestId: "req-1",
+      subscribe: (s) => {
+        send = s;
+        // Published while the replay query is still running.
+        s({ id: "m2", event: "message", data: 2 });
+        return () => undefined;
+      },
+      replay: async () => [
+        { id: "m1", event: "message", data: 1 },
+        { id: "m2", event: "message", data: 2 },
+      ],
+    });
+
+    expect(response.headers.get("Content-Type")).toContain("text/event-stream");
+    expect(response.headers.get("X-Request-Id")).toBe("req-1");
+
+    const received: SseMessage[] = [];
+    const reading = readSseStream(
+      response,
+      (message) => {
+        received.push(message);
+        if (received.length === 2) {
+          send?.({ id: "m3", event: "message", data: 3 });
+        }
+        if (received.length === 3) controller.abort();
+      },
+      new AbortController().signal
+    );
+
+    expect(await reading).toBe("m3");
+    expect(received.map((m) => m.id)).toEqual(["m1", "m2", "m3"]);
+  });
+});
@@ -0,0 +1,108 @@
+import { beforeEach, describe, it, expect, vi } from "vitest";
+
+type MerchantRow = { merchantId: string; shopDomain: string; status: string };
+type EventRow = { merchantId: string; fromStatus: string | null; toStatus: string; reason: string };
+
+const db = vi.hoisted(() => ({ merchants: [] as MerchantRow[], events: [] as EventRow[] }));
+const registration = vi.hoisted(() => ({ missing: new Map<string, string[]>() }));
+
+vi.mock("../app/db.server", () => {
+  const client = {
+    $transaction: async (fn: (tx: unknown) => Promise<unknown>) => fn(client),
+    merchantStatusEvent: {
+      create: async ({ data }: { data: EventRow }) => {
+        db.events.push(data);
+        return data;
+      },
+    },
+    merchant: {
+      findUnique: async ({ where }: { where: { merchantId: string } }) =>
+        db.merchants.find((m) => m.merchantId === where.merchantId) ?? null,
+      findMany: async ({ where }: { where: { status: { in: string[] } } }) =>
+        db.merchants.filter((m) => where.status.in.includes(m.status)).map((m) => ({ ...m })),
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { merchantId: string; status: string };
+        data: { status: string };
+      }) => {
+        const row = db.merchants.find(
+          (m) => m.merchantId === where.merchantId && m.status === where.status
+        );
+        if (row) row.status = data.status;
+        return { count: row ? 1 : 0 };
+      },
+    },
+  };
+  return { default: client };
+});
+
+vi.mock("../app/utils/offline-tokens.server", () => ({
+  getOfflineAdmin: async (shop: string) => {
+    if (shop === "no-session.myshopify.com") throw new Error("Could not find a session");
+    return { admin: {} };
+  },
+}));
+
+vi.mock("../app/utils/shopify-webhook-registration.server", () => ({
+  ensureWebhookRegistrations: async ({ shopDomain }: { shopDomain: string }) => {
+    const missingTopics = registration.missing.get(shopDomain) ?? [];
+    return { success: missingTopics.length === 0, missingTopics, created: 0, removed: 0 };
+  },
+}));
+
+import { runWebhookHealthSweep } from "../app/utils/webhook-health.server";
+
+describe("webhook health sweep", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    registration.missing.clear();
+    db.events = [];
+    db.merchants = [
+      { merchantId: "1", shopDomain: "healthy.myshopify.com", status: "active" },
+      { merchantId: "2", shopDomain: "fixed.myshopify.com", status: "missing_webhooks" },
+      { merchantId: "3", shopDomain: "broken.myshopify.com", status: "active" },
+      { merchantId: "4", shopDomain: "no-session.myshopify.com", status: "missing_webhooks" },
+      { merchantId: "5", shopDomain: "gone.myshopify.com", status: "uninstalled" },
+      { merchantId: "6", shopDomain: "reauth.myshopify.com", status: "needs_reauth" },
+    ];
+  });
+
+  it("moves merchants between active and missing_webhooks and summarizes", async () => {
+    registration.missing.set("broken.myshopify.com", ["APP_UNINSTALLED"]);
+
+    const summary = await runWebhookHealthSweep();
+
+    expect(summary).toEqual({
+      merchants: 4,
+      healthy: 2,
+      missing: 1,
+      recovered: 1,
+      degraded: 1,
+      skipped: 1,
+    });
+    expect(db.merchants.map((m) => m.status)).toEqual([
+      "active",
+      "active",
+      "missing_webhooks",
+      "missing_webhooks",
+      "uninstalled",
+      "needs_reauth",
+    ]);
+    expect(db.events).toEqual([
+      expect.objectContaining({
+        merchantId: "2",
+        fromStatus: "missing_webhooks",
+        toStatus: "active",
+        reason: "webhooks_restored",
+      }),
+      expect.objectContaining({
+        merchantId: "3",
+        fromStatus: "active",
+        toStatus: "missing_webhooks",
+        reason: "webhooks_missing",
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,262 @@
+import crypto from "crypto";
+import { beforeEach, describe, it, expect, vi } from "vitest";
+
+type LedgerRow = {
+  webhookId: string;
+  topic: string;
+  shopDomain: string;
+  status: string;
+  attempts: number;
+  payload?: string | null;
+  receivedAt: Date;
+  updatedAt: Date;
+  processedAt: Date | null;
+};
+
+const shopify = vi.hoisted(() => ({ webhook: vi.fn() }));
+// Just enough of prisma.processedWebhook for the ledger.
+const db = vi.hoisted(() => ({ rows: new Map<string, LedgerRow>() }));
+
+vi.mock("../app/shopify.server", () => ({ authenticate: { webhook: shopify.webhook } }));
+
+vi.mock("../app/utils/offline-tokens.server", () => ({
+  getOfflineAdmin: async () => ({ admin: {}, session: { id: "offline_demo" } }),
+}));
+
+vi.mock("../app/db.server", () => ({
+  default: {
+    processedWebhook: {
+      findUnique: async ({ where }: { where: { webhookId: string } }) => {
+        const row = db.rows.get(where.webhookId);
+        return row ? { ...row } : null;
+      },
+      create: async ({
+        data,
+      }: {
+        data: Omit<LedgerRow, "attempts" | "updatedAt" | "processedAt">;
+      }) => {
+        if (db.rows.has(data.webhookId)) throw new Error("Unique constraint failed");
+        const row = { attempts: 1, processedAt: null, ...data, updatedAt: new Date() };
+        db.rows.set(data.webhookId, row);
+        return row;
+      },
+      updateMany: async ({
+        where,
+        data,
+      }: {
+        where: { webhookId: string; status: string; updatedAt: Date };
+        data: { status: string };
+      }) => {
+        const row = db.rows.get(where.webhookId);
+        if (!row || row.status !== where.status || row.updatedAt !== where.updatedAt) {
+          return { count: 0 };
+        }
+        Object.assign(row, {
+          status: data.status,
+          attempts: row.attempts + 1,
+          updatedAt: new Date(),
+        });
+        return { count: 1 };
+      },
+      update: async ({ where, data }: { where: { webhookId: string }; data: Partial<LedgerRow> }) =>
+        Object.assign(db.rows.get(where.webhookId)!, data, { updatedAt: new Date() }),
+      deleteMany: async ({ where }: { where: { receivedAt: { lt: Date } } }) => {
+        let count = 0;
+        for (const [id, row] of db.rows) {
+          if (row.receivedAt < where.receivedAt.lt) {
+            db.rows.delete(id);
+            count += 1;
+          }
+        }
+        return { count };
+      },
+    },
+  },
+}));
+
+import {
+  PROCESSED_WEBHOOK_RETENTION_MS,
+  pruneProcessedWebhooks,
+} from "../app/utils/webhook-ledger.server";
+import type { WebhookRegistry } from "../app/utils/webhook-router.server";
+import {
+  defineWebhookHandler,
+  dispatchWebhook,
+  replayWebhook,
+} from "../app/utils/webhook-router.server";
+
+const SECRET = "webhook-secret";
+const BODY = JSON.stringify({ id: 820982911946154500, email: "jon@example.com" });
+
+function webhookRequest(
+  topic: string,
+  { body = BODY, secret = SECRET, webhookId = "b54557e4-bdd9-4b37-8a5f-bf7d70bcd043" } = {}
+) {
+  return new Request("https://app.example.com/webhooks/orders/create", {
+    method: "POST",
+    body,
+    headers: {
+      "X-Shopify-Topic": topic,
+      "X-Shopify-Shop-Domain": "demo.myshopify.com",
+      "X-Shopify-Webhook-Id": webhookId,
+      "X-Shopify-Hmac-Sha256": crypto.createHmac("sha256", secret).update(body).digest("base64"),
+    },
+  });
+}
+
+const handle = vi.fn();
+
+const registry: WebhookRegistry = {
+  "orders/create": defineWebhookHandler<{ orderId: string }>({
+    eventType: "webhook_other",
+    parse: (payload) => {
+      const id = (payload as { id?: unknown }).id;
+      return typeof id === "number" ? { orderId: String(id) } : undefined;
+    },
+    handle,
+  }),
+};
+
+describe("webhook router", () => {
+  beforeEach(() => {
+    process.env.SHOPIFY_API_SECRET = SECRET;
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    shopify.webhook.mockReset();
+    shopify.webhook.mockImplementation(async (request: Request) => ({
+      shop: "demo.myshopify.com",
+      payload: await request.json(),
+      session: undefined,
+      admin: undefined,
+    }));
+    handle.mockReset();
+    db.rows.clear();
+  });
+
+  it("dispatches the parsed payload to the topic's handler", async () => {
+    const response = await dispatchWebhook(webhookRequest("orders/create"), registry);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("X-Request-Id")).toBeTruthy();
+    expect(handle).toHaveBeenCalledWith(
+      expect.objectContaining({
+        topic: "orders/create",
+        shopDomain: "demo.myshopify.com",
+        webhookId: "b54557e4-bdd9-4b37-8a5f-bf7d70bcd043",
+        payload: { orderId: "820982911946154500" },
+      })
+    );
+  });
+
+  it("rejects bad signatures and unknown topics before authenticating", async () => {
+    const forged = await dispatchWebhook(
+      webhookRequest("orders/create", { secret: "other" }),
+      registry
+    );
+    expect(forged.status).toBe(401);
+
+    const unknown = await dispatchWebhook(webhookRequest("products/delete"), registry);
+    expect(unknown.status).toBe(403);
+
+    expect(shopify.webhook).not.toHaveBeenCalled();
+    expect(handle).not.toHaveBeenCalled();
+  });
+
+  it("answers 400 when the payload doesn't parse", async () => {
+    const response = await dispatchWebhook(
+      webhookRequest("orders/create", { body: JSON.stringify({ id: "x" }) }),
+      registry
+    );
+
+    expect(response.status).toBe(400);
+    expect(handle).not.toHaveBeenCalled();
+  });
+
+  it("maps thrown Responses to their status and other errors to 500", async () => {
+    handle.mockRejectedValueOnce(new Response(null, { status: 422 }));
+    expect((await dispatchWebhook(webhookRequest("orders/create"), registry)).status).toBe(422);
+
+    handle.mockRejectedValueOnce(new Error("database is locked"));
+    const retry = webhookRequest("orders/create", { webhookId: "other-delivery" });
+    expect((await dispatchWebhook(retry, registry)).status).toBe(500);
+  });
+
+  it("acknowledges redeliveries of a processed webhook without running it again", async () => {
+    expect((await dispatchWebhook(webhookRequest("orders/create"), registry)).status).toBe(200);
+    expect((await dispatchWebhook(webhookRequest("orders/create"), registry)).status).toBe(200);
+
+    expect(handle).toHaveBeenCalledTimes(1);
+    expect(db.rows.get("b54557e4-bdd9-4b37-8a5f-bf7d70bcd043")).toMatchObject({
+      status: "processed",
+      attempts: 1,
+    });
+  });
+
+  it("runs a failed delivery again on retry", async () => {
+    handle.mockRejectedValueOnce(new Error("database is locked"));
+    expect((await dispatchWebhook(webhookRequest("orders/create"), registry)).status).toBe(500);
+    expect((await dispatchWebhook(webhookRequest("orders/create"), registry)).status).toBe(200);
+
+    expect(handle).toHaveBeenCalledTimes(2);
+    expect(db.rows.get("b54557e4-bdd9-4b37-8a5f-bf7d70bcd043")).toMatchObject({
+      status: "processed",
+      attempts: 2,
+    });
+  });
+
+  it("answers 409 while the same delivery is still running", async () => {
+    let finish = () => {};
+    handle.mockImplementationOnce(() => new Promise<void>((resolve) => (finish = resolve)));
+
+    const first = dispatchWebhook(webhookRequest("orders/create"), registry);
+    await vi.waitFor(() => expect(handle).toHaveBeenCalled());
+
+    expect((await dispatchWebhook(webhookRequest("orders/create"), registry)).status).toBe(409);
+    finish();
+    expect((await first).status).toBe(200);
+  });
+
+  it("replays a recorded delivery from its stored payload", async () => {
+    await dispatchWebhook(webhookRequest("orders/create"), registry);
+    handle.mockReset();
+    handle.mockResolvedValueOnce({ ordersSynced: 1 });
+
+    const replayed = await replayWebhook("b54557e4-bdd9-4b37-8a5f-bf7d70bcd043", registry);
+
+    expect(replayed).toMatchObject({
+      topic: "orders/create",
+      shopDomain: "demo.myshopify.com",
+      result: { outcome: "success", ordersSynced: 1 },
+    });
+    expect(handle).toHaveBeenCalledWith(
+      expect.objectContaining({ payload: { orderId: "820982911946154500" }, replay: true })
+    );
+    expect(db.rows.get("b54557e4-bdd9-4b37-8a5f-bf7d70bcd043")).toMatchObject({
+      status: "processed",
+      attempts: 2,
+    });
+
+    await expect(replayWebhook("unknown", registry)).rejects.toThrow("No recorded delivery");
+  });
+
+  it("prunes ledger rows past the retention window", async () => {
+    const now = new Date("2026-10-19T12:00:00Z");
+    for (const [webhookId, age] of [
+      ["old", PROCESSED_WEBHOOK_RETENTION_MS + 1],
+      ["recent", 60_000],
+    ] as const) {
+      db.rows.set(webhookId, {
+        webhookId,
+        topic: "orders/create",
+        shopDomain: "demo.myshopify.com",
+        status: "processed",
+        attempts: 1,
+        receivedAt: new Date(now.getTime() - age),
+        updatedAt: now,
+        processedAt: now,
+      });
+    }
+
+    expect(await pruneProcessedWebhooks(now)).toBe(1);
+    expect([...db.rows.keys()]).toEqual(["recent"]);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  brandNameFromShopDomain,
+  DEFAULT_WIDGET_SETTINGS,
+  isWidgetVisibleOnPage,
+  parseWidgetSettings,
+  quickActionsNeedingScopes,
+  unavailableQuickActions,
+} from "../app/utils/widget-settings";
+
+describe("widget settings", () => {
+  it("keeps the base values for missing fields", () => {
+    const { settings, invalid } = parseWidgetSettings({});
+    expect(settings).toEqual(DEFAULT_WIDGET_SETTINGS);
+    expect(invalid).toEqual([]);
+  });
+
+  it("parses form posts (strings and comma-separated lists)", () => {
+    const { settings, invalid } = parseWidgetSettings({
+      brandName: " Demo ",
+      brandColor: "#FF0000",
+      position: "bottom-left",
+      quickActions: "talk_to_support,order_status,talk_to_support,bogus",
+      pageVisibility: "only",
+      pageTypes: "product,cart",
+    });
+
+    expect(invalid).toEqual([]);
+    expect(settings.brandName).toBe("Demo");
+    expect(settings.brandColor).toBe("#ff0000");
+    expect(settings.position).toBe("bottom-left");
+    expect(settings.quickActions).toEqual(["talk_to_support", "order_status"]);
+    expect(settings.pageTypes).toEqual(["product", "cart"]);
+  });
+
+  it("reports invalid fields without applying them", () => {
+    const { settings, invalid } = parseWidgetSettings({
+      brandColor: "red",
+      greeting: "   ",
+      position: "top",
+    });
+
+    expect(invalid).toEqual(["greeting", "brandColor", "position"]);
+    expect(settings.brandColor).toBe(DEFAULT_WIDGET_SETTINGS.brandColor);
+  });
+
+  it("applies page targeting", () => {
+    const only = {
+      ...DEFAULT_WIDGET_SETTINGS,
+      pageVisibility: "only" as const,
+      pageTypes: ["product" as const],
+    };
+    expect(isWidgetVisibleOnPage(only, "product")).toBe(true);
+    expect(isWidgetVisibleOnPage(only, "cart")).toBe(false);
+
+    const except = { ...only, pageVisibility: "except" as const };
+    expect(isWidgetVisibleOnPage(except, "product")).toBe(false);
+    expect(isWidgetVisibleOnPage(except, "index")).toBe(true);
+
+    expect(isWidgetVisibleOnPage(DEFAULT_WIDGET_SETTINGS, "anything")).toBe(true);
+  });
+
+  it("drops quick actions whose scopes aren't granted", () => {
+    const actions = DEFAULT_WIDGET_SETTINGS.quickActions;
+
+    expect(unavailableQuickActions(actions, ["write_products"])).toEqual(["order_status"]);
+    expect(unavailableQuickActions(actions, ["read_orders"])).toEqual([]);
+  });
+
+  it("only asks for scopes of quick actions turned on since the last save", () => {
+    const granted = ["write_products"];
+
+    expect(
+      quickActionsNeedingScopes(["order_status"], ["order_status", "shipping_info"], granted)
+    ).toEqual([]);
+    expect(quickActionsNeedingScopes(["shipping_info"], ["order_status"], granted)).toEqual([
+      "order_status",
+    ]);
+    expect(quickActionsNeedingScopes([], ["order_status"], ["read_orders"])).toEqual([]);
+  });
+
+  it("derives the default brand name from the shop domain", () => {
+    expect(brandNameFromShopDomain("demo-store.myshopify.com")).toBe("demo-store");
+    expect(brandNameFromShopDomain("shop.example.com")).toBe("shop.example.com");
+  });
+});